@@ -0,0 +1,29 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Store the identifiers returned by the STK Push request so callbacks
+    // can be matched to the exact payment that initiated them
+    await queryInterface.addColumn("payments", "merchant_request_id", {
+      type: Sequelize.STRING(100),
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn("payments", "checkout_request_id", {
+      type: Sequelize.STRING(100),
+      allowNull: true,
+      unique: true,
+    });
+
+    await queryInterface.addColumn("payments", "result_desc", {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn("payments", "result_desc");
+    await queryInterface.removeColumn("payments", "checkout_request_id");
+    await queryInterface.removeColumn("payments", "merchant_request_id");
+  },
+};
@@ -0,0 +1,73 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Create landlord_payment_settings table (credentials are stored encrypted)
+    await queryInterface.createTable("landlord_payment_settings", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        unique: true,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      business_name: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      mpesa_short_code: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      mpesa_consumer_key_encrypted: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      mpesa_consumer_secret_encrypted: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      mpesa_passkey_encrypted: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      mpesa_env: {
+        type: Sequelize.ENUM("sandbox", "production"),
+        defaultValue: "sandbox",
+        allowNull: false,
+      },
+      last_verified_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      credentials_rotated_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("landlord_payment_settings");
+  },
+};
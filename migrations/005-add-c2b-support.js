@@ -0,0 +1,117 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Paybill account code tenants can enter instead of the unit name
+    await queryInterface.addColumn("units", "code", {
+      type: Sequelize.STRING(50),
+      allowNull: true,
+    });
+
+    // Create unmatched_payments table for C2B payments awaiting assignment
+    await queryInterface.createTable("unmatched_payments", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      transaction_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+        unique: true,
+      },
+      transaction_time: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      business_short_code: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      bill_ref_number: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      msisdn: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+      },
+      payer_name: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      reason: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM("unmatched", "assigned", "dismissed"),
+        defaultValue: "unmatched",
+        allowNull: false,
+      },
+      payment_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "payments",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      resolved_by: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      resolved_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      raw_payload: {
+        type: Sequelize.JSONB,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("unmatched_payments", [
+      "landlord_id",
+      "status",
+    ]);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("unmatched_payments");
+    await queryInterface.removeColumn("units", "code");
+  },
+};
@@ -0,0 +1,190 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Create invoices table (what each lease owes)
+    await queryInterface.createTable("invoices", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      invoice_number: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+        unique: true,
+      },
+      lease_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "leases",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      tenant_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      unit_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "units",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      type: {
+        type: Sequelize.ENUM("rent", "deposit", "late_fee", "other"),
+        defaultValue: "rent",
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      period_start: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      period_end: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      issue_date: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      due_date: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      amount_paid: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      status: {
+        type: Sequelize.ENUM(
+          "open",
+          "partially_paid",
+          "paid",
+          "overdue",
+          "void"
+        ),
+        defaultValue: "open",
+        allowNull: false,
+      },
+      voided_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      void_reason: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("invoices", ["lease_id", "due_date"]);
+    await queryInterface.addIndex("invoices", ["tenant_id"]);
+    await queryInterface.addIndex("invoices", ["landlord_id", "status"]);
+
+    // The scheduler must never bill the same rent period twice
+    await queryInterface.addIndex("invoices", {
+      fields: ["lease_id", "type", "period_start"],
+      unique: true,
+      where: {
+        type: "rent",
+      },
+      name: "one_rent_invoice_per_lease_period",
+    });
+
+    // Create payment_allocations table (which payment settled which invoice)
+    await queryInterface.createTable("payment_allocations", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      payment_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "payments",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      invoice_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "invoices",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("payment_allocations", ["payment_id"]);
+    await queryInterface.addIndex("payment_allocations", ["invoice_id"]);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("payment_allocations");
+    await queryInterface.dropTable("invoices");
+  },
+};
@@ -0,0 +1,134 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Create late_fee_rules table (per property, or per lease as an override)
+    await queryInterface.createTable("late_fee_rules", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      property_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        unique: true,
+        references: {
+          model: "properties",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      lease_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        unique: true,
+        references: {
+          model: "leases",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      grace_period_days: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      fee_type: {
+        type: Sequelize.ENUM("flat", "percentage"),
+        allowNull: false,
+      },
+      fee_amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      daily_accrual: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      max_fee: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: true,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    // Link late fee charges to the rent invoice and rule that produced them
+    await queryInterface.addColumn("invoices", "related_invoice_id", {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: "invoices",
+        key: "id",
+      },
+      onUpdate: "CASCADE",
+      onDelete: "SET NULL",
+    });
+
+    await queryInterface.addColumn("invoices", "late_fee_rule_id", {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: "late_fee_rules",
+        key: "id",
+      },
+      onUpdate: "CASCADE",
+      onDelete: "SET NULL",
+    });
+
+    // Record who voided (or waived) a charge
+    await queryInterface.addColumn("invoices", "voided_by", {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onUpdate: "CASCADE",
+      onDelete: "SET NULL",
+    });
+
+    await queryInterface.addIndex("invoices", {
+      fields: ["related_invoice_id"],
+      unique: true,
+      where: { type: "late_fee" },
+      name: "one_late_fee_per_invoice",
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex("invoices", "one_late_fee_per_invoice");
+    await queryInterface.removeColumn("invoices", "voided_by");
+    await queryInterface.removeColumn("invoices", "late_fee_rule_id");
+    await queryInterface.removeColumn("invoices", "related_invoice_id");
+    await queryInterface.dropTable("late_fee_rules");
+  },
+};
@@ -0,0 +1,203 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Distinguish deposit payments from rent payments
+    await queryInterface.addColumn("payments", "purpose", {
+      type: Sequelize.ENUM("rent", "deposit"),
+      allowNull: false,
+      defaultValue: "rent",
+    });
+
+    // Create security_deposits table (one per lease)
+    await queryInterface.createTable("security_deposits", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      lease_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        unique: true,
+        references: {
+          model: "leases",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      tenant_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      invoice_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "invoices",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM("open", "deferred", "settled"),
+        defaultValue: "open",
+        allowNull: false,
+      },
+      held_amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: true,
+      },
+      deductions_total: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: true,
+      },
+      refund_amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: true,
+      },
+      balance_due: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: true,
+      },
+      refund_method: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      refund_reference: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      settled_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      settled_by: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      deferred_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      deferral_reason: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      notes: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("security_deposits", [
+      "landlord_id",
+      "status",
+    ]);
+
+    // Create deposit_deductions table (itemised move-out deductions)
+    await queryInterface.createTable("deposit_deductions", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      deposit_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "security_deposits",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      maintenance_request_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "maintenance_requests",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      created_by: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("deposit_deductions", ["deposit_id"]);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("deposit_deductions");
+    await queryInterface.dropTable("security_deposits");
+    await queryInterface.removeColumn("payments", "purpose");
+  },
+};
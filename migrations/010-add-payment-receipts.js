@@ -0,0 +1,29 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn("payments", "receipt_number", {
+      type: Sequelize.STRING(30),
+      allowNull: true,
+      unique: true,
+    });
+
+    await queryInterface.addColumn("payments", "receipt_issued_at", {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Receipt numbers are sequential and never reused
+    await queryInterface.sequelize.query(
+      "CREATE SEQUENCE IF NOT EXISTS payment_receipt_number_seq START 1"
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(
+      "DROP SEQUENCE IF EXISTS payment_receipt_number_seq"
+    );
+    await queryInterface.removeColumn("payments", "receipt_issued_at");
+    await queryInterface.removeColumn("payments", "receipt_number");
+  },
+};
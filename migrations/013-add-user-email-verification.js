@@ -0,0 +1,23 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Existing accounts are treated as verified; self-registered landlords
+    // are created unverified by the application
+    await queryInterface.addColumn("users", "email_verified", {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    });
+
+    await queryInterface.addColumn("users", "email_verified_at", {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn("users", "email_verified_at");
+    await queryInterface.removeColumn("users", "email_verified");
+  },
+};
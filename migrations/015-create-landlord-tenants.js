@@ -0,0 +1,84 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Create landlord_tenants table (which landlords a tenant rents from)
+    await queryInterface.createTable("landlord_tenants", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      tenant_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      status: {
+        type: Sequelize.ENUM("active", "ended"),
+        defaultValue: "active",
+        allowNull: false,
+      },
+      started_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      ended_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("landlord_tenants", ["landlord_id", "tenant_id"], {
+      unique: true,
+    });
+    await queryInterface.addIndex("landlord_tenants", ["tenant_id"]);
+
+    // Link existing tenants to the landlords they have leases or payments with
+    await queryInterface.sequelize.query(`
+      INSERT INTO landlord_tenants (id, landlord_id, tenant_id, status, started_at)
+      SELECT gen_random_uuid(), landlord_id, tenant_id, 'active', MIN(started_at)
+      FROM (
+        SELECT landlord_id, tenant_id, created_at AS started_at FROM leases
+        UNION ALL
+        SELECT properties.landlord_id, payments.tenant_id, payments.created_at
+        FROM payments
+        JOIN units ON units.id = payments.unit_id
+        JOIN properties ON properties.id = units.property_id
+        WHERE payments.tenant_id IS NOT NULL
+      ) AS links
+      GROUP BY landlord_id, tenant_id
+    `);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("landlord_tenants");
+  },
+};
@@ -0,0 +1,143 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Link a renewed lease to the lease it replaced
+    await queryInterface.addColumn("leases", "previous_lease_id", {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+      onUpdate: "CASCADE",
+      onDelete: "SET NULL",
+    });
+
+    await queryInterface.addColumn("leases", "renewal_reminder_sent_at", {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Create lease_renewals table (renewal offers made on a lease)
+    await queryInterface.createTable("lease_renewals", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      lease_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "leases",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      tenant_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      start_date: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      end_date: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      current_rent: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      proposed_rent: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      escalation_percent: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: true,
+      },
+      respond_by: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      message: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      status: {
+        type: Sequelize.ENUM(
+          "pending",
+          "accepted",
+          "declined",
+          "withdrawn",
+          "expired"
+        ),
+        defaultValue: "pending",
+        allowNull: false,
+      },
+      responded_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      decline_reason: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      successor_lease_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "leases",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("lease_renewals", ["lease_id"]);
+    await queryInterface.addIndex("lease_renewals", ["tenant_id", "status"]);
+    await queryInterface.addIndex("lease_renewals", ["lease_id"], {
+      unique: true,
+      where: { status: "pending" },
+      name: "one_pending_renewal_per_lease",
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("lease_renewals");
+    await queryInterface.removeColumn("leases", "renewal_reminder_sent_at");
+    await queryInterface.removeColumn("leases", "previous_lease_id");
+  },
+};
@@ -0,0 +1,80 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Per-lease choice of what happens at the end of the term
+    await queryInterface.addColumn("leases", "end_of_term_policy", {
+      type: Sequelize.ENUM("expire", "month_to_month"),
+      allowNull: false,
+      defaultValue: "expire",
+    });
+
+    await queryInterface.addColumn("leases", "month_to_month_since", {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Create lease_status_changes table (audit trail of status transitions)
+    await queryInterface.createTable("lease_status_changes", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      lease_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "leases",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      from_status: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+      },
+      to_status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      reason: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      changed_by: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("lease_status_changes", [
+      "lease_id",
+      "created_at",
+    ]);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("lease_status_changes");
+    await queryInterface.removeColumn("leases", "month_to_month_since");
+    await queryInterface.removeColumn("leases", "end_of_term_policy");
+  },
+};
@@ -0,0 +1,90 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Create lease_templates table (landlord tenancy agreement wording)
+    await queryInterface.createTable("lease_templates", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      title: {
+        type: Sequelize.STRING(200),
+        allowNull: false,
+      },
+      body: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      is_default: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("lease_templates", ["landlord_id"]);
+
+    // At most one default template per landlord
+    await queryInterface.addIndex("lease_templates", ["landlord_id"], {
+      unique: true,
+      where: { is_default: true },
+      name: "one_default_lease_template_per_landlord",
+    });
+
+    // Generated agreement linked to the lease
+    await queryInterface.addColumn("leases", "agreement_template_id", {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: "lease_templates",
+        key: "id",
+      },
+      onUpdate: "CASCADE",
+      onDelete: "SET NULL",
+    });
+
+    await queryInterface.addColumn("leases", "agreement_url", {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn("leases", "agreement_generated_at", {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn("leases", "agreement_generated_at");
+    await queryInterface.removeColumn("leases", "agreement_url");
+    await queryInterface.removeColumn("leases", "agreement_template_id");
+    await queryInterface.dropTable("lease_templates");
+  },
+};
@@ -0,0 +1,100 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Create expenses table (property costs for income statements)
+    await queryInterface.createTable("expenses", {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+      },
+      landlord_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "users",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      property_id: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: "properties",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "CASCADE",
+      },
+      unit_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "units",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      maintenance_request_id: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: "maintenance_requests",
+          key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "SET NULL",
+      },
+      category: {
+        type: Sequelize.ENUM(
+          "maintenance",
+          "utilities",
+          "insurance",
+          "taxes",
+          "management",
+          "other"
+        ),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      expense_date: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      reference: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.literal("CURRENT_TIMESTAMP"),
+      },
+    });
+
+    await queryInterface.addIndex("expenses", ["property_id", "expense_date"]);
+    await queryInterface.addIndex("expenses", ["landlord_id"]);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable("expenses");
+  },
+};
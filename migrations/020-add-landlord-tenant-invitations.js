@@ -0,0 +1,35 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Links to an existing tenant account wait as "pending" until the tenant
+    // accepts the landlord's invitation
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_landlord_tenants_status" ADD VALUE IF NOT EXISTS 'pending'`
+    );
+
+    // Whether this landlord created the tenant's account
+    await queryInterface.addColumn("landlord_tenants", "created_account", {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+
+    // Tenants linked to a single landlord were set up by that landlord
+    await queryInterface.sequelize.query(`
+      UPDATE landlord_tenants SET created_account = true
+      WHERE tenant_id IN (
+        SELECT tenant_id FROM landlord_tenants
+        GROUP BY tenant_id
+        HAVING COUNT(*) = 1
+      )
+    `);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn("landlord_tenants", "created_account");
+    await queryInterface.sequelize.query(
+      `DELETE FROM landlord_tenants WHERE status = 'pending'`
+    );
+  },
+};
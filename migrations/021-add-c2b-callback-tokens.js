@@ -0,0 +1,24 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Secret path segment in the landlord's registered C2B URLs. Daraja does
+    // not sign C2B requests, so the URL itself identifies a genuine callback.
+    await queryInterface.addColumn(
+      "landlord_payment_settings",
+      "c2b_callback_token",
+      {
+        type: Sequelize.STRING(64),
+        allowNull: true,
+        unique: true,
+      }
+    );
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn(
+      "landlord_payment_settings",
+      "c2b_callback_token"
+    );
+  },
+};
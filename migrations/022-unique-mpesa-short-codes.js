@@ -0,0 +1,22 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // A paybill belongs to one landlord; C2B payments are routed by it
+    await queryInterface.addIndex(
+      "landlord_payment_settings",
+      ["mpesa_short_code"],
+      {
+        unique: true,
+        name: "landlord_payment_settings_mpesa_short_code_unique",
+      }
+    );
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex(
+      "landlord_payment_settings",
+      "landlord_payment_settings_mpesa_short_code_unique"
+    );
+  },
+};
@@ -0,0 +1,17 @@
+"use strict";
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Pending payments held for the landlord, e.g. after M-Pesa reported a
+    // different amount; the reconciler leaves them alone
+    await queryInterface.addColumn("payments", "needs_review", {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn("payments", "needs_review");
+  },
+};
@@ -21,10 +21,29 @@ import tenantRoutes from "./routes/tenantRoutes";
 import paymentRoutes from "./routes/paymentRoutes";
 import maintenanceRoutes from "./routes/maintenanceRoutes";
 import leaseRoutes from "./routes/leaseRoutes";
+import paymentSettingsRoutes from "./routes/paymentSettingsRoutes";
+import invoiceRoutes from "./routes/invoiceRoutes";
+import ledgerRoutes from "./routes/ledgerRoutes";
+import lateFeeRuleRoutes from "./routes/lateFeeRuleRoutes";
+import leaseTemplateRoutes from "./routes/leaseTemplateRoutes";
+import dashboardRoutes from "./routes/dashboardRoutes";
+import analyticsRoutes from "./routes/analyticsRoutes";
+import expenseRoutes from "./routes/expenseRoutes";
+import reportRoutes from "./routes/reportRoutes";
 
 // Import middleware
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 
+// Import background jobs
+import {
+  startPaymentReconciler,
+  stopPaymentReconciler,
+} from "./services/paymentReconciliationService";
+import {
+  startBillingScheduler,
+  stopBillingScheduler,
+} from "./services/billingScheduler";
+
 // Import seeding utility
 import { seedInitialData } from "./utils/seedData";
 
@@ -143,6 +162,33 @@ app.use("/api/maintenance", maintenanceRoutes);
 // Lease management routes
 app.use("/api/leases", leaseRoutes);
 
+// Landlord M-Pesa payment settings routes
+app.use("/api/payment-settings", paymentSettingsRoutes);
+
+// Rent invoice routes
+app.use("/api/invoices", invoiceRoutes);
+
+// Tenant ledger and statement routes
+app.use("/api/ledger", ledgerRoutes);
+
+// Late fee rule routes
+app.use("/api/late-fee-rules", lateFeeRuleRoutes);
+
+// Lease agreement template routes
+app.use("/api/lease-templates", leaseTemplateRoutes);
+
+// Landlord and tenant dashboard routes
+app.use("/api/dashboard", dashboardRoutes);
+
+// Time-series analytics routes
+app.use("/api/analytics", analyticsRoutes);
+
+// Property expense routes
+app.use("/api/expenses", expenseRoutes);
+
+// Financial report routes
+app.use("/api/reports", reportRoutes);
+
 // All core API routes completed!
 
 // 404 handler for unknown routes
@@ -195,6 +241,12 @@ const startServer = async () => {
       }
     }
 
+    // Resolve M-Pesa payments whose callback never arrived
+    startPaymentReconciler();
+
+    // Bill active leases each period, flag overdue invoices and charge late fees
+    startBillingScheduler();
+
     // Start server with full functionality
     app.listen(PORT, () => {
       logger.info(
@@ -227,12 +279,16 @@ process.on("uncaughtException", (error: Error) => {
 // Graceful shutdown
 process.on("SIGTERM", async () => {
   logger.info("SIGTERM received. Shutting down gracefully...");
+  stopPaymentReconciler();
+  stopBillingScheduler();
   await sequelize.close();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   logger.info("SIGINT received. Shutting down gracefully...");
+  stopPaymentReconciler();
+  stopBillingScheduler();
   await sequelize.close();
   process.exit(0);
 });
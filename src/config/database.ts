@@ -23,6 +23,9 @@ if (!DB_NAME) {
   throw new Error("Database name (DB_NAME) is required");
 }
 
+// East Africa Time; also used to bucket dates in analytics
+export const DB_TIMEZONE = "+03:00";
+
 // Create Sequelize instance
 const sequelize = new Sequelize(DB_NAME, DB_USER, DB_PASSWORD || "", {
   host: DB_HOST,
@@ -45,7 +48,7 @@ const sequelize = new Sequelize(DB_NAME, DB_USER, DB_PASSWORD || "", {
           }
         : false,
   },
-  timezone: "+03:00", // East Africa Time
+  timezone: DB_TIMEZONE,
   retry: {
     match: [
       /ConnectionError/,
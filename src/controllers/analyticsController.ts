@@ -0,0 +1,109 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  ANALYTICS_INTERVALS,
+  ANALYTICS_METRICS,
+  AnalyticsInterval,
+  AnalyticsMetric,
+  getAnalyticsSeries,
+} from "../services/analyticsService";
+import { parseLocalDateRange } from "../utils/filters";
+
+/**
+ * Get bucketed revenue, rent billed vs collected, occupancy, lease and
+ * maintenance series for the landlord, one property or one unit
+ * @route GET /api/analytics
+ * @access Private (Landlord only)
+ */
+export const getAnalytics = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      interval = "month",
+      metrics,
+      startDate,
+      endDate,
+      propertyId,
+      unitId,
+    } = req.query;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view analytics.",
+      });
+      return;
+    }
+
+    if (!ANALYTICS_INTERVALS.includes(interval as AnalyticsInterval)) {
+      res.status(400).json({
+        success: false,
+        message: `interval must be one of: ${ANALYTICS_INTERVALS.join(", ")}`,
+      });
+      return;
+    }
+
+    const requestedMetrics = metrics
+      ? String(metrics)
+          .split(",")
+          .map((metric) => metric.trim())
+          .filter(Boolean)
+      : [];
+    const unknownMetrics = requestedMetrics.filter(
+      (metric) => !ANALYTICS_METRICS.includes(metric as AnalyticsMetric)
+    );
+
+    if (unknownMetrics.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `metrics must be a comma-separated list of: ${ANALYTICS_METRICS.join(
+          ", "
+        )}`,
+      });
+      return;
+    }
+
+    const range = parseLocalDateRange(startDate, endDate);
+
+    const analytics = await getAnalyticsSeries(
+      {
+        landlordId: req.user.id,
+        propertyId: propertyId as string | undefined,
+        unitId: unitId as string | undefined,
+      },
+      {
+        interval: interval as AnalyticsInterval,
+        metrics: requestedMetrics as AnalyticsMetric[],
+        range,
+      }
+    );
+
+    res.json({
+      success: true,
+      message: "Analytics retrieved successfully",
+      data: analytics,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error fetching analytics:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch analytics",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
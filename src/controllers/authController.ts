@@ -1,15 +1,39 @@
 import { Request, Response } from "express";
-import { User } from "../models";
+import { User, Session } from "../models";
 import {
-  generateToken,
   generatePasswordResetToken,
   verifyPasswordResetToken,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
 } from "../utils/auth";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
 import twoFactorService from "../services/twoFactorService";
-import { sendPasswordResetEmail } from "../services/emailService";
+import {
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "../services/emailService";
 import crypto from "crypto";
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeAllSessions,
+  revokeSession,
+  revokeSessionById,
+  listActiveSessions,
+} from "../services/sessionService";
+
+// Email a verification link; failures are logged so the caller can retry
+// through the resend endpoint
+const sendEmailVerification = async (user: User): Promise<void> => {
+  try {
+    const token = generateEmailVerificationToken(user.id, user.email);
+    await sendVerificationEmail(user.email, token, user.firstName);
+    logger.info(`Verification email sent to: ${user.email}`);
+  } catch (error) {
+    logger.error(`Error sending verification email to ${user.email}:`, error);
+  }
+};
 
 // Register user
 export const register = async (req: Request, res: Response): Promise<void> => {
@@ -48,10 +72,16 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       emergencyContactName,
       emergencyContactPhone,
       status: "active",
+      // Landlords must confirm their email address before using the app
+      emailVerified: role !== "landlord",
     });
 
-    // Generate token
-    const token = generateToken(user);
+    if (user.requiresEmailVerification) {
+      await sendEmailVerification(user);
+    }
+
+    // Start a session
+    const { token, refreshToken } = await createSession(user, req);
 
     logger.info(`User registered: ${email} (${role})`);
 
@@ -67,8 +97,11 @@ export const register = async (req: Request, res: Response): Promise<void> => {
           fullName: user.fullName,
           role: user.role,
           status: user.status,
+          emailVerified: user.emailVerified,
         },
         token,
+        refreshToken,
+        requiresEmailVerification: user.requiresEmailVerification,
       },
     });
   } catch (error) {
@@ -84,7 +117,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 // Login user
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password, twoFactorCode } = req.body;
+    const { email, password, twoFactorCode, deviceName } = req.body;
 
     // Find user
     const user = await User.findOne({ where: { email: email.toLowerCase() } });
@@ -129,6 +162,17 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Unverified landlords cannot sign in until they confirm their email
+    if (user.requiresEmailVerification) {
+      res.status(403).json({
+        success: false,
+        requiresEmailVerification: true,
+        message:
+          "Please verify your email address before logging in. Check your inbox or request a new verification link.",
+      });
+      return;
+    }
+
     // Check if 2FA is enabled for this user
     if (user.twoFactorEnabled) {
       if (!twoFactorCode) {
@@ -150,7 +194,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         res.status(401).json({
           success: false,
           message:
-            "Invalid two-factor authentication code. Please check your authenticator app and try again.",
+            "Invalid two-factor authentication code. Please check your authenticator app or use one of your backup codes.",
         });
         return;
       }
@@ -162,8 +206,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     // Update last login
     await user.update({ lastLogin: new Date() });
 
-    // Generate token
-    const token = generateToken(user);
+    // Start a session
+    const { token, refreshToken } = await createSession(user, req, deviceName);
 
     logger.info(`User logged in: ${email}`);
 
@@ -180,8 +224,10 @@ export const login = async (req: Request, res: Response): Promise<void> => {
           role: user.role,
           status: user.status,
           twoFactorEnabled: user.twoFactorEnabled,
+          mustChangePassword: user.mustChangePassword,
         },
         token,
+        refreshToken,
       },
     });
   } catch (error) {
@@ -273,13 +319,21 @@ export const changePassword = async (
     }
 
     // Update password (will be hashed automatically by the model hook)
-    await user.update({ password: newPassword });
+    await user.update({ password: newPassword, mustChangePassword: false });
+
+    // Sign out every other device, so a stolen refresh token stops working
+    await revokeAllSessions(
+      user.id,
+      "password_changed",
+      authenticatedReq.sessionId
+    );
 
     logger.info(`Password changed for user: ${user.email}`);
 
     res.json({
       success: true,
-      message: "Password changed successfully",
+      message:
+        "Password changed successfully. Your other devices have been signed out.",
     });
   } catch (error) {
     logger.error("Change password error:", error);
@@ -361,6 +415,81 @@ export const updateProfile = async (
   }
 };
 
+// Verify email address
+export const verifyEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    const decoded = verifyEmailVerificationToken(token);
+    const user = decoded ? await User.findByPk(decoded.userId) : null;
+
+    // The link is only valid for the address it was sent to
+    if (!decoded || !user || user.email !== decoded.email) {
+      res.status(400).json({
+        success: false,
+        message:
+          "Invalid or expired verification link. Request a new one.",
+      });
+      return;
+    }
+
+    if (!user.emailVerified) {
+      await user.update({ emailVerified: true, emailVerifiedAt: new Date() });
+      logger.info(`Email verified for user: ${user.email}`);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Email verified successfully. You can now log in.",
+    });
+  } catch (error) {
+    logger.error("Verify email error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Server error verifying email",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Resend the verification email (for the signed-in user, or by email)
+export const resendVerificationEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const user = authenticatedReq.user
+      ? await User.findByPk(authenticatedReq.user.id)
+      : req.body.email
+      ? await User.findOne({
+          where: { email: String(req.body.email).toLowerCase() },
+        })
+      : null;
+
+    // Same response whether or not the account exists
+    if (user && user.status === "active" && user.requiresEmailVerification) {
+      await sendEmailVerification(user);
+    }
+
+    res.status(200).json({
+      success: true,
+      message:
+        "If the account needs verification, a new verification link has been sent.",
+    });
+  } catch (error) {
+    logger.error("Resend verification email error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Server error sending verification email",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
 // Forgot password
 export const forgotPassword = async (
   req: Request,
@@ -506,10 +635,14 @@ export const resetPassword = async (
 
     // Update password and clear reset token
     user.password = newPassword; // Will be hashed by model hooks
+    user.mustChangePassword = false;
     user.resetPasswordToken = null;
     user.resetPasswordExpires = null;
     await user.save();
 
+    // Sign out everywhere in case the old password was compromised
+    await revokeAllSessions(user.id, "password_reset");
+
     // Development logging for successful password reset
     if (process.env.NODE_ENV === "development") {
       console.log("\n" + "✅".repeat(40));
@@ -663,6 +796,57 @@ export const disable2FA = async (
   }
 };
 
+// Regenerate 2FA backup codes (invalidates the previous set)
+export const regenerateBackupCodes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    if (!authenticatedReq.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    const { token } = req.body;
+
+    const result = await twoFactorService.regenerateBackupCodes(
+      authenticatedReq.user.id,
+      token
+    );
+
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid verification code",
+      });
+      return;
+    }
+
+    logger.info(
+      `2FA backup codes regenerated for user: ${authenticatedReq.user.email}`
+    );
+
+    res.status(200).json({
+      success: true,
+      message:
+        "Backup codes regenerated successfully. Previous codes no longer work.",
+      backupCodes: result.backupCodes,
+    });
+  } catch (error) {
+    logger.error("Regenerate backup codes error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Server error regenerating backup codes",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
 // Get 2FA status
 export const get2FAStatus = async (
   req: Request,
@@ -697,10 +881,202 @@ export const get2FAStatus = async (
   }
 };
 
-// Logout (client-side token removal)
+// Exchange a refresh token for a new access token and refresh token
+export const refreshToken = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const result = await rotateRefreshToken(req.body.refreshToken, req);
+
+    if (!result.success) {
+      const messages = {
+        invalid: "Invalid refresh token",
+        expired: "Session has expired. Please log in again.",
+        revoked: "Session has been revoked. Please log in again.",
+        reused:
+          "Refresh token has already been used. For your security this session has been signed out.",
+      };
+
+      res.status(401).json({
+        success: false,
+        message: messages[result.reason],
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Token refreshed successfully",
+      data: {
+        token: result.tokens.token,
+        refreshToken: result.tokens.refreshToken,
+      },
+    });
+  } catch (error) {
+    logger.error("Token refresh error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to refresh token",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Logout (revokes the current session)
 export const logout = async (req: Request, res: Response): Promise<void> => {
-  res.json({
-    success: true,
-    message: "Logout successful. Please remove the token from client storage.",
-  });
+  try {
+    const { sessionId } = req as AuthenticatedRequest;
+
+    if (sessionId) {
+      await revokeSessionById(sessionId, "logout");
+    }
+
+    res.json({
+      success: true,
+      message: "Logout successful",
+    });
+  } catch (error) {
+    logger.error("Logout error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Logout failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// List the current user's active sessions
+export const getSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    if (!authenticatedReq.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    const sessions = await listActiveSessions(authenticatedReq.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Sessions retrieved successfully",
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          deviceName: session.deviceName,
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+          lastSeenAt: session.lastSeenAt,
+          createdAt: session.createdAt,
+          expiresAt: session.expiresAt,
+          current: session.id === authenticatedReq.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error("Get sessions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Server error getting sessions",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Revoke one of the current user's sessions (signs that device out)
+export const revokeUserSession = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    if (!authenticatedReq.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    const session = await Session.findOne({
+      where: { id: req.params.id, userId: authenticatedReq.user.id },
+    });
+
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: "Session not found",
+      });
+      return;
+    }
+
+    await revokeSession(session, "user_revoked");
+
+    logger.info(
+      `Session ${session.id} revoked by user: ${authenticatedReq.user.email}`
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Session revoked successfully",
+    });
+  } catch (error) {
+    logger.error("Revoke session error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Server error revoking session",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Revoke all of the current user's other sessions, or every session
+// including this one with ?includeCurrent=true
+export const revokeAllUserSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    if (!authenticatedReq.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    const includeCurrent = req.query.includeCurrent === "true";
+    const count = await revokeAllSessions(
+      authenticatedReq.user.id,
+      "user_revoked_all",
+      includeCurrent ? undefined : authenticatedReq.sessionId
+    );
+
+    logger.info(
+      `${count} session(s) revoked by user: ${authenticatedReq.user.email}`
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${count} session(s) revoked successfully`,
+      data: { revoked: count },
+    });
+  } catch (error) {
+    logger.error("Revoke all sessions error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Server error revoking sessions",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
 };
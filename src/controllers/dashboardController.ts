@@ -0,0 +1,100 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import {
+  getLandlordDashboardSummary,
+  getTenantDashboardStats,
+} from "../services/dashboardService";
+
+/**
+ * Get the landlord dashboard: headline stats and recent activity
+ * @route GET /api/dashboard/landlord
+ * @access Private (Landlord only)
+ */
+export const getLandlordDashboard = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view this dashboard.",
+      });
+      return;
+    }
+
+    const { stats, recentActivity } = await getLandlordDashboardSummary(
+      req.user.id
+    );
+
+    res.json({
+      success: true,
+      message: "Dashboard retrieved successfully",
+      data: { stats, recentActivity },
+    });
+  } catch (error) {
+    logger.error("Error fetching landlord dashboard:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch dashboard",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Get the tenant dashboard stats
+ * @route GET /api/dashboard/tenant
+ * @access Private (Tenant only)
+ */
+export const getTenantDashboard = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "tenant") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only tenants can view this dashboard.",
+      });
+      return;
+    }
+
+    const stats = await getTenantDashboardStats(req.user.id);
+
+    res.json({
+      success: true,
+      message: "Dashboard retrieved successfully",
+      data: { stats },
+    });
+  } catch (error) {
+    logger.error("Error fetching tenant dashboard:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch dashboard",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Get the dashboard for the logged-in user's role
+ * @route GET /api/dashboard
+ * @access Private (Landlord/Tenant)
+ */
+export const getDashboard = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (req.user?.role === "tenant") {
+    return getTenantDashboard(req, res);
+  }
+  return getLandlordDashboard(req, res);
+};
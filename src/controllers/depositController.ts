@@ -0,0 +1,403 @@
+import { Response } from "express";
+import crypto from "crypto";
+import { Op } from "sequelize";
+import {
+  DepositDeduction,
+  Invoice,
+  Lease,
+  MaintenanceRequest,
+  Payment,
+  SecurityDeposit,
+} from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import { syncPaymentAllocations } from "../services/invoiceService";
+import { issuePaymentReceipt } from "../services/receiptService";
+import {
+  DepositDeductionInput,
+  deferDeposit,
+  findLeaseDeposit,
+  settleDeposit,
+} from "../services/depositService";
+
+const findDeposit = (leaseId: string) =>
+  SecurityDeposit.findOne({
+    where: { leaseId },
+    include: [
+      {
+        model: Invoice,
+        as: "invoice",
+        attributes: [
+          "id",
+          "invoiceNumber",
+          "amount",
+          "amountPaid",
+          "status",
+          "dueDate",
+        ],
+      },
+      {
+        model: DepositDeduction,
+        as: "deductions",
+        include: [
+          {
+            model: MaintenanceRequest,
+            as: "maintenanceRequest",
+            attributes: ["id", "title", "status"],
+          },
+        ],
+      },
+    ],
+    order: [[{ model: DepositDeduction, as: "deductions" }, "createdAt", "ASC"]],
+  });
+
+/**
+ * Get the security deposit for a lease
+ * @route GET /api/leases/:id/deposit
+ * @access Private (Landlord or the lease's tenant)
+ */
+export const getLeaseDeposit = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const whereClause: any = { id };
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else {
+      whereClause.tenantId = req.user?.id;
+    }
+
+    const lease = await Lease.findOne({ where: whereClause });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const heldDeposit = await findLeaseDeposit(lease.id);
+    const deposit = heldDeposit ? await findDeposit(heldDeposit.leaseId) : null;
+
+    if (!deposit) {
+      res.status(404).json({
+        success: false,
+        message: "No security deposit is held for this lease.",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Security deposit retrieved successfully",
+      data: { deposit },
+    });
+  } catch (error) {
+    logger.error("Error fetching security deposit:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch security deposit",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Record a deposit payment received outside M-Pesa STK Push
+ * @route POST /api/leases/:id/deposit/payments
+ * @access Private (Landlord only)
+ */
+export const recordDepositPayment = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, paymentDate, reference, notes } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can record deposit payments.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const deposit = await findLeaseDeposit(lease.id);
+
+    if (!deposit || deposit.status === "settled") {
+      res.status(400).json({
+        success: false,
+        message: deposit
+          ? "The security deposit for this lease has already been settled."
+          : "No security deposit is held for this lease.",
+      });
+      return;
+    }
+
+    if (reference) {
+      const existingPayment = await Payment.findOne({
+        where: { mpesaTransactionId: reference },
+      });
+
+      if (existingPayment) {
+        res.status(400).json({
+          success: false,
+          message: "A payment with this reference has already been recorded.",
+        });
+        return;
+      }
+    }
+
+    // Deposit payments belong to the lease the deposit was charged on, which
+    // is an earlier lease when this one is a renewal
+    const payment = await Payment.create({
+      tenantId: lease.tenantId,
+      unitId: lease.unitId,
+      leaseId: deposit.leaseId,
+      amount,
+      purpose: "deposit",
+      paymentDate: paymentDate ? new Date(paymentDate) : new Date(),
+      mpesaTransactionId:
+        reference ||
+        `DEP_${Date.now()}_${crypto.randomBytes(4).toString("hex").toUpperCase()}`,
+      status: "successful",
+      notes: notes || "Security deposit payment",
+    });
+    await syncPaymentAllocations(payment);
+    await issuePaymentReceipt(payment);
+
+    logger.info(
+      `Deposit payment recorded: ${payment.id} for lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Deposit payment recorded successfully",
+      data: { payment, deposit: await findDeposit(deposit.leaseId) },
+    });
+  } catch (error) {
+    logger.error("Error recording deposit payment:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to record deposit payment",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Settle a security deposit with itemised deductions and email the
+ * statement to the tenant
+ * @route POST /api/leases/:id/deposit/settle
+ * @access Private (Landlord only)
+ */
+export const settleLeaseDeposit = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { deductions = [], refundMethod, refundReference, notes } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can settle security deposits.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const deposit = await findLeaseDeposit(lease.id);
+
+    if (!deposit) {
+      res.status(404).json({
+        success: false,
+        message: "No security deposit is held for this lease.",
+      });
+      return;
+    }
+
+    if (deposit.status === "settled") {
+      res.status(400).json({
+        success: false,
+        message: "The security deposit for this lease has already been settled.",
+      });
+      return;
+    }
+
+    // Deductions may only reference maintenance requests on the leased unit
+    const maintenanceRequestIds = (deductions as DepositDeductionInput[])
+      .map((d) => d.maintenanceRequestId)
+      .filter((requestId): requestId is string => !!requestId);
+
+    if (maintenanceRequestIds.length > 0) {
+      const uniqueIds = [...new Set(maintenanceRequestIds)];
+      const matchingRequests = await MaintenanceRequest.count({
+        where: { id: { [Op.in]: uniqueIds }, unitId: lease.unitId },
+      });
+
+      if (matchingRequests !== uniqueIds.length) {
+        res.status(400).json({
+          success: false,
+          message:
+            "Deductions can only reference maintenance requests for this lease's unit.",
+        });
+        return;
+      }
+    }
+
+    await settleDeposit(
+      deposit,
+      {
+        deductions: (deductions as DepositDeductionInput[]).map((d) => ({
+          description: d.description,
+          amount: d.amount,
+          maintenanceRequestId: d.maintenanceRequestId,
+        })),
+        refundMethod,
+        refundReference,
+        notes,
+      },
+      req.user.id
+    );
+
+    logger.info(
+      `Security deposit settled for lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.json({
+      success: true,
+      message: "Security deposit settled successfully",
+      data: { deposit: await findDeposit(deposit.leaseId) },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error settling security deposit:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to settle security deposit",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Defer settlement of a security deposit so the lease can be terminated
+ * @route POST /api/leases/:id/deposit/defer
+ * @access Private (Landlord only)
+ */
+export const deferLeaseDeposit = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can defer security deposits.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const deposit = await findLeaseDeposit(lease.id);
+
+    if (!deposit) {
+      res.status(404).json({
+        success: false,
+        message: "No security deposit is held for this lease.",
+      });
+      return;
+    }
+
+    if (deposit.status === "settled") {
+      res.status(400).json({
+        success: false,
+        message: "The security deposit for this lease has already been settled.",
+      });
+      return;
+    }
+
+    await deferDeposit(deposit, reason);
+
+    logger.info(
+      `Security deposit deferred for lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.json({
+      success: true,
+      message: "Security deposit settlement deferred",
+      data: { deposit },
+    });
+  } catch (error) {
+    logger.error("Error deferring security deposit:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to defer security deposit",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
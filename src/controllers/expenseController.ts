@@ -0,0 +1,333 @@
+import { Response } from "express";
+import { Expense, MaintenanceRequest, Property, Unit } from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import { buildDateRangeFilter } from "../utils/filters";
+
+/**
+ * Check a unit or maintenance request given with an expense belongs to the
+ * expense's property
+ */
+const checkExpenseLinks = async (
+  res: Response,
+  propertyId: string,
+  unitId?: string | null,
+  maintenanceRequestId?: string | null
+): Promise<boolean> => {
+  if (unitId) {
+    const unit = await Unit.findOne({ where: { id: unitId, propertyId } });
+
+    if (!unit) {
+      res.status(404).json({
+        success: false,
+        message: "Unit not found in this property.",
+      });
+      return false;
+    }
+  }
+
+  if (maintenanceRequestId) {
+    const request = await MaintenanceRequest.findOne({
+      where: { id: maintenanceRequestId },
+      include: [
+        {
+          model: Unit,
+          as: "unit",
+          where: { propertyId },
+          attributes: [],
+        },
+      ],
+    });
+
+    if (!request) {
+      res.status(404).json({
+        success: false,
+        message: "Maintenance request not found in this property.",
+      });
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Get the landlord's recorded expenses
+ * @route GET /api/expenses
+ * @access Private (Landlord only)
+ */
+export const getExpenses = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { propertyId, unitId, category, startDate, endDate } = req.query;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view expenses.",
+      });
+      return;
+    }
+
+    const whereClause: any = { landlordId: req.user.id };
+    if (propertyId) whereClause.propertyId = propertyId;
+    if (unitId) whereClause.unitId = unitId;
+    if (category) whereClause.category = category;
+
+    const dateFilter = buildDateRangeFilter(startDate, endDate);
+    if (dateFilter) whereClause.expenseDate = dateFilter;
+
+    const expenses = await Expense.findAll({
+      where: whereClause,
+      include: [
+        { model: Property, as: "property", attributes: ["id", "name"] },
+        { model: Unit, as: "unit", attributes: ["id", "name"] },
+      ],
+      order: [["expenseDate", "DESC"]],
+    });
+
+    const totalAmount = expenses.reduce(
+      (sum, expense) => sum + Number(expense.amount),
+      0
+    );
+
+    res.json({
+      success: true,
+      message: "Expenses retrieved successfully",
+      data: { expenses, totalAmount },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error fetching expenses:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch expenses",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Record an expense against a property
+ * @route POST /api/expenses
+ * @access Private (Landlord only)
+ */
+export const createExpense = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      propertyId,
+      unitId,
+      maintenanceRequestId,
+      category,
+      description,
+      amount,
+      expenseDate,
+      reference,
+    } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can record expenses.",
+      });
+      return;
+    }
+
+    const property = await Property.findOne({
+      where: { id: propertyId, landlordId: req.user.id },
+    });
+
+    if (!property) {
+      res.status(404).json({
+        success: false,
+        message: "Property not found or access denied.",
+      });
+      return;
+    }
+
+    if (
+      !(await checkExpenseLinks(res, property.id, unitId, maintenanceRequestId))
+    ) {
+      return;
+    }
+
+    const expense = await Expense.create({
+      landlordId: req.user.id,
+      propertyId: property.id,
+      unitId: unitId || undefined,
+      maintenanceRequestId: maintenanceRequestId || undefined,
+      category,
+      description,
+      amount,
+      expenseDate: expenseDate ? new Date(expenseDate) : new Date(),
+      reference,
+    });
+
+    logger.info(`Expense recorded: ${expense.id} by landlord: ${req.user.id}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Expense recorded successfully",
+      data: { expense },
+    });
+  } catch (error) {
+    logger.error("Error recording expense:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to record expense",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Update a recorded expense
+ * @route PUT /api/expenses/:id
+ * @access Private (Landlord only)
+ */
+export const updateExpense = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can update expenses.",
+      });
+      return;
+    }
+
+    const expense = await Expense.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!expense) {
+      res.status(404).json({
+        success: false,
+        message: "Expense not found or access denied.",
+      });
+      return;
+    }
+
+    if (
+      !(await checkExpenseLinks(
+        res,
+        expense.propertyId,
+        req.body.unitId,
+        req.body.maintenanceRequestId
+      ))
+    ) {
+      return;
+    }
+
+    const updateData: any = {};
+    [
+      "unitId",
+      "maintenanceRequestId",
+      "category",
+      "description",
+      "amount",
+      "reference",
+    ].forEach((field) => {
+      if (req.body[field] !== undefined) updateData[field] = req.body[field];
+    });
+    if (req.body.expenseDate !== undefined) {
+      updateData.expenseDate = new Date(req.body.expenseDate);
+    }
+
+    await expense.update(updateData);
+
+    logger.info(`Expense updated: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Expense updated successfully",
+      data: { expense },
+    });
+  } catch (error) {
+    logger.error("Error updating expense:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update expense",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Delete a recorded expense
+ * @route DELETE /api/expenses/:id
+ * @access Private (Landlord only)
+ */
+export const deleteExpense = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can delete expenses.",
+      });
+      return;
+    }
+
+    const expense = await Expense.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!expense) {
+      res.status(404).json({
+        success: false,
+        message: "Expense not found or access denied.",
+      });
+      return;
+    }
+
+    await expense.destroy();
+
+    logger.info(`Expense deleted: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Expense deleted successfully",
+    });
+  } catch (error) {
+    logger.error("Error deleting expense:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete expense",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
@@ -0,0 +1,372 @@
+import { Response } from "express";
+import {
+  Invoice,
+  PaymentAllocation,
+  Payment,
+  User,
+  Unit,
+  Property,
+} from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import {
+  generateInvoices,
+  voidInvoice as voidInvoiceRecord,
+} from "../services/invoiceService";
+
+/**
+ * Get invoices for the authenticated user
+ * @route GET /api/invoices
+ * @access Private (Landlord/Tenant)
+ */
+export const getAllInvoices = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      status,
+      type,
+      leaseId,
+      unitId,
+      propertyId,
+    } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereClause: any = {};
+
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else if (req.user?.role === "tenant") {
+      whereClause.tenantId = req.user.id;
+    } else {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords and tenants can view invoices.",
+      });
+      return;
+    }
+
+    if (status) whereClause.status = status;
+    if (type) whereClause.type = type;
+    if (leaseId) whereClause.leaseId = leaseId;
+    if (unitId) whereClause.unitId = unitId;
+
+    const { count, rows: invoices } = await Invoice.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: "tenant",
+          attributes: ["id", "firstName", "lastName", "email", "phone"],
+        },
+        {
+          model: Unit,
+          as: "unit",
+          attributes: ["id", "name"],
+          required: !!propertyId,
+          include: [
+            {
+              model: Property,
+              as: "property",
+              attributes: ["id", "name"],
+              where: propertyId ? { id: propertyId } : undefined,
+            },
+          ],
+        },
+      ],
+      order: [["dueDate", "DESC"]],
+      limit: Number(limit),
+      offset,
+      distinct: true,
+    });
+
+    res.json({
+      success: true,
+      message: "Invoices retrieved successfully",
+      data: {
+        invoices: invoices.map((invoice) => ({
+          ...invoice.toJSON(),
+          balance: invoice.balance,
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: count,
+          totalPages: Math.ceil(count / Number(limit)),
+        },
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching invoices:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch invoices",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Get a specific invoice with the payments allocated to it
+ * @route GET /api/invoices/:id
+ * @access Private (Landlord/Tenant)
+ */
+export const getInvoiceById = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const whereClause: any = { id };
+
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else if (req.user?.role === "tenant") {
+      whereClause.tenantId = req.user.id;
+    } else {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords and tenants can view invoices.",
+      });
+      return;
+    }
+
+    const invoice = await Invoice.findOne({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: "tenant",
+          attributes: ["id", "firstName", "lastName", "email", "phone"],
+        },
+        {
+          model: Unit,
+          as: "unit",
+          attributes: ["id", "name"],
+          include: [
+            {
+              model: Property,
+              as: "property",
+              attributes: ["id", "name", "address"],
+            },
+          ],
+        },
+        {
+          model: PaymentAllocation,
+          as: "allocations",
+          attributes: ["id", "amount", "createdAt"],
+          include: [
+            {
+              model: Payment,
+              as: "payment",
+              attributes: ["id", "amount", "paymentDate", "mpesaTransactionId"],
+            },
+          ],
+        },
+      ],
+    });
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        message: "Invoice not found or access denied.",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Invoice retrieved successfully",
+      data: {
+        invoice: {
+          ...invoice.toJSON(),
+          balance: invoice.balance,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching invoice:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch invoice",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Run the billing cycle now for the landlord's active leases
+ * @route POST /api/invoices/generate
+ * @access Private (Landlord only)
+ */
+export const generateInvoicesNow = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can generate invoices.",
+      });
+      return;
+    }
+
+    const summary = await generateInvoices({ landlordId: req.user.id });
+
+    logger.info(`Invoices generated on demand by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: `${summary.invoicesCreated} invoice(s) generated`,
+      data: { summary },
+    });
+  } catch (error) {
+    logger.error("Error generating invoices:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to generate invoices",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Void an invoice. Payments allocated to it move to the next unpaid invoice.
+ * @route POST /api/invoices/:id/void
+ * @access Private (Landlord only)
+ */
+export const voidInvoice = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can void invoices.",
+      });
+      return;
+    }
+
+    const invoice = await Invoice.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        message: "Invoice not found or access denied.",
+      });
+      return;
+    }
+
+    if (invoice.status === "void") {
+      res.status(400).json({
+        success: false,
+        message: "Invoice is already void.",
+      });
+      return;
+    }
+
+    await voidInvoiceRecord(invoice, reason, req.user.id);
+
+    logger.info(`Invoice voided: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Invoice voided successfully",
+      data: { invoice },
+    });
+  } catch (error) {
+    logger.error("Error voiding invoice:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to void invoice",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Waive a late fee. The fee is voided with the reason recorded and is not
+ * charged again for the same rent invoice.
+ * @route POST /api/invoices/:id/waive
+ * @access Private (Landlord only)
+ */
+export const waiveLateFee = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can waive late fees.",
+      });
+      return;
+    }
+
+    const invoice = await Invoice.findOne({
+      where: { id, landlordId: req.user.id, type: "late_fee" },
+    });
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        message: "Late fee not found or access denied.",
+      });
+      return;
+    }
+
+    if (invoice.status === "void") {
+      res.status(400).json({
+        success: false,
+        message: "Late fee has already been waived.",
+      });
+      return;
+    }
+
+    await voidInvoiceRecord(invoice, `Waived: ${reason}`, req.user.id);
+
+    logger.info(`Late fee waived: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Late fee waived successfully",
+      data: { invoice },
+    });
+  } catch (error) {
+    logger.error("Error waiving late fee:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to waive late fee",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
@@ -0,0 +1,312 @@
+import { Response } from "express";
+import { LateFeeRule, Property, Lease, Unit } from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { applyLateFees } from "../services/lateFeeService";
+
+/**
+ * Get the landlord's late fee rules
+ * @route GET /api/late-fee-rules
+ * @access Private (Landlord only)
+ */
+export const getLateFeeRules = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { propertyId, leaseId } = req.query;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view late fee rules.",
+      });
+      return;
+    }
+
+    const whereClause: any = { landlordId: req.user.id };
+    if (propertyId) whereClause.propertyId = propertyId;
+    if (leaseId) whereClause.leaseId = leaseId;
+
+    const rules = await LateFeeRule.findAll({
+      where: whereClause,
+      include: [
+        {
+          model: Property,
+          as: "property",
+          attributes: ["id", "name"],
+        },
+        {
+          model: Lease,
+          as: "lease",
+          attributes: ["id", "tenantId", "status"],
+          include: [{ model: Unit, as: "unit", attributes: ["id", "name"] }],
+        },
+      ],
+      order: [["createdAt", "DESC"]],
+    });
+
+    res.json({
+      success: true,
+      message: "Late fee rules retrieved successfully",
+      data: { rules },
+    });
+  } catch (error) {
+    logger.error("Error fetching late fee rules:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch late fee rules",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Create a late fee rule for a property or a lease
+ * @route POST /api/late-fee-rules
+ * @access Private (Landlord only)
+ */
+export const createLateFeeRule = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      propertyId,
+      leaseId,
+      gracePeriodDays,
+      feeType,
+      feeAmount,
+      dailyAccrual,
+      maxFee,
+      isActive,
+    } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can create late fee rules.",
+      });
+      return;
+    }
+
+    // Verify ownership of the property or lease the rule attaches to
+    const target = propertyId
+      ? await Property.findOne({
+          where: { id: propertyId, landlordId: req.user.id },
+        })
+      : await Lease.findOne({
+          where: { id: leaseId, landlordId: req.user.id },
+        });
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        message: `${propertyId ? "Property" : "Lease"} not found or access denied.`,
+      });
+      return;
+    }
+
+    const existingRule = await LateFeeRule.findOne({
+      where: propertyId ? { propertyId } : { leaseId },
+    });
+
+    if (existingRule) {
+      res.status(400).json({
+        success: false,
+        message: `This ${propertyId ? "property" : "lease"} already has a late fee rule. Update it instead.`,
+      });
+      return;
+    }
+
+    const rule = await LateFeeRule.create({
+      landlordId: req.user.id,
+      propertyId: propertyId || null,
+      leaseId: leaseId || null,
+      gracePeriodDays,
+      feeType,
+      feeAmount,
+      dailyAccrual,
+      maxFee,
+      isActive,
+    });
+
+    logger.info(`Late fee rule created: ${rule.id} by landlord: ${req.user.id}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Late fee rule created successfully",
+      data: { rule },
+    });
+  } catch (error) {
+    logger.error("Error creating late fee rule:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create late fee rule",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Update a late fee rule
+ * @route PUT /api/late-fee-rules/:id
+ * @access Private (Landlord only)
+ */
+export const updateLateFeeRule = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can update late fee rules.",
+      });
+      return;
+    }
+
+    const rule = await LateFeeRule.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        message: "Late fee rule not found or access denied.",
+      });
+      return;
+    }
+
+    const updateData: any = {};
+    [
+      "gracePeriodDays",
+      "feeType",
+      "feeAmount",
+      "dailyAccrual",
+      "maxFee",
+      "isActive",
+    ].forEach((field) => {
+      if (req.body[field] !== undefined) updateData[field] = req.body[field];
+    });
+
+    await rule.update(updateData);
+
+    logger.info(`Late fee rule updated: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Late fee rule updated successfully",
+      data: { rule },
+    });
+  } catch (error) {
+    logger.error("Error updating late fee rule:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update late fee rule",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Delete a late fee rule. Fees already charged are kept.
+ * @route DELETE /api/late-fee-rules/:id
+ * @access Private (Landlord only)
+ */
+export const deleteLateFeeRule = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can delete late fee rules.",
+      });
+      return;
+    }
+
+    const rule = await LateFeeRule.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        message: "Late fee rule not found or access denied.",
+      });
+      return;
+    }
+
+    await rule.destroy();
+
+    logger.info(`Late fee rule deleted: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Late fee rule deleted successfully",
+    });
+  } catch (error) {
+    logger.error("Error deleting late fee rule:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete late fee rule",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Apply late fees to the landlord's overdue rent now
+ * @route POST /api/late-fee-rules/apply
+ * @access Private (Landlord only)
+ */
+export const applyLateFeesNow = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can apply late fees.",
+      });
+      return;
+    }
+
+    const summary = await applyLateFees({ landlordId: req.user.id });
+
+    res.json({
+      success: true,
+      message: `${summary.feesCreated} late fee(s) charged, ${summary.feesUpdated} updated`,
+      data: { summary },
+    });
+  } catch (error) {
+    logger.error("Error applying late fees:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to apply late fees",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
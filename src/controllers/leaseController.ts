@@ -7,10 +7,23 @@ import {
   Payment,
   MaintenanceRequest,
   Lease,
+  LeaseRenewal,
+  LeaseStatusChange,
+  LeaseTemplate,
 } from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
 import sequelize from "../config/database";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  createLeaseRecord,
+  terminateLeaseRecord,
+} from "../services/leaseService";
+import { runLeaseStatusTransitions } from "../services/leaseStatusService";
+import {
+  generateLeaseAgreement,
+  getAgreementPdf,
+} from "../services/leaseAgreementService";
 
 /**
  * Create a new lease (assign tenant to unit)
@@ -33,9 +46,11 @@ export const createLease = async (
       securityDeposit,
       moveInDate,
       notes,
+      endOfTermPolicy,
     } = req.body;
 
     if (req.user?.role !== "landlord") {
+      await transaction.rollback();
       res.status(403).json({
         success: false,
         message: "Access denied. Only landlords can create leases.",
@@ -43,76 +58,20 @@ export const createLease = async (
       return;
     }
 
-    // Verify unit ownership
-    const unit = await Unit.findOne({
-      where: { id: unitId },
-      include: [
-        {
-          model: Property,
-          as: "property",
-          where: { landlordId: req.user.id },
-        },
-      ],
-    });
-
-    if (!unit) {
-      await transaction.rollback();
-      res.status(404).json({
-        success: false,
-        message: "Unit not found or access denied.",
-      });
-      return;
-    }
-
-    // Verify tenant exists and is a tenant
-    const tenant = await User.findOne({
-      where: { id: tenantId, role: "tenant" },
-    });
-
-    if (!tenant) {
-      await transaction.rollback();
-      res.status(404).json({
-        success: false,
-        message: "Tenant not found or invalid role.",
-      });
-      return;
-    }
-
-    // Check for existing active lease on this unit
-    const existingLease = await Lease.findOne({
-      where: { unitId, status: "active" },
-    });
-
-    if (existingLease) {
-      await transaction.rollback();
-      res.status(400).json({
-        success: false,
-        message: "Unit already has an active lease.",
-      });
-      return;
-    }
-
-    // Create the lease
-    const lease = await Lease.create(
+    const lease = await createLeaseRecord(
+      req.user.id,
       {
         tenantId,
         unitId,
-        landlordId: req.user.id,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
+        startDate,
+        endDate,
         monthlyRent,
-        securityDeposit: securityDeposit || 0,
-        moveInDate: moveInDate ? new Date(moveInDate) : undefined,
+        securityDeposit,
+        moveInDate,
         notes,
-        status: "active",
+        endOfTermPolicy,
       },
-      { transaction }
-    );
-
-    // Update unit status to occupied
-    await Unit.update(
-      { status: "occupied" },
-      { where: { id: unitId }, transaction }
+      transaction
     );
 
     await transaction.commit();
@@ -149,6 +108,15 @@ export const createLease = async (
     });
   } catch (error) {
     await transaction.rollback();
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error creating lease:", error);
     res.status(500).json({
       success: false,
@@ -299,6 +267,12 @@ export const getUnitLeaseHistory = async (
           separate: true,
           order: [["paymentDate", "DESC"]],
         },
+        {
+          // Agreement download link is on the lease (agreementUrl)
+          model: LeaseTemplate,
+          as: "agreementTemplate",
+          attributes: ["id", "name"],
+        },
       ],
       order: [["startDate", "DESC"]],
     });
@@ -406,6 +380,19 @@ export const getCurrentTenantLease = async (
           as: "landlord",
           attributes: ["id", "firstName", "lastName", "email", "phone"],
         },
+        {
+          // Renewal offer awaiting the tenant's answer
+          model: LeaseRenewal,
+          as: "renewals",
+          where: { status: "pending" },
+          required: false,
+        },
+        {
+          // Agreement download link is on the lease (agreementUrl)
+          model: LeaseTemplate,
+          as: "agreementTemplate",
+          attributes: ["id", "name"],
+        },
       ],
     });
 
@@ -450,6 +437,7 @@ export const terminateLease = async (
     const { terminationReason, moveOutDate } = req.body;
 
     if (req.user?.role !== "landlord") {
+      await transaction.rollback();
       res.status(403).json({
         success: false,
         message: "Access denied. Only landlords can terminate leases.",
@@ -466,6 +454,7 @@ export const terminateLease = async (
           as: "unit",
         },
       ],
+      transaction,
     });
 
     if (!lease) {
@@ -477,29 +466,10 @@ export const terminateLease = async (
       return;
     }
 
-    if (lease.status !== "active") {
-      await transaction.rollback();
-      res.status(400).json({
-        success: false,
-        message: "Only active leases can be terminated.",
-      });
-      return;
-    }
-
-    // Terminate the lease
-    await lease.update(
-      {
-        status: "terminated",
-        moveOutDate: moveOutDate ? new Date(moveOutDate) : new Date(),
-        terminationReason,
-      },
-      { transaction }
-    );
-
-    // Update unit status to vacant
-    await Unit.update(
-      { status: "vacant" },
-      { where: { id: lease.unitId }, transaction }
+    await terminateLeaseRecord(
+      lease,
+      { terminationReason, moveOutDate, terminatedBy: req.user.id },
+      transaction
     );
 
     await transaction.commit();
@@ -513,6 +483,15 @@ export const terminateLease = async (
     });
   } catch (error) {
     await transaction.rollback();
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error terminating lease:", error);
     res.status(500).json({
       success: false,
@@ -546,12 +525,14 @@ export const getLeaseStats = async (
     const [
       totalLeases,
       activeLeases,
+      pendingLeases,
       expiredLeases,
       terminatedLeases,
       expiringLeases,
     ] = await Promise.all([
       Lease.count({ where: { landlordId: req.user.id } }),
       Lease.count({ where: { landlordId: req.user.id, status: "active" } }),
+      Lease.count({ where: { landlordId: req.user.id, status: "pending" } }),
       Lease.count({ where: { landlordId: req.user.id, status: "expired" } }),
       Lease.count({ where: { landlordId: req.user.id, status: "terminated" } }),
       Lease.count({
@@ -581,6 +562,7 @@ export const getLeaseStats = async (
       data: {
         totalLeases,
         activeLeases,
+        pendingLeases,
         expiredLeases,
         terminatedLeases,
         expiringLeases,
@@ -600,3 +582,321 @@ export const getLeaseStats = async (
     });
   }
 };
+
+/**
+ * Change what happens to a lease when its end date passes
+ * @route PUT /api/leases/:id/end-of-term-policy
+ * @access Private (Landlord only)
+ */
+export const updateEndOfTermPolicy = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { endOfTermPolicy } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can change lease policies.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: {
+        id,
+        landlordId: req.user.id,
+        status: { [Op.in]: ["active", "pending"] },
+      },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Active or pending lease not found or access denied.",
+      });
+      return;
+    }
+
+    // Switching back from month-to-month lets the lease expire at the end
+    // of the current month
+    await lease.update({ endOfTermPolicy });
+
+    logger.info(
+      `Lease ${lease.id} end-of-term policy set to ${endOfTermPolicy} by landlord: ${req.user.id}`
+    );
+
+    res.json({
+      success: true,
+      message: "End-of-term policy updated successfully",
+      data: { lease },
+    });
+  } catch (error) {
+    logger.error("Error updating end-of-term policy:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update end-of-term policy",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Get the status history of a lease
+ * @route GET /api/leases/:id/status-history
+ * @access Private (Landlord or the lease's tenant)
+ */
+export const getLeaseStatusHistory = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const whereClause: any = { id };
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else if (req.user?.role === "tenant") {
+      whereClause.tenantId = req.user.id;
+    } else {
+      res.status(403).json({
+        success: false,
+        message: "Access denied.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({ where: whereClause });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const history = await LeaseStatusChange.findAll({
+      where: { leaseId: lease.id },
+      include: [
+        {
+          model: User,
+          as: "changedByUser",
+          attributes: ["id", "firstName", "lastName", "role"],
+        },
+      ],
+      order: [["createdAt", "ASC"]],
+    });
+
+    res.json({
+      success: true,
+      data: { history },
+    });
+  } catch (error) {
+    logger.error("Error fetching lease status history:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch lease status history",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Run the lease status transitions for the landlord's leases now instead of
+ * waiting for the scheduler. Outside production an asOf date can be given to
+ * see what would happen on that day.
+ * @route POST /api/leases/status/run
+ * @access Private (Landlord only)
+ */
+export const runLeaseStatusUpdatesNow = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { asOf } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can run lease status updates.",
+      });
+      return;
+    }
+
+    if (asOf && process.env.NODE_ENV === "production") {
+      res.status(400).json({
+        success: false,
+        message: "asOf can only be used outside production.",
+      });
+      return;
+    }
+
+    const summary = await runLeaseStatusTransitions({
+      landlordId: req.user.id,
+      asOf: asOf ? new Date(asOf) : undefined,
+    });
+
+    logger.info(`Lease status updates run on demand by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Lease status updates completed",
+      data: { summary },
+    });
+  } catch (error) {
+    logger.error("Error running lease status updates:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to run lease status updates",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Generate the tenancy agreement PDF for a lease from a template
+ * @route POST /api/leases/:id/agreement
+ * @access Private (Landlord only)
+ */
+export const generateAgreement = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { templateId } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can generate agreements.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    await generateLeaseAgreement(lease, templateId);
+
+    logger.info(
+      `Agreement generated for lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Agreement generated successfully",
+      data: {
+        agreement: {
+          url: lease.agreementUrl,
+          templateId: lease.agreementTemplateId,
+          generatedAt: lease.agreementGeneratedAt,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error generating lease agreement:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to generate agreement",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Download the tenancy agreement PDF for a lease
+ * @route GET /api/leases/:id/agreement
+ * @access Private (Landlord or the lease's tenant)
+ */
+export const downloadAgreement = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const whereClause: any = { id };
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else if (req.user?.role === "tenant") {
+      whereClause.tenantId = req.user.id;
+    } else {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords and tenants can download agreements.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({ where: whereClause });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const pdf = await getAgreementPdf(lease);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="lease-agreement-${lease.id}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error downloading lease agreement:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to download agreement",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
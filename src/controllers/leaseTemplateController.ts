@@ -0,0 +1,326 @@
+import { Response } from "express";
+import { Op, Transaction } from "sequelize";
+import { LeaseTemplate } from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import sequelize from "../config/database";
+import {
+  AGREEMENT_PLACEHOLDERS,
+  DEFAULT_AGREEMENT_TEMPLATE,
+  findUnknownPlaceholders,
+} from "../services/leaseAgreementService";
+
+/**
+ * Reject templates that use placeholders we cannot fill in
+ */
+const checkPlaceholders = (
+  res: Response,
+  fields: Array<string | undefined>
+): boolean => {
+  const unknown = findUnknownPlaceholders(fields.filter(Boolean).join("\n"));
+
+  if (unknown.length > 0) {
+    res.status(400).json({
+      success: false,
+      message: `Unknown placeholder(s): ${unknown
+        .map((name) => `{{${name}}}`)
+        .join(", ")}`,
+    });
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Make one template the landlord's default, clearing the flag elsewhere
+ */
+const clearOtherDefaults = async (
+  landlordId: string,
+  templateId: string | null,
+  transaction: Transaction
+): Promise<void> => {
+  const whereClause: any = { landlordId, isDefault: true };
+  if (templateId) whereClause.id = { [Op.ne]: templateId };
+
+  await LeaseTemplate.update(
+    { isDefault: false },
+    { where: whereClause, transaction }
+  );
+};
+
+/**
+ * Get the landlord's lease agreement templates
+ * @route GET /api/lease-templates
+ * @access Private (Landlord only)
+ */
+export const getLeaseTemplates = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view lease templates.",
+      });
+      return;
+    }
+
+    const templates = await LeaseTemplate.findAll({
+      where: { landlordId: req.user.id },
+      order: [
+        ["isDefault", "DESC"],
+        ["name", "ASC"],
+      ],
+    });
+
+    res.json({
+      success: true,
+      message: "Lease templates retrieved successfully",
+      data: { templates },
+    });
+  } catch (error) {
+    logger.error("Error fetching lease templates:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch lease templates",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * List the placeholders a template can use, with the built-in template
+ * as a starting point
+ * @route GET /api/lease-templates/placeholders
+ * @access Private (Landlord only)
+ */
+export const getTemplatePlaceholders = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (req.user?.role !== "landlord") {
+    res.status(403).json({
+      success: false,
+      message: "Access denied. Only landlords can view lease templates.",
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      placeholders: Object.entries(AGREEMENT_PLACEHOLDERS).map(
+        ([name, placeholder]) => ({
+          placeholder: `{{${name}}}`,
+          description: placeholder.description,
+        })
+      ),
+      defaultTemplate: DEFAULT_AGREEMENT_TEMPLATE,
+    },
+  });
+};
+
+/**
+ * Create a lease agreement template
+ * @route POST /api/lease-templates
+ * @access Private (Landlord only)
+ */
+export const createLeaseTemplate = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { name, title, body, isDefault } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      await transaction.rollback();
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can create lease templates.",
+      });
+      return;
+    }
+
+    if (!checkPlaceholders(res, [title, body])) {
+      await transaction.rollback();
+      return;
+    }
+
+    if (isDefault) {
+      await clearOtherDefaults(req.user.id, null, transaction);
+    }
+
+    const template = await LeaseTemplate.create(
+      {
+        landlordId: req.user.id,
+        name,
+        title,
+        body,
+        isDefault: !!isDefault,
+      },
+      { transaction }
+    );
+
+    await transaction.commit();
+
+    logger.info(
+      `Lease template created: ${template.id} by landlord: ${req.user.id}`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Lease template created successfully",
+      data: { template },
+    });
+  } catch (error) {
+    await transaction.rollback();
+    logger.error("Error creating lease template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create lease template",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Update a lease agreement template. Agreements already generated from it
+ * are not changed.
+ * @route PUT /api/lease-templates/:id
+ * @access Private (Landlord only)
+ */
+export const updateLeaseTemplate = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id } = req.params;
+    const { name, title, body, isDefault } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      await transaction.rollback();
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can update lease templates.",
+      });
+      return;
+    }
+
+    const template = await LeaseTemplate.findOne({
+      where: { id, landlordId: req.user.id },
+      transaction,
+    });
+
+    if (!template) {
+      await transaction.rollback();
+      res.status(404).json({
+        success: false,
+        message: "Lease template not found or access denied.",
+      });
+      return;
+    }
+
+    if (!checkPlaceholders(res, [title, body])) {
+      await transaction.rollback();
+      return;
+    }
+
+    if (isDefault) {
+      await clearOtherDefaults(req.user.id, template.id, transaction);
+    }
+
+    const updateData: any = {};
+    if (name !== undefined) updateData.name = name;
+    if (title !== undefined) updateData.title = title;
+    if (body !== undefined) updateData.body = body;
+    if (isDefault !== undefined) updateData.isDefault = isDefault;
+
+    await template.update(updateData, { transaction });
+    await transaction.commit();
+
+    logger.info(`Lease template updated: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Lease template updated successfully",
+      data: { template },
+    });
+  } catch (error) {
+    await transaction.rollback();
+    logger.error("Error updating lease template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update lease template",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Delete a lease agreement template. Agreements already generated from it
+ * are kept.
+ * @route DELETE /api/lease-templates/:id
+ * @access Private (Landlord only)
+ */
+export const deleteLeaseTemplate = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can delete lease templates.",
+      });
+      return;
+    }
+
+    const template = await LeaseTemplate.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        message: "Lease template not found or access denied.",
+      });
+      return;
+    }
+
+    await template.destroy();
+
+    logger.info(`Lease template deleted: ${id} by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Lease template deleted successfully",
+    });
+  } catch (error) {
+    logger.error("Error deleting lease template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete lease template",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
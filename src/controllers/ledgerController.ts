@@ -0,0 +1,300 @@
+import { Response } from "express";
+import { Lease, LedgerAdjustment, User, Unit } from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import { buildLedger, LedgerStatement } from "../services/ledgerService";
+import { renderLedgerPdf, formatDate } from "../services/pdfService";
+import { parseDateRange } from "../utils/filters";
+import { toCsv } from "../utils/csv";
+
+/**
+ * Send a statement as JSON, CSV or PDF depending on the format query
+ */
+const sendLedger = async (
+  res: Response,
+  statement: LedgerStatement,
+  format: string,
+  options: { filename: string; title: string; subtitleLines: string[] }
+): Promise<void> => {
+  if (format === "csv") {
+    const csv = toCsv(statement.entries, [
+      { header: "Date", value: (e) => formatDate(e.date) },
+      { header: "Type", value: (e) => e.type },
+      { header: "Unit", value: (e) => e.unitName },
+      { header: "Description", value: (e) => e.description },
+      { header: "Reference", value: (e) => e.reference },
+      { header: "Debit", value: (e) => e.debit.toFixed(2) },
+      { header: "Credit", value: (e) => e.credit.toFixed(2) },
+      { header: "Balance", value: (e) => e.balance.toFixed(2) },
+    ]);
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${options.filename}.csv"`
+    );
+    res.send(
+      `Opening balance,${statement.openingBalance.toFixed(2)}\r\n${csv}\r\nClosing balance,${statement.closingBalance.toFixed(2)}\r\n`
+    );
+    return;
+  }
+
+  if (format === "pdf") {
+    const pdf = await renderLedgerPdf(
+      statement,
+      options.title,
+      options.subtitleLines
+    );
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${options.filename}.pdf"`
+    );
+    res.send(pdf);
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: "Ledger retrieved successfully",
+    data: { ledger: statement },
+  });
+};
+
+/**
+ * Get the ledger statement for a lease
+ * @route GET /api/ledger/lease/:leaseId
+ * @access Private (Landlord/Tenant)
+ */
+export const getLeaseLedger = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { leaseId } = req.params;
+    const { startDate, endDate, format = "json" } = req.query;
+
+    const whereClause: any = { id: leaseId };
+
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else if (req.user?.role === "tenant") {
+      whereClause.tenantId = req.user.id;
+    } else {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords and tenants can view ledgers.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: "tenant",
+          attributes: ["id", "firstName", "lastName"],
+        },
+        {
+          model: Unit,
+          as: "unit",
+          attributes: ["id", "name"],
+        },
+      ],
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const statement = await buildLedger(
+      [lease],
+      parseDateRange(startDate, endDate)
+    );
+
+    await sendLedger(res, statement, String(format), {
+      // Ids rather than names, which may not be valid in a header
+      filename: `ledger-${lease.id}`,
+      title: "Lease Statement",
+      subtitleLines: [
+        `Tenant: ${lease.tenant?.firstName} ${lease.tenant?.lastName}`,
+        `Unit: ${lease.unit?.name}`,
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error fetching lease ledger:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch lease ledger",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Get the combined ledger statement for a tenant across their leases
+ * @route GET /api/ledger/tenant/:tenantId
+ * @access Private (Landlord/Tenant - tenants may only view their own)
+ */
+export const getTenantLedger = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { tenantId } = req.params;
+    const { startDate, endDate, unitId, format = "json" } = req.query;
+
+    const whereClause: any = { tenantId };
+
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else if (req.user?.role === "tenant") {
+      if (tenantId !== req.user.id) {
+        res.status(403).json({
+          success: false,
+          message: "Tenants can only view their own ledger.",
+        });
+        return;
+      }
+    } else {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords and tenants can view ledgers.",
+      });
+      return;
+    }
+
+    if (unitId) {
+      whereClause.unitId = unitId;
+    }
+
+    const [tenant, leases] = await Promise.all([
+      User.findOne({
+        where: { id: tenantId, role: "tenant" },
+        attributes: ["id", "firstName", "lastName"],
+      }),
+      Lease.findAll({ where: whereClause }),
+    ]);
+
+    if (!tenant || leases.length === 0) {
+      res.status(404).json({
+        success: false,
+        message: "No leases found for this tenant.",
+      });
+      return;
+    }
+
+    const statement = await buildLedger(
+      leases,
+      parseDateRange(startDate, endDate)
+    );
+
+    await sendLedger(res, statement, String(format), {
+      filename: `ledger-tenant-${tenant.id}`,
+      title: "Tenant Statement",
+      subtitleLines: [`Tenant: ${tenant.firstName} ${tenant.lastName}`],
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error fetching tenant ledger:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch tenant ledger",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Record a credit or adjustment on a lease ledger
+ * @route POST /api/ledger/lease/:leaseId/adjustments
+ * @access Private (Landlord only)
+ */
+export const createLedgerAdjustment = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { leaseId } = req.params;
+    const { type, amount, description, effectiveDate } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can adjust ledgers.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: { id: leaseId, landlordId: req.user.id },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const adjustment = await LedgerAdjustment.create({
+      leaseId: lease.id,
+      tenantId: lease.tenantId,
+      landlordId: lease.landlordId,
+      type,
+      amount: type === "credit" ? Math.abs(amount) : amount,
+      description,
+      effectiveDate: effectiveDate ? new Date(effectiveDate) : new Date(),
+      createdBy: req.user.id,
+    });
+
+    logger.info(
+      `Ledger ${type} recorded on lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Ledger entry recorded successfully",
+      data: { adjustment },
+    });
+  } catch (error) {
+    logger.error("Error creating ledger adjustment:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to record ledger entry",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
@@ -1,119 +1,635 @@
 import { Request, Response } from "express";
 import { Op } from "sequelize";
-import { MaintenanceRequest, User, Unit, Property } from "../models";
+import { MaintenanceRequest, User, Unit, Property, Lease } from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
+import sequelize from "../config/database";
+import { ApiError } from "../middleware/errorHandler";
+import { buildDateRangeFilter } from "../utils/filters";
 
+// Fields a tenant may change on their own pending request
+const TENANT_EDITABLE_FIELDS = ["description", "category", "priority"];
+
+/**
+ * Get the IDs of units the tenant currently holds an active lease on
+ */
+const getActiveLeaseUnitIds = async (tenantId: string): Promise<string[]> => {
+  const leases = await Lease.findAll({
+    where: { tenantId, status: "active" },
+    attributes: ["unitId"],
+  });
+  return leases.map((lease) => lease.unitId);
+};
+
+/**
+ * Get the IDs of all units across the landlord's properties
+ */
+const getLandlordUnitIds = async (
+  landlordId: string,
+  propertyId?: string
+): Promise<string[]> => {
+  const propertyWhere: any = { landlordId };
+  if (propertyId) {
+    propertyWhere.id = propertyId;
+  }
+
+  const units = await Unit.findAll({
+    attributes: ["id"],
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: propertyWhere,
+        attributes: [],
+      },
+    ],
+  });
+  return units.map((unit) => unit.id);
+};
+
+/**
+ * Get the unit IDs whose maintenance requests the user may access
+ */
+const getAccessibleUnitIds = async (
+  user: NonNullable<AuthenticatedRequest["user"]>,
+  propertyId?: string
+): Promise<string[]> => {
+  if (user.role === "tenant") {
+    return getActiveLeaseUnitIds(user.id);
+  }
+  return getLandlordUnitIds(user.id, propertyId);
+};
+
+const maintenanceIncludes = [
+  {
+    model: User,
+    as: "tenant",
+    attributes: ["id", "firstName", "lastName", "email", "phone"],
+  },
+  {
+    model: Unit,
+    as: "unit",
+    attributes: ["id", "name", "type"],
+    include: [
+      {
+        model: Property,
+        as: "property",
+        attributes: ["id", "name", "address"],
+      },
+    ],
+  },
+];
+
+/**
+ * Create a new maintenance request
+ * @route POST /api/maintenance
+ * @access Private (Tenant/Landlord)
+ */
 export const createMaintenanceRequest = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    logger.info("Creating maintenance request");
+    const { unitId, title, description, category, priority, imageUrl } =
+      req.body;
+
+    if (!["landlord", "tenant"].includes(req.user?.role || "")) {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords and tenants can create maintenance requests.",
+      });
+      return;
+    }
+
+    const user = req.user!;
+    let tenantId: string | undefined;
+
+    if (user.role === "tenant") {
+      // Tenants can only raise requests for units they actively lease
+      const lease = await Lease.findOne({
+        where: { tenantId: user.id, unitId, status: "active" },
+      });
+
+      if (!lease) {
+        res.status(403).json({
+          success: false,
+          message:
+            "Access denied. You can only create requests for units you currently lease.",
+        });
+        return;
+      }
+
+      tenantId = user.id;
+    } else {
+      // Landlords can raise requests for any unit in their properties
+      const unit = await Unit.findOne({
+        where: { id: unitId },
+        include: [
+          {
+            model: Property,
+            as: "property",
+            where: { landlordId: user.id },
+          },
+        ],
+      });
+
+      if (!unit) {
+        res.status(404).json({
+          success: false,
+          message: "Unit not found or access denied.",
+        });
+        return;
+      }
+
+      if (req.body.tenantId) {
+        const lease = await Lease.findOne({
+          where: { tenantId: req.body.tenantId, unitId, status: "active" },
+        });
+
+        if (!lease) {
+          res.status(400).json({
+            success: false,
+            message: "Tenant does not hold an active lease on this unit.",
+          });
+          return;
+        }
+
+        tenantId = req.body.tenantId;
+      } else {
+        // Default to the current occupant, if any
+        const lease = await Lease.findOne({
+          where: { unitId, status: "active" },
+        });
+        tenantId = lease?.tenantId;
+      }
+    }
+
+    const maintenanceRequest = await MaintenanceRequest.create({
+      tenantId,
+      unitId,
+      title,
+      description,
+      category,
+      priority,
+      imageUrl: imageUrl || undefined,
+    });
+
+    logger.info(
+      `Maintenance request created: ${maintenanceRequest.id} by ${user.role}: ${user.id}`
+    );
+
+    const completeRequest = await MaintenanceRequest.findByPk(
+      maintenanceRequest.id,
+      { include: maintenanceIncludes }
+    );
+
     res.status(201).json({
       success: true,
-      message: "Maintenance request created successfully (placeholder)",
+      message: "Maintenance request created successfully",
+      data: { maintenanceRequest: completeRequest },
     });
   } catch (error) {
     logger.error("Error creating maintenance request:", error);
     res.status(500).json({
       success: false,
       message: "Failed to create maintenance request",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
+/**
+ * Get all maintenance requests for the authenticated user
+ * @route GET /api/maintenance
+ * @access Private (Tenant/Landlord)
+ */
 export const getAllMaintenanceRequests = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    logger.info("Getting all maintenance requests");
+    if (!["landlord", "tenant"].includes(req.user?.role || "")) {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords and tenants can view maintenance requests.",
+      });
+      return;
+    }
+
+    const {
+      status,
+      priority,
+      category,
+      unitId,
+      propertyId,
+      page = 1,
+      limit = 10,
+    } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const unitIds = await getAccessibleUnitIds(
+      req.user!,
+      propertyId as string | undefined
+    );
+
+    const whereClause: any = { unitId: { [Op.in]: unitIds } };
+
+    if (unitId) {
+      // Narrow to a single unit, still within the accessible set
+      whereClause.unitId = {
+        [Op.in]: unitIds.filter((accessibleId) => accessibleId === unitId),
+      };
+    }
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    if (priority) {
+      whereClause.priority = priority;
+    }
+
+    if (category) {
+      whereClause.category = category;
+    }
+
+    const { count, rows: maintenanceRequests } =
+      await MaintenanceRequest.findAndCountAll({
+        where: whereClause,
+        include: maintenanceIncludes,
+        order: [["createdAt", "DESC"]],
+        distinct: true,
+        limit: Number(limit),
+        offset,
+      });
+
     res.json({
       success: true,
-      message: "Maintenance requests retrieved successfully (placeholder)",
+      message: "Maintenance requests retrieved successfully",
+      data: {
+        maintenanceRequests,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: count,
+          totalPages: Math.ceil(count / Number(limit)),
+        },
+        filters: {
+          status: status || null,
+          priority: priority || null,
+          category: category || null,
+          unitId: unitId || null,
+          propertyId: propertyId || null,
+        },
+      },
     });
   } catch (error) {
     logger.error("Error fetching maintenance requests:", error);
     res.status(500).json({
       success: false,
       message: "Failed to fetch maintenance requests",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
+/**
+ * Get a specific maintenance request by ID
+ * @route GET /api/maintenance/:id
+ * @access Private (Tenant/Landlord)
+ */
 export const getMaintenanceRequestById = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    logger.info("Getting maintenance request by ID");
+    const { id } = req.params;
+
+    if (!["landlord", "tenant"].includes(req.user?.role || "")) {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords and tenants can view maintenance requests.",
+      });
+      return;
+    }
+
+    const unitIds = await getAccessibleUnitIds(req.user!);
+
+    const maintenanceRequest = await MaintenanceRequest.findOne({
+      where: { id, unitId: { [Op.in]: unitIds } },
+      include: maintenanceIncludes,
+    });
+
+    if (!maintenanceRequest) {
+      res.status(404).json({
+        success: false,
+        message: "Maintenance request not found or access denied.",
+      });
+      return;
+    }
+
     res.json({
       success: true,
-      message: "Maintenance request retrieved successfully (placeholder)",
+      message: "Maintenance request retrieved successfully",
+      data: { maintenanceRequest },
     });
   } catch (error) {
     logger.error("Error fetching maintenance request:", error);
     res.status(500).json({
       success: false,
       message: "Failed to fetch maintenance request",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
+/**
+ * Update a maintenance request
+ * @route PUT /api/maintenance/:id
+ * @access Private (Tenant/Landlord)
+ */
 export const updateMaintenanceRequest = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    logger.info("Updating maintenance request");
+    const { id } = req.params;
+
+    if (!["landlord", "tenant"].includes(req.user?.role || "")) {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords and tenants can update maintenance requests.",
+      });
+      return;
+    }
+
+    const user = req.user!;
+    const unitIds = await getAccessibleUnitIds(user);
+
+    const maintenanceRequest = await MaintenanceRequest.findOne({
+      where: { id, unitId: { [Op.in]: unitIds } },
+    });
+
+    if (!maintenanceRequest) {
+      res.status(404).json({
+        success: false,
+        message: "Maintenance request not found or access denied.",
+      });
+      return;
+    }
+
+    const updateData: any = {};
+
+    if (user.role === "tenant") {
+      if (maintenanceRequest.tenantId !== user.id) {
+        res.status(403).json({
+          success: false,
+          message: "Access denied. You can only update your own requests.",
+        });
+        return;
+      }
+
+      if (maintenanceRequest.status !== "pending") {
+        res.status(400).json({
+          success: false,
+          message: "Only pending requests can be updated.",
+        });
+        return;
+      }
+
+      // Tenants may cancel their request but not progress or resolve it
+      if (req.body.status && req.body.status !== "cancelled") {
+        res.status(403).json({
+          success: false,
+          message: "Tenants can only cancel their maintenance requests.",
+        });
+        return;
+      }
+
+      if (req.body.responseNotes !== undefined) {
+        res.status(403).json({
+          success: false,
+          message: "Only landlords can add response notes.",
+        });
+        return;
+      }
+
+      TENANT_EDITABLE_FIELDS.forEach((field) => {
+        if (req.body[field] !== undefined) {
+          updateData[field] = req.body[field];
+        }
+      });
+      if (req.body.status) {
+        updateData.status = req.body.status;
+      }
+    } else {
+      [...TENANT_EDITABLE_FIELDS, "status", "responseNotes"].forEach(
+        (field) => {
+          if (req.body[field] !== undefined) {
+            updateData[field] = req.body[field];
+          }
+        }
+      );
+    }
+
+    await maintenanceRequest.update(updateData);
+
+    logger.info(
+      `Maintenance request updated: ${id} by ${user.role}: ${user.id}`
+    );
+
+    const completeRequest = await MaintenanceRequest.findByPk(id, {
+      include: maintenanceIncludes,
+    });
+
     res.json({
       success: true,
-      message: "Maintenance request updated successfully (placeholder)",
+      message: "Maintenance request updated successfully",
+      data: { maintenanceRequest: completeRequest },
     });
   } catch (error) {
     logger.error("Error updating maintenance request:", error);
     res.status(500).json({
       success: false,
       message: "Failed to update maintenance request",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
+/**
+ * Delete a maintenance request
+ * @route DELETE /api/maintenance/:id
+ * @access Private (Tenant only for their own pending requests)
+ */
 export const deleteMaintenanceRequest = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    logger.info("Deleting maintenance request");
+    const { id } = req.params;
+
+    if (req.user?.role !== "tenant") {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only tenants can delete their maintenance requests.",
+      });
+      return;
+    }
+
+    const maintenanceRequest = await MaintenanceRequest.findOne({
+      where: { id, tenantId: req.user.id },
+    });
+
+    if (!maintenanceRequest) {
+      res.status(404).json({
+        success: false,
+        message: "Maintenance request not found or access denied.",
+      });
+      return;
+    }
+
+    if (maintenanceRequest.status !== "pending") {
+      res.status(400).json({
+        success: false,
+        message: "Only pending requests can be deleted.",
+      });
+      return;
+    }
+
+    await maintenanceRequest.destroy();
+
+    logger.info(`Maintenance request deleted: ${id} by tenant: ${req.user.id}`);
+
     res.json({
       success: true,
-      message: "Maintenance request deleted successfully (placeholder)",
+      message: "Maintenance request deleted successfully",
     });
   } catch (error) {
     logger.error("Error deleting maintenance request:", error);
     res.status(500).json({
       success: false,
       message: "Failed to delete maintenance request",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
+/**
+ * Get maintenance request statistics
+ * @route GET /api/maintenance/stats
+ * @access Private (Landlord only)
+ */
 export const getMaintenanceStats = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    logger.info("Getting maintenance stats");
+    const { propertyId, startDate, endDate } = req.query;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords can view maintenance statistics.",
+      });
+      return;
+    }
+
+    const unitIds = await getLandlordUnitIds(
+      req.user.id,
+      propertyId as string | undefined
+    );
+
+    const whereClause: any = { unitId: { [Op.in]: unitIds } };
+    const dateFilter = buildDateRangeFilter(startDate, endDate);
+    if (dateFilter) whereClause.createdAt = dateFilter;
+
+    // Count requests grouped by a single column
+    const countBy = async (column: "status" | "priority" | "category") => {
+      const rows = (await MaintenanceRequest.findAll({
+        where: whereClause,
+        attributes: [
+          column,
+          [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+        ],
+        group: [column],
+        raw: true,
+      })) as any[];
+
+      return rows.reduce((acc: Record<string, number>, row: any) => {
+        acc[row[column]] = Number(row.count);
+        return acc;
+      }, {});
+    };
+
+    const [byStatus, byPriority, byCategory] = await Promise.all([
+      countBy("status"),
+      countBy("priority"),
+      countBy("category"),
+    ]);
+
+    const total = Object.values(byStatus).reduce(
+      (sum, count) => sum + count,
+      0
+    );
+    const resolved = byStatus.resolved || 0;
+
     res.json({
       success: true,
-      message: "Maintenance statistics retrieved successfully (placeholder)",
+      message: "Maintenance statistics retrieved successfully",
+      data: {
+        stats: {
+          total,
+          open: (byStatus.pending || 0) + (byStatus.in_progress || 0),
+          resolutionRate: total > 0 ? Math.round((resolved / total) * 100) : 0,
+          byStatus,
+          byPriority,
+          byCategory,
+          dateRange: {
+            startDate: startDate || null,
+            endDate: endDate || null,
+          },
+        },
+      },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error fetching maintenance stats:", error);
     res.status(500).json({
       success: false,
       message: "Failed to fetch maintenance statistics",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
@@ -0,0 +1,561 @@
+import { Request, Response } from "express";
+import { Op } from "sequelize";
+import {
+  Payment,
+  User,
+  Unit,
+  Property,
+  Lease,
+  LandlordPaymentSettings,
+  UnmatchedPayment,
+} from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import sequelize from "../config/database";
+import MpesaService, { C2BNotification } from "../services/mpesaService";
+import { registerC2BUrlsForLandlord } from "../services/landlordMpesaService";
+import { syncPaymentAllocations } from "../services/invoiceService";
+import { issuePaymentReceipt } from "../services/receiptService";
+
+interface C2BMatch {
+  landlordId?: string;
+  unit?: Unit;
+  lease?: Lease;
+  reason?: string;
+}
+
+/**
+ * Find the landlord a C2B request is for from the secret token in its URL.
+ * Daraja does not sign C2B requests, so only the URLs registered for the
+ * landlord's paybill carry the token; anything else is rejected, as is a
+ * request for a different or unverified shortcode.
+ */
+const findC2BSettings = async (
+  req: Request,
+  notification: C2BNotification
+): Promise<LandlordPaymentSettings | null> => {
+  const { token } = req.params;
+
+  if (!token) {
+    return null;
+  }
+
+  const settings = await LandlordPaymentSettings.findOne({
+    where: { c2bCallbackToken: token },
+  });
+
+  if (
+    !settings ||
+    !settings.lastVerifiedAt ||
+    settings.mpesaShortCode !== String(notification.businessShortCode)
+  ) {
+    return null;
+  }
+
+  return settings;
+};
+
+/**
+ * Resolve a paybill payment to a unit and active lease of the landlord
+ * using the account number (BillRefNumber) the tenant entered
+ */
+const matchC2BPayment = async (
+  notification: C2BNotification,
+  settings: LandlordPaymentSettings
+): Promise<C2BMatch> => {
+  const landlordId = settings.landlordId;
+
+  if (!notification.billRefNumber) {
+    return { landlordId, reason: "No account number was entered" };
+  }
+
+  const accountNumber = notification.billRefNumber.toLowerCase();
+  const units = await Unit.findAll({
+    where: {
+      [Op.or]: [
+        sequelize.where(
+          sequelize.fn("lower", sequelize.col("Unit.name")),
+          accountNumber
+        ),
+        sequelize.where(
+          sequelize.fn("lower", sequelize.col("Unit.code")),
+          accountNumber
+        ),
+      ],
+    },
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: { landlordId },
+        attributes: ["id", "name"],
+      },
+    ],
+  });
+
+  if (units.length === 0) {
+    return {
+      landlordId,
+      reason: `No unit matches account number "${notification.billRefNumber}"`,
+    };
+  }
+
+  if (units.length > 1) {
+    return {
+      landlordId,
+      reason: `Account number "${notification.billRefNumber}" matches more than one unit`,
+    };
+  }
+
+  const unit = units[0];
+  const lease = await Lease.findOne({
+    where: { unitId: unit.id, status: "active" },
+  });
+
+  if (!lease) {
+    return {
+      landlordId,
+      unit,
+      reason: `Unit "${unit.name}" has no active lease`,
+    };
+  }
+
+  return { landlordId, unit, lease };
+};
+
+/**
+ * Register C2B validation and confirmation URLs for the landlord's paybill
+ * @route POST /api/payments/mpesa/c2b/register
+ * @access Private (Landlord only)
+ */
+export const registerC2BUrls = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can register C2B URLs.",
+      });
+      return;
+    }
+
+    const settings = await LandlordPaymentSettings.findOne({
+      where: { landlordId: req.user.id },
+    });
+
+    if (!settings) {
+      res.status(400).json({
+        success: false,
+        message: "Please configure your M-Pesa payment settings first.",
+      });
+      return;
+    }
+
+    const { validationUrl, confirmationUrl, result } =
+      await registerC2BUrlsForLandlord(settings, req.body.responseType);
+
+    logger.info(`C2B URLs registered for landlord: ${req.user.id}`, result);
+
+    res.json({
+      success: true,
+      message: "C2B URLs registered successfully",
+      data: {
+        validationUrl,
+        confirmationUrl,
+        mpesa: {
+          responseCode: result.ResponseCode,
+          responseDescription: result.ResponseDescription,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error("Error registering C2B URLs:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to register C2B URLs",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Validate a paybill payment before M-Pesa completes it
+ * @route POST /api/payments/mpesa/c2b/validation
+ * @access Public (M-Pesa service)
+ */
+export const handleC2BValidation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const notification = MpesaService.processC2BNotification(req.body);
+
+    if (!(await findC2BSettings(req, notification))) {
+      logger.warn(
+        "Rejected M-Pesa C2B validation with an unknown callback URL"
+      );
+      res.status(200).json({
+        ResultCode: "C2B00015",
+        ResultDesc: "Rejected",
+      });
+      return;
+    }
+
+    if (!(notification.amount > 0)) {
+      res.status(200).json({
+        ResultCode: "C2B00013",
+        ResultDesc: "Rejected",
+      });
+      return;
+    }
+
+    // Unknown account numbers are accepted and queued for the landlord to assign
+    res.status(200).json({
+      ResultCode: "0",
+      ResultDesc: "Accepted",
+    });
+  } catch (error) {
+    logger.error("Error handling M-Pesa C2B validation:", error);
+    res.status(200).json({
+      ResultCode: "0",
+      ResultDesc: "Accepted",
+    });
+  }
+};
+
+/**
+ * Record a completed paybill payment
+ * @route POST /api/payments/mpesa/c2b/confirmation
+ * @access Public (M-Pesa service)
+ */
+export const handleC2BConfirmation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const notification = MpesaService.processC2BNotification(req.body);
+    const settings = await findC2BSettings(req, notification);
+
+    if (!settings) {
+      logger.warn(
+        "Rejected M-Pesa C2B confirmation with an unknown callback URL"
+      );
+      res.status(404).json({
+        ResultCode: 1,
+        ResultDesc: "Unknown callback URL",
+      });
+      return;
+    }
+
+    logger.info("M-Pesa C2B confirmation received:", notification);
+
+    // Confirmations can be delivered more than once
+    const [existingPayment, existingUnmatched] = await Promise.all([
+      Payment.findOne({
+        where: { mpesaTransactionId: notification.transactionId },
+      }),
+      UnmatchedPayment.findOne({
+        where: { transactionId: notification.transactionId },
+      }),
+    ]);
+
+    if (existingPayment || existingUnmatched) {
+      logger.info(
+        `Ignoring duplicate C2B confirmation: ${notification.transactionId}`
+      );
+    } else {
+      const match = await matchC2BPayment(notification, settings);
+
+      if (match.lease && match.unit) {
+        const payment = await Payment.create({
+          tenantId: match.lease.tenantId,
+          unitId: match.unit.id,
+          leaseId: match.lease.id,
+          amount: notification.amount,
+          paymentDate: notification.transactionTime,
+          mpesaTransactionId: notification.transactionId,
+          status: "successful",
+          notes: `M-Pesa paybill payment from ${notification.msisdn} (account: ${notification.billRefNumber})`,
+        });
+        await syncPaymentAllocations(payment);
+        await issuePaymentReceipt(payment);
+
+        logger.info(
+          `C2B payment ${notification.transactionId} recorded as payment ${payment.id}`
+        );
+      } else {
+        await UnmatchedPayment.create({
+          landlordId: match.landlordId,
+          transactionId: notification.transactionId,
+          transactionTime: notification.transactionTime,
+          amount: notification.amount,
+          businessShortCode: notification.businessShortCode,
+          billRefNumber: notification.billRefNumber,
+          msisdn: notification.msisdn,
+          payerName: notification.payerName,
+          reason: match.reason || "Payment could not be matched",
+          rawPayload: req.body,
+        });
+
+        logger.warn(
+          `C2B payment ${notification.transactionId} queued as unmatched: ${match.reason}`
+        );
+      }
+    }
+
+    res.status(200).json({
+      ResultCode: 0,
+      ResultDesc: "Success",
+    });
+  } catch (error) {
+    logger.error("Error handling M-Pesa C2B confirmation:", error);
+    // Still return success to M-Pesa to prevent retries
+    res.status(200).json({
+      ResultCode: 0,
+      ResultDesc: "Success",
+    });
+  }
+};
+
+/**
+ * Get paybill payments that could not be matched to a lease
+ * @route GET /api/payments/unmatched
+ * @access Private (Landlord only)
+ */
+export const getUnmatchedPayments = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view unmatched payments.",
+      });
+      return;
+    }
+
+    const { status = "unmatched", page = 1, limit = 10 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const { count, rows: unmatchedPayments } =
+      await UnmatchedPayment.findAndCountAll({
+        where: { landlordId: req.user.id, status: status as string },
+        attributes: { exclude: ["rawPayload"] },
+        order: [["transactionTime", "DESC"]],
+        limit: Number(limit),
+        offset,
+      });
+
+    res.json({
+      success: true,
+      message: "Unmatched payments retrieved successfully",
+      data: {
+        unmatchedPayments,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: count,
+          totalPages: Math.ceil(count / Number(limit)),
+        },
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching unmatched payments:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch unmatched payments",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Assign an unmatched paybill payment to a lease
+ * @route POST /api/payments/unmatched/:id/assign
+ * @access Private (Landlord only)
+ */
+export const assignUnmatchedPayment = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { leaseId, notes } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can assign payments.",
+      });
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+    let payment: Payment;
+    let unmatchedPayment: UnmatchedPayment | null;
+    let lease: Lease | null;
+
+    try {
+      unmatchedPayment = await UnmatchedPayment.findOne({
+        where: { id, landlordId: req.user.id, status: "unmatched" },
+        transaction,
+      });
+
+      if (!unmatchedPayment) {
+        await transaction.rollback();
+        res.status(404).json({
+          success: false,
+          message: "Unmatched payment not found or already resolved.",
+        });
+        return;
+      }
+
+      lease = await Lease.findOne({
+        where: { id: leaseId, landlordId: req.user.id },
+        include: [
+          {
+            model: User,
+            as: "tenant",
+            attributes: ["id", "firstName", "lastName"],
+          },
+        ],
+        transaction,
+      });
+
+      if (!lease) {
+        await transaction.rollback();
+        res.status(404).json({
+          success: false,
+          message: "Lease not found or access denied.",
+        });
+        return;
+      }
+
+      payment = await Payment.create(
+        {
+          tenantId: lease.tenantId,
+          unitId: lease.unitId,
+          leaseId: lease.id,
+          amount: unmatchedPayment.amount,
+          paymentDate: unmatchedPayment.transactionTime,
+          mpesaTransactionId: unmatchedPayment.transactionId,
+          status: "successful",
+          notes:
+            notes ||
+            `M-Pesa paybill payment from ${unmatchedPayment.msisdn} assigned manually (account: ${unmatchedPayment.billRefNumber})`,
+        },
+        { transaction }
+      );
+
+      await unmatchedPayment.update(
+        {
+          status: "assigned",
+          paymentId: payment.id,
+          resolvedBy: req.user.id,
+          resolvedAt: new Date(),
+        },
+        { transaction }
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    // The payment is recorded; allocation and receipt run after the commit
+    await syncPaymentAllocations(payment);
+    await issuePaymentReceipt(payment);
+
+    logger.info(
+      `Unmatched payment ${id} assigned to lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.json({
+      success: true,
+      message: "Payment assigned successfully",
+      data: { payment, unmatchedPayment },
+    });
+  } catch (error) {
+    logger.error("Error assigning unmatched payment:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to assign payment",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Dismiss an unmatched paybill payment (e.g. refunded or not rent)
+ * @route POST /api/payments/unmatched/:id/dismiss
+ * @access Private (Landlord only)
+ */
+export const dismissUnmatchedPayment = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can dismiss payments.",
+      });
+      return;
+    }
+
+    const unmatchedPayment = await UnmatchedPayment.findOne({
+      where: { id, landlordId: req.user.id, status: "unmatched" },
+    });
+
+    if (!unmatchedPayment) {
+      res.status(404).json({
+        success: false,
+        message: "Unmatched payment not found or already resolved.",
+      });
+      return;
+    }
+
+    await unmatchedPayment.update({
+      status: "dismissed",
+      reason: reason ? `${unmatchedPayment.reason}. Dismissed: ${reason}` : unmatchedPayment.reason,
+      resolvedBy: req.user.id,
+      resolvedAt: new Date(),
+    });
+
+    logger.info(
+      `Unmatched payment ${id} dismissed by landlord: ${req.user.id}`
+    );
+
+    res.json({
+      success: true,
+      message: "Unmatched payment dismissed",
+      data: { unmatchedPayment },
+    });
+  } catch (error) {
+    logger.error("Error dismissing unmatched payment:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to dismiss payment",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
@@ -3,17 +3,24 @@ import { Op } from "sequelize";
 import { Payment, User, Unit, Property, Lease } from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
 import crypto from "crypto";
 import MpesaService from "../services/mpesaService";
-
-// Initialize M-Pesa service
-const mpesaService = new MpesaService({
-  consumerKey: process.env.MPESA_CONSUMER_KEY || "",
-  consumerSecret: process.env.MPESA_CONSUMER_SECRET || "",
-  shortCode: process.env.MPESA_SHORTCODE || "",
-  passKey: process.env.MPESA_PASSKEY || "",
-  environment: (process.env.MPESA_ENV || "sandbox") as "sandbox" | "production",
-});
+import { getMpesaServiceForLandlord } from "../services/landlordMpesaService";
+import {
+  checkPaymentStatus,
+  resolvePendingPayment,
+} from "../services/paymentReconciliationService";
+import { syncPaymentAllocations } from "../services/invoiceService";
+import {
+  getReceiptPdf,
+  issuePaymentReceipt,
+} from "../services/receiptService";
+import {
+  getPaymentAggregates,
+  summarizePayments,
+} from "../services/statsService";
+import { buildDateRangeFilter, parseDateRange } from "../utils/filters";
 
 /**
  * Create a new payment record
@@ -137,6 +144,21 @@ export const createPayment = async (
       return;
     }
 
+    // Rent is collected into the paybill of the landlord who owns the unit
+    const mpesaService =
+      paymentMethod === "mpesa"
+        ? await getMpesaServiceForLandlord(property.landlordId)
+        : null;
+
+    if (paymentMethod === "mpesa" && !mpesaService) {
+      res.status(400).json({
+        success: false,
+        message:
+          "M-Pesa payments are not available for this property. The landlord has not configured M-Pesa payment settings.",
+      });
+      return;
+    }
+
     // Generate unique transaction ID
     const transactionId = `TDGP_${Date.now()}_${crypto
       .randomBytes(4)
@@ -155,7 +177,7 @@ export const createPayment = async (
     });
 
     // If M-Pesa payment, initiate STK push
-    if (paymentMethod === "mpesa" && phoneNumber) {
+    if (mpesaService && phoneNumber) {
       try {
         const stkPushResponse = await mpesaService.initiateSTKPush({
           amount: Number(amount),
@@ -164,6 +186,12 @@ export const createPayment = async (
           transactionDesc: `Rent payment for ${unit.name} at ${property.name}`,
         });
 
+        // Keep the request identifiers so the callback can be matched exactly
+        await payment.update({
+          merchantRequestId: stkPushResponse.MerchantRequestID,
+          checkoutRequestId: stkPushResponse.CheckoutRequestID,
+        });
+
         logger.info(
           `M-Pesa STK Push initiated for payment: ${payment.id}, phone: ${phoneNumber}`,
           stkPushResponse
@@ -245,6 +273,39 @@ export const createPayment = async (
   }
 };
 
+// Columns the payments list can be sorted by
+const PAYMENT_SORT_FIELDS = ["paymentDate", "amount", "status"];
+
+/**
+ * Units whose payments the user may list, narrowed to one property if
+ * given. Undefined means no unit restriction (a tenant's own payments).
+ */
+const getPaymentScopeUnitIds = async (
+  user: NonNullable<AuthenticatedRequest["user"]>,
+  propertyId?: string
+): Promise<string[] | undefined> => {
+  if (user.role === "tenant" && !propertyId) {
+    return undefined;
+  }
+
+  const propertyWhere: any = {};
+  if (user.role === "landlord") propertyWhere.landlordId = user.id;
+  if (propertyId) propertyWhere.id = propertyId;
+
+  const units = await Unit.findAll({
+    attributes: ["id"],
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: propertyWhere,
+        attributes: [],
+      },
+    ],
+  });
+  return units.map((unit) => unit.id);
+};
+
 /**
  * Get all payments for a user
  * @route GET /api/payments
@@ -268,11 +329,30 @@ export const getAllPayments = async (
       startDate,
       endDate,
       unitId,
+      propertyId,
+      sortBy = "paymentDate",
+      sortOrder = "desc",
       page = 1,
       limit = 10,
     } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
 
+    if (!PAYMENT_SORT_FIELDS.includes(sortBy as string)) {
+      res.status(400).json({
+        success: false,
+        message: `sortBy must be one of: ${PAYMENT_SORT_FIELDS.join(", ")}`,
+      });
+      return;
+    }
+
+    if (!["asc", "desc"].includes(String(sortOrder).toLowerCase())) {
+      res.status(400).json({
+        success: false,
+        message: "sortOrder must be one of: asc, desc",
+      });
+      return;
+    }
+
     // Build where clause based on user role
     let whereClause: any = {};
     let includeClause: any[] = [];
@@ -330,59 +410,55 @@ export const getAllPayments = async (
       ];
     }
 
+    // Scope by unit in the payments table itself so the summary query
+    // below sees exactly the rows the list does
+    const scopedUnitIds = await getPaymentScopeUnitIds(
+      req.user!,
+      propertyId as string | undefined
+    );
+    if (scopedUnitIds) {
+      whereClause.unitId = { [Op.in]: scopedUnitIds };
+    }
+
     // Add filters
     if (status) {
       whereClause.status = status;
     }
 
     if (unitId) {
-      whereClause.unitId = unitId;
+      whereClause[Op.and] = [{ unitId }];
     }
 
-    if (startDate || endDate) {
-      whereClause.paymentDate = {};
-      if (startDate) {
-        whereClause.paymentDate[Op.gte] = new Date(startDate as string);
-      }
-      if (endDate) {
-        whereClause.paymentDate[Op.lte] = new Date(endDate as string);
-      }
+    const paymentDateFilter = buildDateRangeFilter(startDate, endDate);
+    if (paymentDateFilter) {
+      whereClause.paymentDate = paymentDateFilter;
     }
 
-    const { count, rows: payments } = await Payment.findAndCountAll({
-      where: whereClause,
-      include: includeClause,
-      order: [["paymentDate", "DESC"]],
-      distinct: true,
-      col: "Payment.id",
-      limit: Number(limit),
-      offset,
-    });
+    const direction = String(sortOrder).toUpperCase();
+    const order: any[] = [[sortBy as string, direction]];
+    if (sortBy !== "paymentDate") {
+      order.push(["paymentDate", "DESC"]);
+    }
 
-    // Calculate summary statistics
-    const totalAmount = payments.reduce(
-      (sum, payment) => sum + parseFloat(payment.amount.toString()),
-      0
-    );
-    const successfulPayments = payments.filter(
-      (p) => p.status === "successful"
-    ).length;
-    const pendingPayments = payments.filter(
-      (p) => p.status === "pending"
-    ).length;
+    const [{ count, rows: payments }, summary] = await Promise.all([
+      Payment.findAndCountAll({
+        where: whereClause,
+        include: includeClause,
+        order,
+        distinct: true,
+        col: "Payment.id",
+        limit: Number(limit),
+        offset,
+      }),
+      summarizePayments(whereClause),
+    ]);
 
     res.json({
       success: true,
       message: "Payments retrieved successfully",
       data: {
         payments,
-        summary: {
-          totalPayments: count,
-          totalAmount,
-          successfulPayments,
-          pendingPayments,
-          failedPayments: count - successfulPayments - pendingPayments,
-        },
+        summary,
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -394,10 +470,21 @@ export const getAllPayments = async (
           startDate: startDate || null,
           endDate: endDate || null,
           unitId: unitId || null,
+          propertyId: propertyId || null,
+          sortBy,
+          sortOrder: String(sortOrder).toLowerCase(),
         },
       },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error fetching payments:", error);
     res.status(500).json({
       success: false,
@@ -521,6 +608,102 @@ export const getPaymentById = async (
   }
 };
 
+/**
+ * Download the PDF receipt for a successful payment
+ * @route GET /api/payments/:id/receipt
+ * @access Private (Landlord/Tenant)
+ */
+export const downloadPaymentReceipt = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!["landlord", "tenant"].includes(req.user?.role || "")) {
+      res.status(403).json({
+        success: false,
+        message:
+          "Access denied. Only landlords and tenants can download receipts.",
+      });
+      return;
+    }
+
+    const payment = await Payment.findOne({
+      where: { id },
+      include: [
+        {
+          model: Unit,
+          as: "unit",
+          attributes: ["id", "propertyId"],
+          include: [
+            {
+              model: Property,
+              as: "property",
+              attributes: ["id", "landlordId"],
+            },
+          ],
+        },
+      ],
+    });
+
+    const unit = (payment as any)?.unit;
+    const hasAccess =
+      payment &&
+      (req.user?.role === "tenant"
+        ? payment.tenantId === req.user.id
+        : unit?.property?.landlordId === req.user?.id);
+
+    if (!payment || !hasAccess) {
+      res.status(404).json({
+        success: false,
+        message: "Payment not found or access denied.",
+      });
+      return;
+    }
+
+    if (payment.status !== "successful") {
+      res.status(400).json({
+        success: false,
+        message: "Receipts are only available for successful payments.",
+      });
+      return;
+    }
+
+    // Payments confirmed before receipts existed are receipted on demand
+    if (!payment.receiptNumber) {
+      await issuePaymentReceipt(payment);
+    }
+
+    if (!payment.receiptNumber) {
+      res.status(500).json({
+        success: false,
+        message: "Failed to generate receipt",
+      });
+      return;
+    }
+
+    const pdf = await getReceiptPdf(payment);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${payment.receiptNumber}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error) {
+    logger.error("Error downloading payment receipt:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to download receipt",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
 /**
  * Update payment status
  * @route PUT /api/payments/:id
@@ -576,6 +759,12 @@ export const updatePaymentStatus = async (
 
     await payment.update(updateData);
 
+    // A status change adds or removes money applied to the lease's invoices
+    if (status) {
+      await syncPaymentAllocations(payment);
+      await issuePaymentReceipt(payment);
+    }
+
     logger.info(`Payment status updated: ${id} by landlord: ${req.user.id}`);
 
     res.json({
@@ -587,6 +776,7 @@ export const updatePaymentStatus = async (
           status: payment.status,
           notes: payment.notes,
           receiptUrl: payment.receiptUrl,
+          receiptNumber: payment.receiptNumber,
           updatedAt: new Date(),
         },
       },
@@ -605,142 +795,208 @@ export const updatePaymentStatus = async (
 };
 
 /**
- * Get payment statistics
- * @route GET /api/payments/stats
- * @access Private (Landlord only)
+ * Re-check a pending M-Pesa payment with the STK Push Query API
+ * @route POST /api/payments/:id/query-status
+ * @access Private (Landlord/Tenant)
  */
-export const getPaymentStats = async (
+export const queryPaymentStatus = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const { startDate, endDate, propertyId } = req.query;
+    const { id } = req.params;
 
-    if (req.user?.role !== "landlord") {
+    if (!["landlord", "tenant"].includes(req.user?.role || "")) {
       res.status(403).json({
         success: false,
-        message: "Access denied. Only landlords can view payment statistics.",
+        message:
+          "Access denied. Only landlords and tenants can check payment status.",
       });
       return;
     }
 
-    // Build date filter
-    const dateFilter: any = {};
-    if (startDate) {
-      dateFilter[Op.gte] = new Date(startDate as string);
-    }
-    if (endDate) {
-      dateFilter[Op.lte] = new Date(endDate as string);
-    }
-
-    // Build where clause
-    const whereClause: any = {};
-    if (Object.keys(dateFilter).length > 0) {
-      whereClause.paymentDate = dateFilter;
+    const whereClause: any = { id };
+    if (req.user?.role === "tenant") {
+      whereClause.tenantId = req.user.id;
     }
 
-    // Build include clause with property filter
-    const includeClause: any = {
-      model: Unit,
-      as: "unit",
+    const payment = await Payment.findOne({
+      where: whereClause,
       include: [
         {
-          model: Property,
-          as: "property",
-          where: { landlordId: req.user.id },
+          model: Unit,
+          as: "unit",
+          attributes: ["id"],
+          include: [
+            {
+              model: Property,
+              as: "property",
+              attributes: ["id"],
+              where:
+                req.user?.role === "landlord"
+                  ? { landlordId: req.user.id }
+                  : undefined,
+            },
+          ],
         },
       ],
-    };
+    });
 
-    if (propertyId) {
-      includeClause.include[0].where.id = propertyId;
+    if (!payment) {
+      res.status(404).json({
+        success: false,
+        message: "Payment not found or access denied.",
+      });
+      return;
     }
 
-    const payments = await Payment.findAll({
-      where: whereClause,
-      include: [includeClause],
-      order: [["paymentDate", "DESC"]],
-    });
+    if (payment.status !== "pending") {
+      res.json({
+        success: true,
+        message: `Payment is already ${payment.status}`,
+        data: {
+          payment: {
+            id: payment.id,
+            status: payment.status,
+            resultDesc: payment.resultDesc,
+          },
+        },
+      });
+      return;
+    }
 
-    // Calculate comprehensive statistics
-    const totalPayments = payments.length;
-    const successfulPayments = payments.filter(
-      (p) => p.status === "successful"
-    );
-    const pendingPayments = payments.filter((p) => p.status === "pending");
-    const failedPayments = payments.filter((p) => p.status === "failed");
+    if (!payment.checkoutRequestId) {
+      res.status(400).json({
+        success: false,
+        message: "Only M-Pesa STK Push payments can be queried.",
+      });
+      return;
+    }
 
-    const totalRevenue = successfulPayments.reduce(
-      (sum, payment) => sum + parseFloat(payment.amount.toString()),
-      0
+    if (payment.needsReview) {
+      res.json({
+        success: true,
+        message:
+          "Payment is held for the landlord to review: M-Pesa reported a different amount.",
+        data: {
+          payment: {
+            id: payment.id,
+            status: payment.status,
+            resultDesc: payment.resultDesc,
+          },
+        },
+      });
+      return;
+    }
+
+    let result;
+    try {
+      result = await checkPaymentStatus(payment);
+    } catch (mpesaError) {
+      // Safaricom rejects queries while the transaction is still processing
+      res.json({
+        success: true,
+        message: "Payment is still being processed. Please try again shortly.",
+        data: {
+          payment: { id: payment.id, status: payment.status },
+        },
+      });
+      return;
+    }
+
+    logger.info(
+      `Payment status queried: ${payment.id} by ${req.user?.role}: ${req.user?.id}`
     );
-    const averagePayment =
-      successfulPayments.length > 0
-        ? totalRevenue / successfulPayments.length
-        : 0;
-
-    // Group by month for revenue trends
-    const monthlyRevenue: any = {};
-    successfulPayments.forEach((payment) => {
-      const month = payment.paymentDate.toISOString().substring(0, 7); // YYYY-MM
-      monthlyRevenue[month] =
-        (monthlyRevenue[month] || 0) + parseFloat(payment.amount.toString());
+
+    res.json({
+      success: true,
+      message: result.resolved
+        ? `Payment is ${payment.status}`
+        : "Payment is still pending",
+      data: {
+        payment: {
+          id: payment.id,
+          status: payment.status,
+          resultDesc: payment.resultDesc,
+        },
+        mpesa: {
+          resultCode: result.resultCode,
+          resultDesc: result.resultDesc,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error("Error querying payment status:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to query payment status",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
+  }
+};
 
-    // Group by property for property-wise statistics
-    const propertyStats: any = {};
-    payments.forEach((payment) => {
-      const paymentData = payment.toJSON() as any;
-      const propertyId = paymentData.unit?.property?.id;
-      const propertyName = paymentData.unit?.property?.name;
-
-      if (propertyId) {
-        if (!propertyStats[propertyId]) {
-          propertyStats[propertyId] = {
-            propertyName,
-            totalPayments: 0,
-            successfulPayments: 0,
-            totalRevenue: 0,
-          };
-        }
+/**
+ * Get payment statistics
+ * @route GET /api/payments/stats
+ * @access Private (Landlord only)
+ */
+export const getPaymentStats = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { startDate, endDate, propertyId } = req.query;
 
-        propertyStats[propertyId].totalPayments++;
-        if (payment.status === "successful") {
-          propertyStats[propertyId].successfulPayments++;
-          propertyStats[propertyId].totalRevenue += parseFloat(
-            payment.amount.toString()
-          );
-        }
-      }
-    });
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view payment statistics.",
+      });
+      return;
+    }
+
+    const {
+      byStatus,
+      totalRevenue,
+      depositsCollected,
+      monthlyRevenue,
+      byProperty,
+    } = await getPaymentAggregates(
+      req.user.id,
+      parseDateRange(startDate, endDate),
+      propertyId as string | undefined
+    );
+
+    const totalPayments = Object.values(byStatus).reduce(
+      (sum, totals) => sum + totals.count,
+      0
+    );
+    const successfulPayments = byStatus.successful?.count || 0;
 
     const stats = {
       overview: {
         totalPayments,
-        successfulPayments: successfulPayments.length,
-        pendingPayments: pendingPayments.length,
-        failedPayments: failedPayments.length,
+        successfulPayments,
+        pendingPayments: byStatus.pending?.count || 0,
+        failedPayments: byStatus.failed?.count || 0,
         successRate:
           totalPayments > 0
-            ? Math.round((successfulPayments.length / totalPayments) * 100)
+            ? Math.round((successfulPayments / totalPayments) * 100)
             : 0,
       },
       revenue: {
         totalRevenue,
-        averagePayment,
-        monthlyTrends: Object.entries(monthlyRevenue).map(
-          ([month, revenue]) => ({
-            month,
-            revenue,
-          })
-        ),
+        depositsCollected,
+        averagePayment:
+          successfulPayments > 0
+            ? (byStatus.successful?.amount || 0) / successfulPayments
+            : 0,
+        monthlyTrends: monthlyRevenue,
       },
-      properties: Object.entries(propertyStats).map(
-        ([id, stats]: [string, any]) => ({
-          propertyId: id,
-          ...stats,
-        })
-      ),
+      properties: byProperty,
       dateRange: {
         startDate: startDate || null,
         endDate: endDate || null,
@@ -753,6 +1009,14 @@ export const getPaymentStats = async (
       data: { stats },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error fetching payment stats:", error);
     res.status(500).json({
       success: false,
@@ -776,7 +1040,7 @@ export const handleMpesaCallback = async (
 ): Promise<void> => {
   try {
     // Validate callback signature
-    if (!mpesaService.validateCallback(req.headers, JSON.stringify(req.body))) {
+    if (!MpesaService.validateCallback(req.headers, JSON.stringify(req.body))) {
       logger.warn("Invalid M-Pesa callback signature");
       res.status(400).json({
         ResultCode: 1,
@@ -785,38 +1049,81 @@ export const handleMpesaCallback = async (
       return;
     }
 
-    const callbackResult = mpesaService.processCallback(req.body);
+    const callbackResult = MpesaService.processCallback(req.body);
     logger.info("M-Pesa callback processed:", callbackResult);
 
-    if (callbackResult.success && callbackResult.transactionId) {
-      // Find payment by transaction ID pattern
-      const payments = await Payment.findAll({
-        where: {
-          status: "pending",
-          mpesaTransactionId: {
-            [Op.like]: "TDGP_%",
-          },
-        },
-        order: [["paymentDate", "DESC"]],
-        limit: 1,
+    if (!callbackResult.checkoutRequestId) {
+      logger.warn("M-Pesa callback received without a CheckoutRequestID");
+    } else {
+      const payment = await Payment.findOne({
+        where: { checkoutRequestId: callbackResult.checkoutRequestId },
       });
 
-      if (payments.length > 0) {
-        const payment = payments[0];
-        await payment.update({
-          status: "successful",
-          mpesaTransactionId: callbackResult.transactionId,
-          notes: `M-Pesa payment completed. Receipt: ${callbackResult.transactionId}`,
-        });
+      if (!payment) {
+        logger.warn(
+          `No payment found for M-Pesa CheckoutRequestID: ${callbackResult.checkoutRequestId}`
+        );
+      } else if (payment.status !== "pending") {
+        // Safaricom may deliver the same callback more than once
+        logger.info(
+          `Ignoring M-Pesa callback for already ${payment.status} payment ${payment.id}`
+        );
+      } else if (
+        callbackResult.merchantRequestId &&
+        payment.merchantRequestId &&
+        callbackResult.merchantRequestId !== payment.merchantRequestId
+      ) {
+        logger.warn(
+          `MerchantRequestID mismatch for payment ${payment.id}: expected ${payment.merchantRequestId}, received ${callbackResult.merchantRequestId}`
+        );
+      } else if (callbackResult.success) {
+        const expectedAmount = Math.round(Number(payment.amount));
+
+        if (callbackResult.amount !== expectedAmount) {
+          // Hold the payment for the landlord to review rather than
+          // confirming an amount the tenant was never asked to pay; the
+          // reconciler skips held payments
+          await Payment.update(
+            {
+              needsReview: true,
+              resultDesc: `Amount mismatch: expected ${expectedAmount}, received ${callbackResult.amount}. Receipt: ${callbackResult.transactionId}`,
+            },
+            { where: { id: payment.id, status: "pending" } }
+          );
 
-        logger.info(`Payment ${payment.id} marked as successful`);
-      } else {
+          logger.warn(
+            `M-Pesa amount mismatch for payment ${payment.id}: expected ${expectedAmount}, received ${callbackResult.amount}`
+          );
+        } else if (
+          await resolvePendingPayment(payment, {
+            status: "successful",
+            mpesaTransactionId: callbackResult.transactionId!,
+            paymentDate: new Date(),
+            resultDesc: callbackResult.resultDesc,
+          })
+        ) {
+          logger.info(
+            `Payment ${payment.id} marked as successful. Receipt: ${callbackResult.transactionId}`
+          );
+        } else {
+          logger.info(
+            `Ignoring M-Pesa callback for payment ${payment.id} resolved elsewhere`
+          );
+        }
+      } else if (
+        await resolvePendingPayment(payment, {
+          status: "failed",
+          resultDesc: callbackResult.resultDesc,
+        })
+      ) {
         logger.warn(
-          `No pending payment found for M-Pesa transaction: ${callbackResult.transactionId}`
+          `Payment ${payment.id} failed (ResultCode ${callbackResult.resultCode}): ${callbackResult.resultDesc}`
+        );
+      } else {
+        logger.info(
+          `Ignoring M-Pesa callback for payment ${payment.id} resolved elsewhere`
         );
       }
-    } else {
-      logger.warn(`M-Pesa payment failed: ${callbackResult.resultDesc}`);
     }
 
     // Always respond with success to M-Pesa
@@ -0,0 +1,321 @@
+import { Response } from "express";
+import { Op, UniqueConstraintError } from "sequelize";
+import { LandlordPaymentSettings } from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import MpesaService from "../services/mpesaService";
+import {
+  invalidateMpesaServiceForLandlord,
+  registerC2BUrlsForLandlord,
+} from "../services/landlordMpesaService";
+
+/**
+ * Get the landlord's M-Pesa payment settings (secrets masked)
+ * @route GET /api/payment-settings
+ * @access Private (Landlord only)
+ */
+export const getPaymentSettings = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can view payment settings.",
+      });
+      return;
+    }
+
+    const settings = await LandlordPaymentSettings.findOne({
+      where: { landlordId: req.user.id },
+    });
+
+    res.json({
+      success: true,
+      message: settings
+        ? "Payment settings retrieved successfully"
+        : "Payment settings have not been configured",
+      data: {
+        configured: !!settings,
+        settings: settings ? settings.toSafeJSON() : null,
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching payment settings:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch payment settings",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Set (create or replace) the landlord's M-Pesa payment settings
+ * @route PUT /api/payment-settings
+ * @access Private (Landlord only)
+ */
+export const setPaymentSettings = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      businessName,
+      mpesaShortCode,
+      mpesaConsumerKey,
+      mpesaConsumerSecret,
+      mpesaPasskey,
+      mpesaEnv,
+    } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can update payment settings.",
+      });
+      return;
+    }
+
+    // A paybill can only belong to one landlord; C2B payments are routed
+    // by it
+    const shortCodeOwner = await LandlordPaymentSettings.findOne({
+      where: {
+        mpesaShortCode,
+        landlordId: { [Op.ne]: req.user.id },
+      },
+    });
+
+    if (shortCodeOwner) {
+      res.status(409).json({
+        success: false,
+        message: "This shortcode is already registered to another account.",
+      });
+      return;
+    }
+
+    let settings = await LandlordPaymentSettings.findOne({
+      where: { landlordId: req.user.id },
+    });
+
+    if (settings) {
+      settings.businessName = businessName;
+      settings.mpesaShortCode = mpesaShortCode;
+      settings.mpesaEnv = mpesaEnv;
+      settings.setSecrets({
+        consumerKey: mpesaConsumerKey,
+        consumerSecret: mpesaConsumerSecret,
+        passKey: mpesaPasskey,
+      });
+      settings.lastVerifiedAt = null;
+    } else {
+      settings = LandlordPaymentSettings.buildWithCredentials(req.user.id, {
+        businessName,
+        shortCode: mpesaShortCode,
+        consumerKey: mpesaConsumerKey,
+        consumerSecret: mpesaConsumerSecret,
+        passKey: mpesaPasskey,
+        environment: mpesaEnv,
+      });
+    }
+
+    await settings.save();
+    invalidateMpesaServiceForLandlord(req.user.id);
+
+    logger.info(`Payment settings updated for landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Payment settings saved successfully",
+      data: { settings: settings.toSafeJSON() },
+    });
+  } catch (error) {
+    if (error instanceof UniqueConstraintError) {
+      res.status(409).json({
+        success: false,
+        message: "This shortcode is already registered to another account.",
+      });
+      return;
+    }
+
+    logger.error("Error saving payment settings:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to save payment settings",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Test the stored M-Pesa credentials against Safaricom. The C2B URLs are
+ * registered as part of the test, which Daraja only allows for a shortcode
+ * the credentials belong to, so a passing test proves the landlord owns it.
+ * @route POST /api/payment-settings/test
+ * @access Private (Landlord only)
+ */
+export const testPaymentSettings = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can test payment settings.",
+      });
+      return;
+    }
+
+    const settings = await LandlordPaymentSettings.findOne({
+      where: { landlordId: req.user.id },
+    });
+
+    if (!settings) {
+      res.status(404).json({
+        success: false,
+        message: "Payment settings have not been configured.",
+      });
+      return;
+    }
+
+    try {
+      await new MpesaService(settings.getCredentials()).verifyCredentials();
+    } catch (mpesaError) {
+      logger.warn(
+        `M-Pesa credential test failed for landlord: ${req.user.id}`,
+        mpesaError
+      );
+      res.status(400).json({
+        success: false,
+        message:
+          "M-Pesa rejected the stored credentials. Please check your consumer key and secret.",
+      });
+      return;
+    }
+
+    try {
+      await registerC2BUrlsForLandlord(settings);
+    } catch (mpesaError) {
+      logger.warn(
+        `M-Pesa shortcode check failed for landlord: ${req.user.id}`,
+        mpesaError
+      );
+      res.status(400).json({
+        success: false,
+        message:
+          "M-Pesa did not accept the shortcode for these credentials. Please check the shortcode belongs to your Daraja app.",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "M-Pesa credentials verified successfully",
+      data: { settings: settings.toSafeJSON() },
+    });
+  } catch (error) {
+    logger.error("Error testing payment settings:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to test payment settings",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Rotate M-Pesa credentials. New credentials are verified before they
+ * replace the stored ones, so a bad rotation never breaks collections.
+ * @route POST /api/payment-settings/rotate
+ * @access Private (Landlord only)
+ */
+export const rotatePaymentCredentials = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { mpesaConsumerKey, mpesaConsumerSecret, mpesaPasskey } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can rotate credentials.",
+      });
+      return;
+    }
+
+    const settings = await LandlordPaymentSettings.findOne({
+      where: { landlordId: req.user.id },
+    });
+
+    if (!settings) {
+      res.status(404).json({
+        success: false,
+        message: "Payment settings have not been configured.",
+      });
+      return;
+    }
+
+    const current = settings.getCredentials();
+    const rotated = {
+      ...current,
+      consumerKey: mpesaConsumerKey || current.consumerKey,
+      consumerSecret: mpesaConsumerSecret || current.consumerSecret,
+      passKey: mpesaPasskey || current.passKey,
+    };
+
+    try {
+      await new MpesaService(rotated).verifyCredentials();
+    } catch (mpesaError) {
+      logger.warn(
+        `M-Pesa credential rotation rejected for landlord: ${req.user.id}`,
+        mpesaError
+      );
+      res.status(400).json({
+        success: false,
+        message:
+          "M-Pesa rejected the new credentials. Existing credentials were kept.",
+      });
+      return;
+    }
+
+    settings.setSecrets({
+      consumerKey: mpesaConsumerKey,
+      consumerSecret: mpesaConsumerSecret,
+      passKey: mpesaPasskey,
+    });
+    settings.lastVerifiedAt = new Date();
+    settings.credentialsRotatedAt = new Date();
+    await settings.save();
+    invalidateMpesaServiceForLandlord(req.user.id);
+
+    logger.info(`M-Pesa credentials rotated for landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "M-Pesa credentials rotated successfully",
+      data: { settings: settings.toSafeJSON() },
+    });
+  } catch (error) {
+    logger.error("Error rotating payment credentials:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to rotate payment credentials",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
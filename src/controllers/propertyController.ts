@@ -3,6 +3,9 @@ import { Op } from "sequelize";
 import { Property, Unit, User, Payment, MaintenanceRequest } from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import { parseDateRange } from "../utils/filters";
+import { getPropertyAggregates } from "../services/statsService";
 
 /**
  * Create a new property
@@ -178,7 +181,7 @@ export const getPropertyById = async (
               model: Payment,
               as: "payments",
               limit: 5,
-              order: [["createdAt", "DESC"]],
+              order: [["paymentDate", "DESC"]],
             },
             {
               model: MaintenanceRequest,
@@ -199,46 +202,22 @@ export const getPropertyById = async (
       return;
     }
 
-    // Calculate property statistics
     const propertyData = property.toJSON() as any;
     const units = propertyData.units || [];
-    const totalUnits = units.length;
-    const occupiedUnits = units.filter(
-      (unit: any) => unit.status === "occupied"
-    ).length;
-    const totalRevenue = units.reduce((sum: number, unit: any) => {
-      const unitPayments = unit.payments || [];
-      return (
-        sum +
-        unitPayments.reduce(
-          (unitSum: number, payment: any) =>
-            unitSum + (parseFloat(payment.amount) || 0),
-          0
-        )
-      );
-    }, 0);
     const totalMaintenanceRequests = units.reduce((sum: number, unit: any) => {
       return sum + (unit.maintenanceRequests?.length || 0);
     }, 0);
-    const averageRent =
-      totalUnits > 0
-        ? units.reduce(
-            (sum: number, unit: any) =>
-              sum + (parseFloat(unit.rentAmount) || 0),
-            0
-          ) / totalUnits
-        : 0;
+    const aggregates = await getPropertyAggregates(property.id);
 
     const propertyWithStats = {
       ...propertyData,
       stats: {
-        totalUnits,
-        occupiedUnits,
-        vacantUnits: totalUnits - occupiedUnits,
-        occupancyRate:
-          totalUnits > 0 ? Math.round((occupiedUnits / totalUnits) * 100) : 0,
-        totalRevenue,
-        averageRent,
+        totalUnits: aggregates.totalUnits,
+        occupiedUnits: aggregates.occupiedUnits,
+        vacantUnits: aggregates.vacantUnits,
+        occupancyRate: aggregates.occupancyRate,
+        totalRevenue: aggregates.totalRevenue,
+        averageRent: aggregates.averageRent,
         pendingMaintenanceRequests: totalMaintenanceRequests,
       },
     };
@@ -445,84 +424,13 @@ export const getPropertyStats = async (
       return;
     }
 
-    // Build date filters
-    const dateFilter: any = {};
-    if (startDate) {
-      dateFilter[Op.gte] = new Date(startDate as string);
-    }
-    if (endDate) {
-      dateFilter[Op.lte] = new Date(endDate as string);
-    }
-
-    // Get property with detailed stats
-    const propertyWithData = await Property.findByPk(id, {
-      include: [
-        {
-          model: Unit,
-          as: "units",
-          include: [
-            {
-              model: Payment,
-              as: "payments",
-              where:
-                Object.keys(dateFilter).length > 0
-                  ? { createdAt: dateFilter }
-                  : undefined,
-              required: false,
-            },
-            {
-              model: MaintenanceRequest,
-              as: "maintenanceRequests",
-              where:
-                Object.keys(dateFilter).length > 0
-                  ? { createdAt: dateFilter }
-                  : undefined,
-              required: false,
-            },
-          ],
-        },
-      ],
-    });
-
-    const propertyData = propertyWithData!.toJSON() as any;
-    const units = propertyData.units || [];
-
-    // Calculate comprehensive statistics
-    const occupiedUnits = units.filter(
-      (unit: any) => unit.status === "occupied"
-    ).length;
-    const totalRevenue = units.reduce((sum: number, unit: any) => {
-      const unitPayments = unit.payments || [];
-      return (
-        sum +
-        unitPayments.reduce(
-          (unitSum: number, payment: any) =>
-            unitSum + (parseFloat(payment.amount) || 0),
-          0
-        )
-      );
-    }, 0);
-    const totalMaintenanceRequests = units.reduce((sum: number, unit: any) => {
-      return sum + (unit.maintenanceRequests?.length || 0);
-    }, 0);
-    const averageRent =
-      units.length > 0
-        ? units.reduce(
-            (sum: number, unit: any) =>
-              sum + (parseFloat(unit.rentAmount) || 0),
-            0
-          ) / units.length
-        : 0;
+    const aggregates = await getPropertyAggregates(
+      property.id,
+      parseDateRange(startDate, endDate)
+    );
 
     const stats = {
-      totalUnits: units.length,
-      occupiedUnits,
-      vacantUnits: units.length - occupiedUnits,
-      occupancyRate:
-        units.length > 0 ? Math.round((occupiedUnits / units.length) * 100) : 0,
-      totalRevenue,
-      averageRent,
-      totalMaintenanceRequests,
+      ...aggregates,
       dateRange: {
         startDate: startDate || null,
         endDate: endDate || null,
@@ -541,6 +449,14 @@ export const getPropertyStats = async (
       },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error fetching property stats:", error);
     res.status(500).json({
       success: false,
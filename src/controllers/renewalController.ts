@@ -0,0 +1,339 @@
+import { Response } from "express";
+import { Lease, LeaseRenewal } from "../models";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  acceptRenewalOffer,
+  createRenewalOffer,
+  declineRenewalOffer,
+  withdrawRenewalOffer,
+} from "../services/leaseRenewalService";
+
+/**
+ * Offer the tenant a renewal of their lease
+ * @route POST /api/leases/:id/renewals
+ * @access Private (Landlord only)
+ */
+export const proposeLeaseRenewal = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      startDate,
+      endDate,
+      monthlyRent,
+      escalationPercent,
+      respondBy,
+      message,
+    } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can offer lease renewals.",
+      });
+      return;
+    }
+
+    const lease = await Lease.findOne({
+      where: { id, landlordId: req.user.id },
+    });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const renewal = await createRenewalOffer(lease, {
+      startDate,
+      endDate,
+      monthlyRent,
+      escalationPercent,
+      respondBy,
+      message,
+    });
+
+    logger.info(
+      `Renewal offered on lease ${lease.id} by landlord: ${req.user.id}`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Renewal offer sent to the tenant",
+      data: { renewal },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error creating renewal offer:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create renewal offer",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * List the renewal offers made on a lease
+ * @route GET /api/leases/:id/renewals
+ * @access Private (Landlord or the lease's tenant)
+ */
+export const getLeaseRenewals = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const whereClause: any = { id };
+    if (req.user?.role === "landlord") {
+      whereClause.landlordId = req.user.id;
+    } else {
+      whereClause.tenantId = req.user?.id;
+    }
+
+    const lease = await Lease.findOne({ where: whereClause });
+
+    if (!lease) {
+      res.status(404).json({
+        success: false,
+        message: "Lease not found or access denied.",
+      });
+      return;
+    }
+
+    const renewals = await LeaseRenewal.findAll({
+      where: { leaseId: lease.id },
+      include: [
+        {
+          model: Lease,
+          as: "successorLease",
+          attributes: ["id", "startDate", "endDate", "monthlyRent", "status"],
+        },
+      ],
+      order: [["createdAt", "DESC"]],
+    });
+
+    res.json({
+      success: true,
+      message: "Renewal offers retrieved successfully",
+      data: { renewals },
+    });
+  } catch (error) {
+    logger.error("Error fetching renewal offers:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch renewal offers",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Accept a renewal offer, creating the successor lease
+ * @route POST /api/leases/renewals/:renewalId/accept
+ * @access Private (Tenant only)
+ */
+export const acceptLeaseRenewal = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { renewalId } = req.params;
+
+    if (req.user?.role !== "tenant") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only tenants can accept renewal offers.",
+      });
+      return;
+    }
+
+    const renewal = await LeaseRenewal.findOne({
+      where: { id: renewalId, tenantId: req.user.id },
+    });
+
+    if (!renewal) {
+      res.status(404).json({
+        success: false,
+        message: "Renewal offer not found or access denied.",
+      });
+      return;
+    }
+
+    const lease = await acceptRenewalOffer(renewal);
+
+    logger.info(`Renewal ${renewal.id} accepted by tenant: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message:
+        lease.status === "active"
+          ? "Renewal accepted. Your new lease is now active."
+          : "Renewal accepted. Your new lease starts when the current one ends.",
+      data: { renewal, lease },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error accepting renewal offer:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to accept renewal offer",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Decline a renewal offer
+ * @route POST /api/leases/renewals/:renewalId/decline
+ * @access Private (Tenant only)
+ */
+export const declineLeaseRenewal = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { renewalId } = req.params;
+    const { reason } = req.body;
+
+    if (req.user?.role !== "tenant") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only tenants can decline renewal offers.",
+      });
+      return;
+    }
+
+    const renewal = await LeaseRenewal.findOne({
+      where: { id: renewalId, tenantId: req.user.id },
+    });
+
+    if (!renewal) {
+      res.status(404).json({
+        success: false,
+        message: "Renewal offer not found or access denied.",
+      });
+      return;
+    }
+
+    await declineRenewalOffer(renewal, reason);
+
+    logger.info(`Renewal ${renewal.id} declined by tenant: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Renewal offer declined",
+      data: { renewal },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error declining renewal offer:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to decline renewal offer",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Withdraw a renewal offer the tenant has not answered
+ * @route POST /api/leases/renewals/:renewalId/withdraw
+ * @access Private (Landlord only)
+ */
+export const withdrawLeaseRenewal = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { renewalId } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can withdraw renewal offers.",
+      });
+      return;
+    }
+
+    const renewal = await LeaseRenewal.findOne({
+      where: { id: renewalId, landlordId: req.user.id },
+    });
+
+    if (!renewal) {
+      res.status(404).json({
+        success: false,
+        message: "Renewal offer not found or access denied.",
+      });
+      return;
+    }
+
+    await withdrawRenewalOffer(renewal);
+
+    logger.info(`Renewal ${renewal.id} withdrawn by landlord: ${req.user.id}`);
+
+    res.json({
+      success: true,
+      message: "Renewal offer withdrawn",
+      data: { renewal },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error("Error withdrawing renewal offer:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to withdraw renewal offer",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
@@ -0,0 +1,360 @@
+import { Response } from "express";
+import { EXPENSE_CATEGORIES } from "../models/Expense";
+import { AuthenticatedRequest } from "../types";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  ArrearsAgingRow,
+  buildArrearsAging,
+  buildIncomeStatement,
+  buildRentRoll,
+  RentRollRow,
+} from "../services/reportService";
+import {
+  formatDate,
+  formatMoney,
+  renderReportPdf,
+} from "../services/pdfService";
+import { parseLocalDateRange } from "../utils/filters";
+import { startOfLocalMonth } from "../utils/timezone";
+import { toCsv } from "../utils/csv";
+import { toXlsx } from "../utils/xlsx";
+
+const REPORT_FORMATS = ["json", "csv", "xlsx", "pdf"];
+
+interface ReportColumn<T> {
+  header: string;
+  width: number; // PDF column width
+  money?: boolean;
+  value: (row: T) => string | number | Date | null | undefined;
+}
+
+interface IncomeStatementLine {
+  propertyName: string;
+  item: string;
+  amount: number;
+}
+
+/**
+ * Send a report as JSON, CSV, XLSX or PDF depending on the format query.
+ * Spreadsheets keep amounts numeric; CSV and PDF show two decimals.
+ */
+const sendReport = async <T>(
+  res: Response,
+  format: string,
+  report: {
+    data: object;
+    rows: T[];
+    columns: ReportColumn<T>[];
+    filename: string;
+    title: string;
+    subtitleLines: string[];
+    summaryLines: string[];
+  }
+): Promise<void> => {
+  const { rows, columns, filename } = report;
+
+  if (format === "csv") {
+    const csv = toCsv(
+      rows,
+      columns.map((column) => ({
+        header: column.header,
+        value: (row: T) => {
+          const value = column.value(row);
+          return column.money && typeof value === "number"
+            ? value.toFixed(2)
+            : value;
+        },
+      }))
+    );
+
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${filename}.csv"`
+    );
+    res.send(`${csv}\r\n`);
+    return;
+  }
+
+  if (format === "xlsx") {
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${filename}.xlsx"`
+    );
+    res.send(toXlsx(rows, columns, report.title));
+    return;
+  }
+
+  if (format === "pdf") {
+    const pdf = await renderReportPdf(
+      report.title,
+      report.subtitleLines,
+      columns.map((column) => ({
+        header: column.header,
+        width: column.width,
+        align: column.money ? ("right" as const) : ("left" as const),
+        value: (row: T) => {
+          const value = column.value(row);
+          if (value === null || value === undefined) return "";
+          if (column.money) return Number(value).toFixed(2);
+          return value instanceof Date ? formatDate(value) : String(value);
+        },
+      })),
+      rows,
+      report.summaryLines
+    );
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${filename}.pdf"`
+    );
+    res.send(pdf);
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: "Report generated successfully",
+    data: report.data,
+  });
+};
+
+/**
+ * Check the user is a landlord and the format is supported
+ */
+const checkReportRequest = (
+  req: AuthenticatedRequest,
+  res: Response
+): boolean => {
+  if (req.user?.role !== "landlord") {
+    res.status(403).json({
+      success: false,
+      message: "Access denied. Only landlords can view reports.",
+    });
+    return false;
+  }
+
+  const { format = "json" } = req.query;
+  if (!REPORT_FORMATS.includes(String(format))) {
+    res.status(400).json({
+      success: false,
+      message: `format must be one of: ${REPORT_FORMATS.join(", ")}`,
+    });
+    return false;
+  }
+
+  return true;
+};
+
+const handleReportError = (
+  res: Response,
+  error: unknown,
+  report: string
+): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+    return;
+  }
+
+  logger.error(`Error generating ${report}:`, error);
+  res.status(500).json({
+    success: false,
+    message: `Failed to generate ${report}`,
+    error:
+      process.env.NODE_ENV === "development"
+        ? (error as Error).message
+        : undefined,
+  });
+};
+
+/**
+ * Get the rent roll: each unit with its tenant, lease dates, rent and
+ * unpaid balance
+ * @route GET /api/reports/rent-roll
+ * @access Private (Landlord only)
+ */
+export const getRentRoll = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!checkReportRequest(req, res)) return;
+
+    const { propertyId, format = "json" } = req.query;
+    const rentRoll = await buildRentRoll(
+      req.user!.id,
+      propertyId as string | undefined
+    );
+
+    const columns: ReportColumn<RentRollRow>[] = [
+      { header: "Property", width: 75, value: (r) => r.propertyName },
+      { header: "Unit", width: 50, value: (r) => r.unitName },
+      { header: "Status", width: 50, value: (r) => r.unitStatus },
+      { header: "Tenant", width: 90, value: (r) => r.tenantName },
+      { header: "Start", width: 55, value: (r) => r.startDate },
+      { header: "End", width: 55, value: (r) => r.endDate },
+      { header: "Rent", width: 60, money: true, value: (r) => r.monthlyRent },
+      { header: "Balance", width: 60, money: true, value: (r) => r.balance },
+    ];
+
+    await sendReport(res, String(format), {
+      data: { rentRoll },
+      rows: rentRoll.rows,
+      columns,
+      filename: `rent-roll-${formatDate(rentRoll.generatedAt)}`,
+      title: "Rent Roll",
+      subtitleLines: [`As of: ${formatDate(rentRoll.generatedAt)}`],
+      summaryLines: [
+        `Units: ${rentRoll.totals.units} (${rentRoll.totals.occupiedUnits} leased)`,
+        `Leased rent: ${formatMoney(rentRoll.totals.leasedRent)}`,
+        `Unpaid balance: ${formatMoney(rentRoll.totals.balance)}`,
+      ],
+    });
+  } catch (error) {
+    handleReportError(res, error, "rent roll");
+  }
+};
+
+/**
+ * Get arrears by lease, aged into current, 30, 60 and 90+ day buckets
+ * @route GET /api/reports/arrears-aging
+ * @access Private (Landlord only)
+ */
+export const getArrearsAging = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!checkReportRequest(req, res)) return;
+
+    const { propertyId, format = "json" } = req.query;
+    const aging = await buildArrearsAging(
+      req.user!.id,
+      propertyId as string | undefined
+    );
+
+    const columns: ReportColumn<ArrearsAgingRow>[] = [
+      { header: "Property", width: 70, value: (r) => r.propertyName },
+      { header: "Unit", width: 45, value: (r) => r.unitName },
+      { header: "Tenant", width: 80, value: (r) => r.tenantName },
+      { header: "Current", width: 50, money: true, value: (r) => r.current },
+      { header: "31-60", width: 50, money: true, value: (r) => r.days30 },
+      { header: "61-90", width: 50, money: true, value: (r) => r.days60 },
+      { header: "90+", width: 50, money: true, value: (r) => r.days90Plus },
+      { header: "Total", width: 55, money: true, value: (r) => r.total },
+    ];
+
+    await sendReport(res, String(format), {
+      data: { aging },
+      rows: aging.rows,
+      columns,
+      filename: `arrears-aging-${formatDate(aging.asOf)}`,
+      title: "Arrears Aging",
+      subtitleLines: [
+        `As of: ${formatDate(aging.asOf)}`,
+        "Days past the invoice due date",
+      ],
+      summaryLines: [
+        `Current: ${formatMoney(aging.totals.current)}`,
+        `31-60 days: ${formatMoney(aging.totals.days30)}`,
+        `61-90 days: ${formatMoney(aging.totals.days60)}`,
+        `Over 90 days: ${formatMoney(aging.totals.days90Plus)}`,
+        `Total arrears: ${formatMoney(aging.totals.total)}`,
+      ],
+    });
+  } catch (error) {
+    handleReportError(res, error, "arrears aging report");
+  }
+};
+
+/**
+ * Get the income statement (rent collected minus recorded expenses) per
+ * property for a period, defaulting to the current month
+ * @route GET /api/reports/income-statement
+ * @access Private (Landlord only)
+ */
+export const getIncomeStatement = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!checkReportRequest(req, res)) return;
+
+    const { propertyId, startDate, endDate, format = "json" } = req.query;
+    const now = new Date();
+    const range = parseLocalDateRange(startDate, endDate);
+
+    const statement = await buildIncomeStatement(
+      req.user!.id,
+      {
+        start: range.start || startOfLocalMonth(now),
+        end: range.end || now,
+      },
+      propertyId as string | undefined
+    );
+
+    const lines: IncomeStatementLine[] = statement.properties.flatMap(
+      (property) => [
+        {
+          propertyName: property.propertyName,
+          item: "Rent income",
+          amount: property.rentIncome,
+        },
+        ...EXPENSE_CATEGORIES.filter(
+          (category) => property.expenses[category] > 0
+        ).map((category) => ({
+          propertyName: property.propertyName,
+          item: `Expense: ${category}`,
+          amount: -property.expenses[category],
+        })),
+        {
+          propertyName: property.propertyName,
+          item: "Total expenses",
+          amount: -property.totalExpenses,
+        },
+        {
+          propertyName: property.propertyName,
+          item: "Net income",
+          amount: property.netIncome,
+        },
+      ]
+    );
+
+    const columns: ReportColumn<IncomeStatementLine>[] = [
+      { header: "Property", width: 150, value: (r) => r.propertyName },
+      { header: "Item", width: 200, value: (r) => r.item },
+      { header: "Amount", width: 100, money: true, value: (r) => r.amount },
+    ];
+
+    const period = `${formatDate(statement.startDate)} to ${formatDate(
+      statement.endDate
+    )}`;
+
+    await sendReport(res, String(format), {
+      data: { statement },
+      rows: lines,
+      columns,
+      filename: `income-statement-${formatDate(
+        statement.startDate
+      )}-${formatDate(statement.endDate)}`,
+      title: "Income Statement",
+      subtitleLines: [`Period: ${period}`],
+      summaryLines: [
+        `Rent income: ${formatMoney(statement.totals.rentIncome)}`,
+        `Expenses: ${formatMoney(statement.totals.totalExpenses)}`,
+        `Net income: ${formatMoney(statement.totals.netIncome)}`,
+      ],
+    });
+  } catch (error) {
+    handleReportError(res, error, "income statement");
+  }
+};
@@ -1,12 +1,67 @@
 import { Request, Response } from "express";
 import { Op } from "sequelize";
-import { User, Property, Unit, Payment, MaintenanceRequest } from "../models";
+import sequelize from "../config/database";
+import {
+  User,
+  Property,
+  Unit,
+  Payment,
+  MaintenanceRequest,
+  LandlordTenant,
+  Lease,
+} from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
 import bcrypt from "bcryptjs";
+import { generateTemporaryPassword } from "../utils/auth";
+import {
+  sendTenantInvitationEmail,
+  sendTenantWelcomeEmail,
+} from "../services/emailService";
+import { ApiError } from "../middleware/errorHandler";
+import { revokeAllSessions } from "../services/sessionService";
+import {
+  createLeaseRecord,
+  terminateLeaseRecord,
+} from "../services/leaseService";
+import {
+  endTenantRelationship,
+  findLandlordTenant,
+  inviteTenant,
+  linkTenantToLandlord,
+  managesTenantExclusively,
+  respondToInvitation,
+} from "../services/landlordTenantService";
+
+const findLeaseDetails = (leaseId: string) =>
+  Lease.findByPk(leaseId, {
+    attributes: [
+      "id",
+      "tenantId",
+      "startDate",
+      "endDate",
+      "monthlyRent",
+      "securityDeposit",
+      "moveInDate",
+      "moveOutDate",
+      "status",
+      "terminationReason",
+    ],
+    include: [
+      {
+        model: Unit,
+        as: "unit",
+        attributes: ["id", "name", "status", "rentAmount"],
+        include: [
+          { model: Property, as: "property", attributes: ["id", "name"] },
+        ],
+      },
+    ],
+  });
 
 /**
- * Create a new tenant
+ * Create a new tenant with a one-time password that is emailed to them
+ * and must be changed at first login
  * @route POST /api/tenants
  * @access Private (Landlord only)
  */
@@ -19,11 +74,11 @@ export const createTenant = async (
       firstName,
       lastName,
       email,
-      password,
       phone,
       emergencyContactName,
       emergencyContactPhone,
       unitId,
+      lease: leaseTerms,
     } = req.body;
 
     if (req.user?.role !== "landlord") {
@@ -34,12 +89,15 @@ export const createTenant = async (
       return;
     }
 
-    // Check if email already exists
+    // A tenant who already has an account (e.g. from renting with another
+    // landlord) is not duplicated. The account is theirs, so a landlord they
+    // have not rented from before is linked only once they accept an
+    // invitation; a returning tenant is linked straight away.
     const existingUser = await User.findOne({
       where: { email: email.toLowerCase() },
     });
 
-    if (existingUser) {
+    if (existingUser && existingUser.role !== "tenant") {
       res.status(400).json({
         success: false,
         message: "User with this email already exists",
@@ -47,9 +105,64 @@ export const createTenant = async (
       return;
     }
 
-    // If unitId is provided, verify unit ownership and availability
+    if (existingUser) {
+      const existingLink = await LandlordTenant.findOne({
+        where: { landlordId: req.user.id, tenantId: existingUser.id },
+      });
+
+      if (existingLink && existingLink.status !== "ended") {
+        res.status(400).json({
+          success: false,
+          message:
+            existingLink.status === "pending"
+              ? "This tenant has already been invited and has not responded yet."
+              : "This tenant is already linked to your account.",
+        });
+        return;
+      }
+
+      if (!existingLink) {
+        const invitation = await inviteTenant(req.user.id, existingUser.id);
+
+        let invitationEmailSent = false;
+        try {
+          invitationEmailSent = await sendTenantInvitationEmail(
+            existingUser.email,
+            existingUser.firstName,
+            { landlordName: `${req.user.firstName} ${req.user.lastName}` }
+          );
+        } catch (emailError) {
+          logger.error(
+            `Error sending invitation email to tenant ${existingUser.id}:`,
+            emailError
+          );
+        }
+
+        res.status(201).json({
+          success: true,
+          message: unitId
+            ? "A tenant account with this email already exists, so the tenant has been invited to join. Assign the unit once they accept."
+            : "A tenant account with this email already exists, so the tenant has been invited to join. They will appear in your tenants once they accept.",
+          data: {
+            invitation: {
+              id: invitation.id,
+              email: existingUser.email,
+              status: invitation.status,
+              createdAt: invitation.createdAt,
+            },
+            invitationPending: true,
+            invitationEmailSent,
+          },
+        });
+        return;
+      }
+    }
+
+    // If unitId is provided, verify unit ownership (availability is checked
+    // against active leases when the lease is created)
+    let unit: Unit | null = null;
     if (unitId) {
-      const unit = await Unit.findOne({
+      unit = await Unit.findOne({
         where: { id: unitId },
         include: [
           {
@@ -67,42 +180,118 @@ export const createTenant = async (
         });
         return;
       }
+    }
 
-      if (unit.status === "occupied") {
-        res.status(400).json({
-          success: false,
-          message: "Unit is already occupied.",
-        });
-        return;
+    const transaction = await sequelize.transaction();
+    let tenant: User;
+    let temporaryPassword: string | undefined;
+    let lease: Lease | null = null;
+
+    try {
+      if (existingUser) {
+        tenant = existingUser;
+      } else {
+        // Create tenant with a one-time password
+        temporaryPassword = generateTemporaryPassword();
+        tenant = await User.create(
+          {
+            firstName,
+            lastName,
+            email: email.toLowerCase(),
+            password: temporaryPassword, // Will be hashed by model hooks
+            phone,
+            emergencyContactName,
+            emergencyContactPhone,
+            role: "tenant",
+            status: "active",
+            mustChangePassword: true,
+          },
+          { transaction }
+        );
       }
+
+      await linkTenantToLandlord(req.user.id, tenant.id, transaction, {
+        createdAccount: !existingUser,
+      });
+
+      // If a unit is assigned, start the tenant's lease on it
+      if (unitId) {
+        lease = await createLeaseRecord(
+          req.user.id,
+          {
+            tenantId: tenant.id,
+            unitId,
+            startDate: leaseTerms.startDate,
+            endDate: leaseTerms.endDate,
+            monthlyRent: leaseTerms.monthlyRent,
+            securityDeposit: leaseTerms.securityDeposit,
+            moveInDate: leaseTerms.moveInDate,
+            notes: leaseTerms.notes,
+            endOfTermPolicy: leaseTerms.endOfTermPolicy,
+          },
+          transaction
+        );
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
     }
 
-    // Create tenant
-    const tenant = await User.create({
-      firstName,
-      lastName,
-      email: email.toLowerCase(),
-      password, // Will be hashed by model hooks
-      phone,
-      emergencyContactName,
-      emergencyContactPhone,
-      role: "tenant",
-      status: "active",
-    });
+    logger.info(
+      existingUser
+        ? `Returning tenant ${tenant.id} re-linked to landlord: ${req.user.id}`
+        : `Tenant created: ${tenant.id} by landlord: ${req.user.id}`
+    );
 
-    // If unit is assigned, update unit status
-    if (unitId) {
-      await Unit.update(
-        { status: "occupied" },
-        { where: { id: unitId } }
+    // Email the sign-in details to new tenants; the landlord can reset the
+    // password if the email does not arrive
+    let welcomeEmailSent = false;
+    try {
+      if (temporaryPassword) {
+        const property = (unit as any)?.property;
+        welcomeEmailSent = await sendTenantWelcomeEmail(
+          tenant.email,
+          tenant.firstName,
+          {
+            temporaryPassword,
+            landlordName: `${req.user.firstName} ${req.user.lastName}`,
+            propertyName: property?.name,
+            propertyAddress: property?.address,
+            unitName: unit?.name,
+          }
+        );
+      }
+    } catch (emailError) {
+      logger.error(
+        `Error sending welcome email to tenant ${tenant.id}:`,
+        emailError
       );
     }
 
-    logger.info(`Tenant created: ${tenant.id} by landlord: ${req.user.id}`);
+    // Development logging for sign-in details that were not emailed
+    if (
+      temporaryPassword &&
+      !welcomeEmailSent &&
+      process.env.NODE_ENV === "development"
+    ) {
+      console.log("\n" + "🔐".repeat(40));
+      console.log("🔑 TENANT TEMPORARY PASSWORD (Development Mode)");
+      console.log("🔐".repeat(40));
+      console.log(`📧 Email: ${tenant.email}`);
+      console.log(`👤 User ID: ${tenant.id}`);
+      console.log(`🎯 Temporary password: ${temporaryPassword}`);
+      console.log("🔐".repeat(40) + "\n");
+    }
 
     res.status(201).json({
       success: true,
-      message: "Tenant created successfully",
+      message: existingUser
+        ? "Returning tenant linked successfully. They can sign in with their current password."
+        : welcomeEmailSent
+          ? "Tenant created successfully. Sign-in details have been emailed to the tenant."
+          : "Tenant created, but the welcome email could not be sent. Reset the tenant's password to give them sign-in details.",
       data: {
         tenant: {
           id: tenant.id,
@@ -118,9 +307,20 @@ export const createTenant = async (
           createdAt: tenant.createdAt,
           assignedUnit: unitId || null,
         },
+        lease: lease ? await findLeaseDetails(lease.id) : null,
+        linkedExistingTenant: !!existingUser,
+        welcomeEmailSent,
       },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error creating tenant:", error);
     res.status(500).json({
       success: false,
@@ -148,7 +348,25 @@ export const getAllTenants = async (
       return;
     }
 
-    const { status, search } = req.query;
+    const { status, search, relationship = "active" } = req.query;
+
+    if (!["active", "ended", "all"].includes(relationship as string)) {
+      res.status(400).json({
+        success: false,
+        message: "relationship must be one of: active, ended, all",
+      });
+      return;
+    }
+
+    // Only tenants linked to this landlord; former tenants on request.
+    // Invited tenants who have not accepted are never listed.
+    const linkWhere: any = {
+      landlordId: req.user.id,
+      status:
+        relationship === "all"
+          ? { [Op.in]: ["active", "ended"] }
+          : relationship,
+    };
 
     // Build where clause for tenant filtering
     const tenantWhere: any = {
@@ -171,9 +389,16 @@ export const getAllTenants = async (
     const tenants = await User.findAll({
       where: tenantWhere,
       include: [
+        {
+          model: LandlordTenant,
+          as: "landlordLinks",
+          where: linkWhere,
+          attributes: ["status", "startedAt", "endedAt"],
+        },
         {
           model: Payment,
           as: "payments",
+          required: false,
           include: [
             {
               model: Unit,
@@ -231,7 +456,7 @@ export const getAllTenants = async (
 
     // Calculate statistics for each tenant
     const tenantsWithStats = tenants.map((tenant) => {
-      const tenantData = tenant.toJSON() as any;
+      const { landlordLinks, ...tenantData } = tenant.toJSON() as any;
       const payments = tenantData.payments || [];
       const maintenanceRequests = tenantData.maintenanceRequests || [];
 
@@ -244,6 +469,7 @@ export const getAllTenants = async (
       return {
         ...tenantData,
         fullName: `${tenantData.firstName} ${tenantData.lastName}`,
+        relationship: landlordLinks[0],
         currentUnit: currentUnit ? {
           id: currentUnit.id,
           name: currentUnit.name,
@@ -266,6 +492,7 @@ export const getAllTenants = async (
         filters: {
           status: status || null,
           search: search || null,
+          relationship,
         },
       },
     });
@@ -305,9 +532,19 @@ export const getTenantById = async (
         role: "tenant",
       },
       include: [
+        {
+          model: LandlordTenant,
+          as: "landlordLinks",
+          where: {
+            landlordId: req.user.id,
+            status: { [Op.in]: ["active", "ended"] },
+          },
+          attributes: ["status", "startedAt", "endedAt"],
+        },
         {
           model: Payment,
           as: "payments",
+          required: false,
           include: [
             {
               model: Unit,
@@ -326,6 +563,7 @@ export const getTenantById = async (
         {
           model: MaintenanceRequest,
           as: "maintenanceRequests",
+          required: false,
           include: [
             {
               model: Unit,
@@ -366,7 +604,7 @@ export const getTenantById = async (
     }
 
     // Calculate comprehensive statistics
-    const tenantData = tenant.toJSON() as any;
+    const { landlordLinks, ...tenantData } = tenant.toJSON() as any;
     const payments = tenantData.payments || [];
     const maintenanceRequests = tenantData.maintenanceRequests || [];
 
@@ -381,6 +619,7 @@ export const getTenantById = async (
     const tenantWithStats = {
       ...tenantData,
       fullName: `${tenantData.firstName} ${tenantData.lastName}`,
+      relationship: landlordLinks[0],
       currentUnit: currentUnit ? {
         id: currentUnit.id,
         name: currentUnit.name,
@@ -427,7 +666,6 @@ export const updateTenant = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
 
     if (req.user?.role !== "landlord") {
       res.status(403).json({
@@ -437,32 +675,9 @@ export const updateTenant = async (
       return;
     }
 
-    // Find tenant and verify they are associated with landlord's properties
-    const tenant = await User.findOne({
-      where: {
-        id,
-        role: "tenant",
-      },
-      include: [
-        {
-          model: Payment,
-          as: "payments",
-          include: [
-            {
-              model: Unit,
-              as: "unit",
-              include: [
-                {
-                  model: Property,
-                  as: "property",
-                  where: { landlordId: req.user.id },
-                },
-              ],
-            },
-          ],
-          limit: 1,
-        },
-      ],
+    // Only current tenants of this landlord can be edited
+    const tenant = await findLandlordTenant(req.user.id, id, {
+      activeOnly: true,
     });
 
     if (!tenant) {
@@ -473,10 +688,34 @@ export const updateTenant = async (
       return;
     }
 
-    // Remove sensitive fields from update data
-    delete updateData.password;
-    delete updateData.role;
-    delete updateData.email; // Email updates should be handled separately
+    // Only contact details and the account status can be changed here;
+    // email and password changes are handled separately
+    const updateData: any = {};
+    [
+      "firstName",
+      "lastName",
+      "phone",
+      "emergencyContactName",
+      "emergencyContactPhone",
+      "status",
+    ].forEach((field) => {
+      if (req.body[field] !== undefined) updateData[field] = req.body[field];
+    });
+
+    // Suspending or deactivating an account other landlords share would
+    // lock the tenant out of those rentals too
+    if (
+      updateData.status !== undefined &&
+      updateData.status !== tenant.status &&
+      !(await managesTenantExclusively(req.user.id, tenant.id))
+    ) {
+      res.status(403).json({
+        success: false,
+        message:
+          "This tenant's account is shared with another landlord, so its status cannot be changed here.",
+      });
+      return;
+    }
 
     // Update the tenant
     await tenant.update(updateData);
@@ -513,7 +752,7 @@ export const updateTenant = async (
 };
 
 /**
- * Assign tenant to unit
+ * Assign tenant to unit by starting a lease on it
  * @route POST /api/tenants/:id/assign-unit
  * @access Private (Landlord only)
  */
@@ -523,7 +762,16 @@ export const assignTenantToUnit = async (
 ): Promise<void> => {
   try {
     const { id: tenantId } = req.params;
-    const { unitId } = req.body;
+    const {
+      unitId,
+      startDate,
+      endDate,
+      monthlyRent,
+      securityDeposit,
+      moveInDate,
+      notes,
+      endOfTermPolicy,
+    } = req.body;
 
     if (req.user?.role !== "landlord") {
       res.status(403).json({
@@ -533,218 +781,470 @@ export const assignTenantToUnit = async (
       return;
     }
 
-    // Verify tenant exists
-    const tenant = await User.findOne({
-      where: {
-        id: tenantId,
-        role: "tenant",
-      },
+    const transaction = await sequelize.transaction();
+    let lease: Lease;
+
+    try {
+      lease = await createLeaseRecord(
+        req.user.id,
+        {
+          tenantId,
+          unitId,
+          startDate,
+          endDate,
+          monthlyRent,
+          securityDeposit,
+          moveInDate,
+          notes,
+          endOfTermPolicy,
+        },
+        transaction
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info(
+      `Tenant ${tenantId} assigned to unit ${unitId} (lease ${lease.id}) by landlord: ${req.user.id}`
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Tenant assigned to unit successfully",
+      data: { lease: await findLeaseDetails(lease.id) },
     });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
 
-    if (!tenant) {
-      res.status(404).json({
+    logger.error("Error assigning tenant to unit:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to assign tenant to unit",
+      error: process.env.NODE_ENV === "development" ? (error as Error).message : undefined,
+    });
+  }
+};
+
+/**
+ * Remove tenant from unit by terminating their lease on it
+ * @route POST /api/tenants/:id/remove-unit
+ * @access Private (Landlord only)
+ */
+export const removeTenantFromUnit = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: tenantId } = req.params;
+    const { unitId, terminationReason, moveOutDate } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
         success: false,
-        message: "Tenant not found.",
+        message: "Access denied. Only landlords can remove tenants from units.",
       });
       return;
     }
 
-    // Verify unit ownership and availability
-    const unit = await Unit.findOne({
-      where: { id: unitId },
-      include: [
-        {
-          model: Property,
-          as: "property",
-          where: { landlordId: req.user.id },
+    const transaction = await sequelize.transaction();
+    let lease: Lease | null;
+
+    try {
+      lease = await Lease.findOne({
+        where: {
+          tenantId,
+          unitId,
+          landlordId: req.user.id,
+          status: "active",
         },
-      ],
+        transaction,
+      });
+
+      if (!lease) {
+        await transaction.rollback();
+        res.status(404).json({
+          success: false,
+          message: "No active lease found for this tenant on this unit.",
+        });
+        return;
+      }
+
+      await terminateLeaseRecord(
+        lease,
+        { terminationReason, moveOutDate, terminatedBy: req.user.id },
+        transaction
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info(
+      `Tenant ${tenantId} removed from unit ${unitId} (lease ${lease.id}) by landlord: ${req.user.id}`
+    );
+
+    res.json({
+      success: true,
+      message: "Tenant removed from unit successfully",
+      data: { lease: await findLeaseDetails(lease.id) },
     });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
 
-    if (!unit) {
+    logger.error("Error removing tenant from unit:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to remove tenant from unit",
+      error: process.env.NODE_ENV === "development" ? (error as Error).message : undefined,
+    });
+  }
+};
+
+/**
+ * Reset tenant password
+ * @route POST /api/tenants/:id/reset-password
+ * @access Private (Landlord only)
+ */
+export const resetTenantPassword = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { newPassword } = req.body;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can reset tenant passwords.",
+      });
+      return;
+    }
+
+    // Only current tenants of this landlord can have their password reset
+    const tenant = await findLandlordTenant(req.user.id, id, {
+      activeOnly: true,
+    });
+
+    if (!tenant) {
       res.status(404).json({
         success: false,
-        message: "Unit not found or access denied.",
+        message: "Tenant not found or access denied.",
       });
       return;
     }
 
-    if (unit.status === "occupied") {
-      res.status(400).json({
+    // A landlord only sets the password of an account they created and no
+    // other landlord relies on; otherwise the tenant resets it themselves
+    if (!(await managesTenantExclusively(req.user.id, tenant.id))) {
+      res.status(403).json({
         success: false,
-        message: "Unit is already occupied.",
+        message:
+          "This tenant's account is shared with another landlord or was not created by you. Ask the tenant to use the forgot password option.",
       });
       return;
     }
 
-    // Update unit status to occupied
-    await unit.update({ status: "occupied" });
+    // Update password (will be hashed by model hooks). The landlord knows
+    // it, so the tenant must choose a new one at next login.
+    await tenant.update({ password: newPassword, mustChangePassword: true });
 
-    logger.info(`Tenant ${tenantId} assigned to unit ${unitId} by landlord: ${req.user.id}`);
+    // Existing sessions were opened with the old password
+    await revokeAllSessions(tenant.id, "landlord_password_reset");
+
+    logger.info(`Password reset for tenant: ${id} by landlord: ${req.user.id}`);
 
     res.json({
       success: true,
-      message: "Tenant assigned to unit successfully",
-      data: {
-        tenant: {
-          id: tenant.id,
-          fullName: tenant.fullName,
-        },
-        unit: {
-          id: unit.id,
-          name: unit.name,
-          rentAmount: unit.rentAmount,
-        },
-      },
+      message: "Tenant password reset successfully",
     });
   } catch (error) {
-    logger.error("Error assigning tenant to unit:", error);
+    logger.error("Error resetting tenant password:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to assign tenant to unit",
-      error: process.env.NODE_ENV === "development" ? (error as Error).message : undefined,
+      message: "Failed to reset tenant password",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
 /**
- * Remove tenant from unit
- * @route POST /api/tenants/:id/remove-unit
+ * End the landlord's relationship with a tenant. The tenant's account and
+ * history are kept, and they remain linked to any other landlords.
+ * @route DELETE /api/tenants/:id
  * @access Private (Landlord only)
  */
-export const removeTenantFromUnit = async (
+export const removeTenant = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const { id: tenantId } = req.params;
-    const { unitId } = req.body;
+    const { id } = req.params;
 
     if (req.user?.role !== "landlord") {
       res.status(403).json({
         success: false,
-        message: "Access denied. Only landlords can remove tenants from units.",
+        message: "Access denied. Only landlords can remove tenants.",
       });
       return;
     }
 
-    // Verify unit ownership
-    const unit = await Unit.findOne({
-      where: { id: unitId },
-      include: [
-        {
-          model: Property,
-          as: "property",
-          where: { landlordId: req.user.id },
-        },
-      ],
+    const link = await LandlordTenant.findOne({
+      where: { landlordId: req.user.id, tenantId: id, status: "active" },
     });
 
-    if (!unit) {
+    if (!link) {
       res.status(404).json({
         success: false,
-        message: "Unit not found or access denied.",
+        message: "Tenant not found or access denied.",
       });
       return;
     }
 
-    // Update unit status to vacant
-    await unit.update({ status: "vacant" });
+    const result = await endTenantRelationship(link);
 
-    logger.info(`Tenant ${tenantId} removed from unit ${unitId} by landlord: ${req.user.id}`);
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.message,
+      });
+      return;
+    }
+
+    logger.info(`Tenant ${id} removed by landlord: ${req.user.id}`);
 
     res.json({
       success: true,
-      message: "Tenant removed from unit successfully",
+      message: "Tenant removed successfully",
       data: {
-        unit: {
-          id: unit.id,
-          name: unit.name,
-          status: unit.status,
+        relationship: {
+          status: link.status,
+          startedAt: link.startedAt,
+          endedAt: link.endedAt,
         },
       },
     });
   } catch (error) {
-    logger.error("Error removing tenant from unit:", error);
+    logger.error("Error removing tenant:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to remove tenant from unit",
-      error: process.env.NODE_ENV === "development" ? (error as Error).message : undefined,
+      message: "Failed to remove tenant",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
     });
   }
 };
 
 /**
- * Reset tenant password
- * @route POST /api/tenants/:id/reset-password
- * @access Private (Landlord only)
+ * Get pending invitations: those a tenant has received, or those a landlord
+ * has sent
+ * @route GET /api/tenants/invitations
+ * @access Private (Tenant or Landlord)
  */
-export const resetTenantPassword = async (
+export const getTenantInvitations = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const { id } = req.params;
-    const { newPassword } = req.body;
-
-    if (req.user?.role !== "landlord") {
+    if (req.user?.role !== "tenant" && req.user?.role !== "landlord") {
       res.status(403).json({
         success: false,
-        message: "Access denied. Only landlords can reset tenant passwords.",
+        message:
+          "Access denied. Only tenants and landlords can view invitations.",
       });
       return;
     }
 
-    // Find tenant and verify association with landlord
-    const tenant = await User.findOne({
+    const isTenant = req.user.role === "tenant";
+
+    // Landlords only see the email they invited until the tenant accepts
+    const invitations = await LandlordTenant.findAll({
       where: {
-        id,
-        role: "tenant",
+        status: "pending",
+        ...(isTenant ? { tenantId: req.user.id } : { landlordId: req.user.id }),
       },
+      attributes: ["id", "status", "createdAt"],
       include: [
-        {
-          model: Payment,
-          as: "payments",
-          include: [
-            {
-              model: Unit,
-              as: "unit",
-              include: [
-                {
-                  model: Property,
-                  as: "property",
-                  where: { landlordId: req.user.id },
-                },
-              ],
-            },
-          ],
-          limit: 1,
-        },
+        isTenant
+          ? {
+              model: User,
+              as: "landlord",
+              attributes: ["id", "firstName", "lastName", "email", "phone"],
+            }
+          : { model: User, as: "tenant", attributes: ["email"] },
       ],
+      order: [["createdAt", "DESC"]],
     });
 
-    if (!tenant) {
+    res.json({
+      success: true,
+      message: "Invitations retrieved successfully",
+      data: { invitations },
+    });
+  } catch (error) {
+    logger.error("Error fetching tenant invitations:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch invitations",
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Accept or decline an invitation on behalf of the signed-in tenant
+ */
+const answerInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  accept: boolean
+): Promise<void> => {
+  const action = accept ? "accept" : "decline";
+
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "tenant") {
+      res.status(403).json({
+        success: false,
+        message: `Access denied. Only tenants can ${action} invitations.`,
+      });
+      return;
+    }
+
+    const invitation = await LandlordTenant.findOne({
+      where: { id, tenantId: req.user.id, status: "pending" },
+    });
+
+    if (!invitation) {
       res.status(404).json({
         success: false,
-        message: "Tenant not found or access denied.",
+        message: "Invitation not found.",
       });
       return;
     }
 
-    // Update password (will be hashed by model hooks)
-    await tenant.update({ password: newPassword });
+    await respondToInvitation(invitation, accept);
 
-    logger.info(`Password reset for tenant: ${id} by landlord: ${req.user.id}`);
+    res.json({
+      success: true,
+      message: accept
+        ? "Invitation accepted. The landlord can now manage your tenancy."
+        : "Invitation declined",
+      data: accept
+        ? {
+            relationship: {
+              id: invitation.id,
+              landlordId: invitation.landlordId,
+              status: invitation.status,
+              startedAt: invitation.startedAt,
+            },
+          }
+        : undefined,
+    });
+  } catch (error) {
+    logger.error(`Error trying to ${action} tenant invitation:`, error);
+    res.status(500).json({
+      success: false,
+      message: `Failed to ${action} invitation`,
+      error:
+        process.env.NODE_ENV === "development"
+          ? (error as Error).message
+          : undefined,
+    });
+  }
+};
+
+/**
+ * Accept a landlord's invitation, linking the tenant to them
+ * @route POST /api/tenants/invitations/:id/accept
+ * @access Private (Tenant only)
+ */
+export const acceptTenantInvitation = (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => answerInvitation(req, res, true);
+
+/**
+ * Decline a landlord's invitation
+ * @route POST /api/tenants/invitations/:id/decline
+ * @access Private (Tenant only)
+ */
+export const declineTenantInvitation = (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => answerInvitation(req, res, false);
+
+/**
+ * Withdraw an invitation the tenant has not responded to
+ * @route DELETE /api/tenants/invitations/:id
+ * @access Private (Landlord only)
+ */
+export const cancelTenantInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (req.user?.role !== "landlord") {
+      res.status(403).json({
+        success: false,
+        message: "Access denied. Only landlords can withdraw invitations.",
+      });
+      return;
+    }
+
+    const invitation = await LandlordTenant.findOne({
+      where: { id, landlordId: req.user.id, status: "pending" },
+    });
+
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        message: "Invitation not found or access denied.",
+      });
+      return;
+    }
+
+    await invitation.destroy();
+
+    logger.info(`Invitation ${id} withdrawn by landlord: ${req.user.id}`);
 
     res.json({
       success: true,
-      message: "Tenant password reset successfully",
+      message: "Invitation withdrawn successfully",
     });
   } catch (error) {
-    logger.error("Error resetting tenant password:", error);
+    logger.error("Error withdrawing tenant invitation:", error);
     res.status(500).json({
       success: false,
-      message: "Failed to reset tenant password",
+      message: "Failed to withdraw invitation",
       error:
         process.env.NODE_ENV === "development"
           ? (error as Error).message
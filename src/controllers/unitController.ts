@@ -3,6 +3,9 @@ import { Op } from "sequelize";
 import { Unit, Property, User, Payment, MaintenanceRequest } from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import { parseDateRange } from "../utils/filters";
+import { getUnitAggregates } from "../services/statsService";
 
 /**
  * Create a new unit
@@ -17,6 +20,7 @@ export const createUnit = async (
     const {
       propertyId,
       name,
+      code,
       description,
       type,
       bedrooms,
@@ -55,6 +59,7 @@ export const createUnit = async (
     const unit = await Unit.create({
       propertyId,
       name,
+      code: code || undefined,
       description,
       type,
       bedrooms,
@@ -79,6 +84,7 @@ export const createUnit = async (
           id: unit.id,
           propertyId: unit.propertyId,
           name: unit.name,
+          code: unit.code,
           description: unit.description,
           type: unit.type,
           bedrooms: unit.bedrooms,
@@ -152,7 +158,7 @@ export const getAllUnits = async (
           model: Payment,
           as: "payments",
           limit: 3,
-          order: [["createdAt", "DESC"]],
+          order: [["paymentDate", "DESC"]],
         },
         {
           model: MaintenanceRequest,
@@ -255,7 +261,7 @@ export const getUnitsByProperty = async (
           model: Payment,
           as: "payments",
           limit: 3,
-          order: [["createdAt", "DESC"]],
+          order: [["paymentDate", "DESC"]],
         },
         {
           model: MaintenanceRequest,
@@ -345,7 +351,7 @@ export const getUnitById = async (
         {
           model: Payment,
           as: "payments",
-          order: [["createdAt", "DESC"]],
+          order: [["paymentDate", "DESC"]],
         },
         {
           model: MaintenanceRequest,
@@ -471,6 +477,7 @@ export const updateUnit = async (
           id: unit.id,
           propertyId: unit.propertyId,
           name: unit.name,
+          code: unit.code,
           description: unit.description,
           type: unit.type,
           bedrooms: unit.bedrooms,
@@ -641,77 +648,47 @@ export const getUnitStats = async (
       return;
     }
 
-    // Build date filters
-    const dateFilter: any = {};
-    if (startDate) {
-      dateFilter[Op.gte] = new Date(startDate as string);
-    }
-    if (endDate) {
-      dateFilter[Op.lte] = new Date(endDate as string);
-    }
-
-    // Get payments and maintenance requests with date filtering
-    const [payments, maintenanceRequests] = await Promise.all([
-      Payment.findAll({
-        where: {
-          unitId: id,
-          ...(Object.keys(dateFilter).length > 0
-            ? { createdAt: dateFilter }
-            : {}),
-        },
-        order: [["createdAt", "DESC"]],
-      }),
-      MaintenanceRequest.findAll({
-        where: {
-          unitId: id,
-          ...(Object.keys(dateFilter).length > 0
-            ? { createdAt: dateFilter }
-            : {}),
-        },
-        order: [["createdAt", "DESC"]],
-      }),
-    ]);
+    const { payments, maintenance } = await getUnitAggregates(
+      unit.id,
+      parseDateRange(startDate, endDate)
+    );
 
-    // Calculate comprehensive statistics
-    const totalRevenue = payments.reduce(
-      (sum, payment) => sum + (parseFloat(payment.amount.toString()) || 0),
+    const successful = payments.successful || { count: 0, amount: 0 };
+    const totalPayments = Object.values(payments).reduce(
+      (sum, totals) => sum + totals.count,
       0
     );
-    const successfulPayments = payments.filter(
-      (p) => p.status === "successful"
-    );
-    const pendingPayments = payments.filter((p) => p.status === "pending");
-    const pendingMaintenance = maintenanceRequests.filter(
-      (mr) => mr.status !== "resolved"
-    );
-    const resolvedMaintenance = maintenanceRequests.filter(
-      (mr) => mr.status === "resolved"
+    const totalRequests = Object.values(maintenance).reduce(
+      (sum, count) => sum + count,
+      0
     );
+    const resolvedRequests = maintenance.resolved || 0;
 
+    // Revenue is successful payments only
     const stats = {
       revenue: {
-        total: totalRevenue,
-        average: payments.length > 0 ? totalRevenue / payments.length : 0,
-        monthlyAverage: totalRevenue / 12, // Simplified calculation
+        total: successful.amount,
+        average:
+          successful.count > 0 ? successful.amount / successful.count : 0,
+        monthlyAverage: successful.amount / 12, // Simplified calculation
       },
       payments: {
-        total: payments.length,
-        successful: successfulPayments.length,
-        pending: pendingPayments.length,
+        total: totalPayments,
+        successful: successful.count,
+        pending: payments.pending?.count || 0,
+        failed: payments.failed?.count || 0,
         successRate:
-          payments.length > 0
-            ? Math.round((successfulPayments.length / payments.length) * 100)
+          totalPayments > 0
+            ? Math.round((successful.count / totalPayments) * 100)
             : 0,
       },
       maintenance: {
-        total: maintenanceRequests.length,
-        pending: pendingMaintenance.length,
-        resolved: resolvedMaintenance.length,
+        total: totalRequests,
+        pending: totalRequests - resolvedRequests,
+        resolved: resolvedRequests,
         resolutionRate:
-          maintenanceRequests.length > 0
-            ? Math.round(
-                (resolvedMaintenance.length / maintenanceRequests.length) * 100
-              )
+          totalRequests > 0
+            ? Math.round((resolvedRequests / totalRequests) * 100)
             : 0,
       },
       occupancy: {
@@ -737,6 +714,14 @@ export const getUnitStats = async (
       },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     logger.error("Error fetching unit stats:", error);
     res.status(500).json({
       success: false,
@@ -3,6 +3,7 @@ import { User } from "../models";
 import { AuthenticatedRequest } from "../types";
 import logger from "../config/logger";
 import { Op } from "sequelize";
+import { revokeAllSessions } from "../services/sessionService";
 
 // Get all users (Admin only)
 export const getAllUsers = async (
@@ -438,7 +439,7 @@ export const resetUserPassword = async (
     }
 
     // Update password (will be hashed automatically by the model hook)
-    await user.update({ password: newPassword });
+    await user.update({ password: newPassword, mustChangePassword: true });
 
     // Reset failed login attempts and lockout
     await user.update({
@@ -446,6 +447,9 @@ export const resetUserPassword = async (
       lockoutUntil: null,
     });
 
+    // Existing sessions were opened with the old password
+    await revokeAllSessions(user.id, "admin_password_reset");
+
     logger.info(`Password reset by admin for user: ${user.email}`);
 
     res.json({
@@ -462,6 +466,45 @@ export const resetUserPassword = async (
   }
 };
 
+// Force logout a user from every device (Admin only)
+export const forceLogoutUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByPk(id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+      return;
+    }
+
+    const count = await revokeAllSessions(user.id, "admin_force_logout");
+
+    logger.info(
+      `User force logged out by admin: ${user.email} (${count} session(s) revoked)`
+    );
+
+    res.json({
+      success: true,
+      message: "User logged out of all sessions",
+      data: { revoked: count },
+    });
+  } catch (error) {
+    logger.error("Force logout user error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to log out user",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
 // Get user statistics (Admin only)
 export const getUserStats = async (
   req: Request,
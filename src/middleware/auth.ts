@@ -1,12 +1,24 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { User } from "../models";
+import { getActiveSession } from "../services/sessionService";
 
 // Define interface for authenticated request
 export interface AuthenticatedRequest extends Request {
   user: any;
+  sessionId?: string;
 }
 
+// Routes an unverified landlord may still use
+const EMAIL_VERIFICATION_ROUTES = [
+  "/api/auth/verify-email",
+  "/api/auth/resend-verification",
+  "/api/auth/logout",
+];
+
+// Routes a user with a temporary password may still use
+const PASSWORD_CHANGE_ROUTES = ["/api/auth/change-password", "/api/auth/logout"];
+
 // Middleware to authenticate user using JWT
 export const authenticateUser = async (
   req: Request,
@@ -30,6 +42,7 @@ export const authenticateUser = async (
       userId?: string;
       id?: string;
       role: string;
+      sessionId?: string;
     };
 
     // Find user (handle both userId and id for compatibility)
@@ -52,8 +65,45 @@ export const authenticateUser = async (
       return;
     }
 
-    // Set user in request
+    // Access tokens are only valid while their session has not been revoked
+    const session = decoded.sessionId
+      ? await getActiveSession(decoded.sessionId, user.id)
+      : null;
+
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        message: "Session has expired or been revoked. Please log in again.",
+      });
+      return;
+    }
+
+    const route = req.baseUrl + req.path;
+
+    if (user.mustChangePassword && !PASSWORD_CHANGE_ROUTES.includes(route)) {
+      res.status(403).json({
+        success: false,
+        mustChangePassword: true,
+        message: "Please change your temporary password to continue.",
+      });
+      return;
+    }
+
+    if (
+      user.requiresEmailVerification &&
+      !EMAIL_VERIFICATION_ROUTES.includes(route)
+    ) {
+      res.status(403).json({
+        success: false,
+        requiresEmailVerification: true,
+        message: "Please verify your email address to continue.",
+      });
+      return;
+    }
+
+    // Set user (and the session the token belongs to) in request
     (req as AuthenticatedRequest).user = user;
+    (req as AuthenticatedRequest).sessionId = decoded.sessionId;
     next();
   } catch (error) {
     res.status(401).json({
@@ -105,13 +155,19 @@ export const optionalAuth = async (
         const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
           userId?: string;
           id?: string;
+          sessionId?: string;
         };
 
         const userId = decoded.userId || decoded.id;
         const user = await User.findByPk(userId);
+        const session =
+          user && decoded.sessionId
+            ? await getActiveSession(decoded.sessionId, user.id)
+            : null;
 
-        if (user && user.status === "active") {
+        if (user && user.status === "active" && session) {
           (req as AuthenticatedRequest).user = user;
+          (req as AuthenticatedRequest).sessionId = session.id;
         }
       } catch (error) {
         // Ignore errors for optional auth
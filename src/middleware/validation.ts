@@ -49,6 +49,19 @@ export const authSchema = {
     email: Joi.string().email().required(),
     password: Joi.string().required(),
     twoFactorToken: Joi.string().length(6).pattern(/^\d+$/).optional(),
+    deviceName: Joi.string().max(100).optional(),
+  }),
+
+  verifyEmail: Joi.object({
+    token: Joi.string().required(),
+  }),
+
+  resendVerification: Joi.object({
+    email: Joi.string().email().optional(),
+  }),
+
+  refreshToken: Joi.object({
+    refreshToken: Joi.string().required(),
   }),
 
   changePassword: Joi.object({
@@ -139,6 +152,7 @@ export const propertySchema = {
 export const unitSchema = {
   create: Joi.object({
     name: Joi.string().required().min(1).max(255),
+    code: Joi.string().max(50).optional().allow(""),
     description: Joi.string().optional().allow(""),
     type: Joi.string()
       .valid(
@@ -162,6 +176,7 @@ export const unitSchema = {
 
   update: Joi.object({
     name: Joi.string().min(1).max(255).optional(),
+    code: Joi.string().max(50).optional().allow(""),
     description: Joi.string().optional().allow(""),
     type: Joi.string()
       .valid(
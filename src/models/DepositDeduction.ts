@@ -0,0 +1,89 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface DepositDeductionAttributes {
+  id: string;
+  depositId: string;
+  description: string;
+  amount: number;
+  maintenanceRequestId?: string; // e.g. the damage repair being charged for
+  createdBy: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface DepositDeductionCreationAttributes
+  extends Optional<
+    DepositDeductionAttributes,
+    "id" | "maintenanceRequestId" | "createdAt" | "updatedAt"
+  > {}
+
+class DepositDeduction
+  extends Model<DepositDeductionAttributes, DepositDeductionCreationAttributes>
+  implements DepositDeductionAttributes
+{
+  public id!: string;
+  public depositId!: string;
+  public description!: string;
+  public amount!: number;
+  public maintenanceRequestId?: string;
+  public createdBy!: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+DepositDeduction.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    depositId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "security_deposits",
+        key: "id",
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    maintenanceRequestId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "maintenance_requests",
+        key: "id",
+      },
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "deposit_deductions",
+    modelName: "DepositDeduction",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["deposit_id"],
+      },
+    ],
+  }
+);
+
+export default DepositDeduction;
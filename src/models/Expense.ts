@@ -0,0 +1,139 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export type ExpenseCategory =
+  "maintenance" | "utilities" | "insurance" | "taxes" | "management" | "other";
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  "maintenance",
+  "utilities",
+  "insurance",
+  "taxes",
+  "management",
+  "other",
+];
+
+// Money a landlord spent on a property, reported in its income statement
+export interface ExpenseAttributes {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  unitId?: string;
+  maintenanceRequestId?: string; // e.g. the repair being paid for
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  expenseDate: Date;
+  reference?: string; // Receipt or invoice number from the supplier
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ExpenseCreationAttributes extends Optional<
+  ExpenseAttributes,
+  | "id"
+  | "unitId"
+  | "maintenanceRequestId"
+  | "expenseDate"
+  | "reference"
+  | "createdAt"
+  | "updatedAt"
+> {}
+
+class Expense
+  extends Model<ExpenseAttributes, ExpenseCreationAttributes>
+  implements ExpenseAttributes
+{
+  public id!: string;
+  public landlordId!: string;
+  public propertyId!: string;
+  public unitId?: string;
+  public maintenanceRequestId?: string;
+  public category!: ExpenseCategory;
+  public description!: string;
+  public amount!: number;
+  public expenseDate!: Date;
+  public reference?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Expense.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    propertyId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "properties",
+        key: "id",
+      },
+    },
+    unitId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "units",
+        key: "id",
+      },
+    },
+    maintenanceRequestId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "maintenance_requests",
+        key: "id",
+      },
+    },
+    category: {
+      type: DataTypes.ENUM(...EXPENSE_CATEGORIES),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    expenseDate: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      allowNull: false,
+    },
+    reference: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "expenses",
+    modelName: "Expense",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["property_id", "expense_date"],
+      },
+      {
+        fields: ["landlord_id"],
+      },
+    ],
+  }
+);
+
+export default Expense;
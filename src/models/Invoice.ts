@@ -0,0 +1,272 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export type InvoiceType = "rent" | "deposit" | "late_fee" | "other";
+
+export type InvoiceStatus =
+  | "open"
+  | "partially_paid"
+  | "paid"
+  | "overdue"
+  | "void";
+
+export interface InvoiceAttributes {
+  id: string;
+  invoiceNumber: string;
+  leaseId: string;
+  tenantId: string;
+  unitId: string;
+  landlordId: string;
+  type: InvoiceType;
+  description?: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+  issueDate: Date;
+  dueDate: Date;
+  amount: number;
+  amountPaid: number;
+  status: InvoiceStatus;
+  relatedInvoiceId?: string; // Rent invoice a late fee was charged on
+  lateFeeRuleId?: string;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface InvoiceCreationAttributes
+  extends Optional<
+    InvoiceAttributes,
+    | "id"
+    | "type"
+    | "description"
+    | "periodStart"
+    | "periodEnd"
+    | "issueDate"
+    | "amountPaid"
+    | "status"
+    | "relatedInvoiceId"
+    | "lateFeeRuleId"
+    | "voidedAt"
+    | "voidedBy"
+    | "voidReason"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class Invoice
+  extends Model<InvoiceAttributes, InvoiceCreationAttributes>
+  implements InvoiceAttributes
+{
+  public id!: string;
+  public invoiceNumber!: string;
+  public leaseId!: string;
+  public tenantId!: string;
+  public unitId!: string;
+  public landlordId!: string;
+  public type!: InvoiceType;
+  public description?: string;
+  public periodStart?: Date;
+  public periodEnd?: Date;
+  public issueDate!: Date;
+  public dueDate!: Date;
+  public amount!: number;
+  public amountPaid!: number;
+  public status!: InvoiceStatus;
+  public relatedInvoiceId?: string;
+  public lateFeeRuleId?: string;
+  public voidedAt?: Date;
+  public voidedBy?: string;
+  public voidReason?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Helper methods
+  public get balance(): number {
+    return Math.max(Number(this.amount) - Number(this.amountPaid), 0);
+  }
+
+  /**
+   * Work out the status from the amount paid and the due date
+   */
+  public computeStatus(now: Date = new Date()): InvoiceStatus {
+    if (this.status === "void") {
+      return "void";
+    }
+
+    if (Number(this.amountPaid) >= Number(this.amount)) {
+      return "paid";
+    }
+
+    // An invoice is overdue once its due date has fully passed
+    const dueEnd = new Date(this.dueDate);
+    dueEnd.setHours(23, 59, 59, 999);
+    if (now > dueEnd) {
+      return "overdue";
+    }
+
+    return Number(this.amountPaid) > 0 ? "partially_paid" : "open";
+  }
+}
+
+Invoice.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    invoiceNumber: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+    },
+    leaseId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    tenantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    unitId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "units",
+        key: "id",
+      },
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    type: {
+      type: DataTypes.ENUM("rent", "deposit", "late_fee", "other"),
+      defaultValue: "rent",
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    periodStart: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    periodEnd: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    issueDate: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      allowNull: false,
+    },
+    dueDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    amountPaid: {
+      type: DataTypes.DECIMAL(12, 2),
+      defaultValue: 0,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(
+        "open",
+        "partially_paid",
+        "paid",
+        "overdue",
+        "void"
+      ),
+      defaultValue: "open",
+      allowNull: false,
+    },
+    relatedInvoiceId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "invoices",
+        key: "id",
+      },
+    },
+    lateFeeRuleId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "late_fee_rules",
+        key: "id",
+      },
+    },
+    voidedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    voidedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    voidReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "invoices",
+    modelName: "Invoice",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["lease_id", "due_date"],
+      },
+      {
+        fields: ["tenant_id"],
+      },
+      {
+        fields: ["landlord_id", "status"],
+      },
+      {
+        unique: true,
+        fields: ["lease_id", "type", "period_start"],
+        where: {
+          type: "rent",
+        },
+        name: "one_rent_invoice_per_lease_period",
+      },
+      {
+        unique: true,
+        fields: ["related_invoice_id"],
+        where: {
+          type: "late_fee",
+        },
+        name: "one_late_fee_per_invoice",
+      },
+    ],
+  }
+);
+
+export default Invoice;
@@ -0,0 +1,192 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+import { encrypt, decrypt, maskSecret } from "../utils/encryption";
+
+export interface LandlordPaymentSettingsAttributes {
+  id: string;
+  landlordId: string;
+  businessName?: string;
+  mpesaShortCode: string;
+  mpesaConsumerKeyEncrypted: string;
+  mpesaConsumerSecretEncrypted: string;
+  mpesaPasskeyEncrypted: string;
+  mpesaEnv: "sandbox" | "production";
+  lastVerifiedAt?: Date | null;
+  credentialsRotatedAt?: Date | null;
+  c2bCallbackToken?: string | null; // Secret path segment of the C2B URLs
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LandlordPaymentSettingsCreationAttributes
+  extends Optional<
+    LandlordPaymentSettingsAttributes,
+    | "id"
+    | "businessName"
+    | "mpesaEnv"
+    | "lastVerifiedAt"
+    | "credentialsRotatedAt"
+    | "c2bCallbackToken"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+export interface MpesaCredentials {
+  shortCode: string;
+  consumerKey: string;
+  consumerSecret: string;
+  passKey: string;
+  environment: "sandbox" | "production";
+}
+
+class LandlordPaymentSettings
+  extends Model<
+    LandlordPaymentSettingsAttributes,
+    LandlordPaymentSettingsCreationAttributes
+  >
+  implements LandlordPaymentSettingsAttributes
+{
+  public id!: string;
+  public landlordId!: string;
+  public businessName?: string;
+  public mpesaShortCode!: string;
+  public mpesaConsumerKeyEncrypted!: string;
+  public mpesaConsumerSecretEncrypted!: string;
+  public mpesaPasskeyEncrypted!: string;
+  public mpesaEnv!: "sandbox" | "production";
+  public lastVerifiedAt?: Date | null;
+  public credentialsRotatedAt?: Date | null;
+  public c2bCallbackToken?: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Encrypt and assign the secret credential fields
+  public setSecrets(secrets: {
+    consumerKey?: string;
+    consumerSecret?: string;
+    passKey?: string;
+  }): void {
+    if (secrets.consumerKey) {
+      this.mpesaConsumerKeyEncrypted = encrypt(secrets.consumerKey);
+    }
+    if (secrets.consumerSecret) {
+      this.mpesaConsumerSecretEncrypted = encrypt(secrets.consumerSecret);
+    }
+    if (secrets.passKey) {
+      this.mpesaPasskeyEncrypted = encrypt(secrets.passKey);
+    }
+  }
+
+  // Decrypt the stored credentials for use with MpesaService
+  public getCredentials(): MpesaCredentials {
+    return {
+      shortCode: this.mpesaShortCode,
+      consumerKey: decrypt(this.mpesaConsumerKeyEncrypted),
+      consumerSecret: decrypt(this.mpesaConsumerSecretEncrypted),
+      passKey: decrypt(this.mpesaPasskeyEncrypted),
+      environment: this.mpesaEnv,
+    };
+  }
+
+  // Representation safe to return from the API (secrets masked)
+  public toSafeJSON() {
+    const credentials = this.getCredentials();
+    return {
+      id: this.id,
+      landlordId: this.landlordId,
+      businessName: this.businessName,
+      mpesaShortCode: this.mpesaShortCode,
+      mpesaConsumerKey: maskSecret(credentials.consumerKey),
+      mpesaConsumerSecret: maskSecret(credentials.consumerSecret),
+      mpesaPasskey: maskSecret(credentials.passKey),
+      mpesaEnv: this.mpesaEnv,
+      lastVerifiedAt: this.lastVerifiedAt,
+      credentialsRotatedAt: this.credentialsRotatedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  // Build an unsaved instance with encrypted secrets
+  public static buildWithCredentials(
+    landlordId: string,
+    credentials: MpesaCredentials & { businessName?: string }
+  ): LandlordPaymentSettings {
+    return LandlordPaymentSettings.build({
+      landlordId,
+      businessName: credentials.businessName,
+      mpesaShortCode: credentials.shortCode,
+      mpesaConsumerKeyEncrypted: encrypt(credentials.consumerKey),
+      mpesaConsumerSecretEncrypted: encrypt(credentials.consumerSecret),
+      mpesaPasskeyEncrypted: encrypt(credentials.passKey),
+      mpesaEnv: credentials.environment,
+    });
+  }
+}
+
+LandlordPaymentSettings.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    businessName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    mpesaShortCode: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+    },
+    mpesaConsumerKeyEncrypted: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    mpesaConsumerSecretEncrypted: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    mpesaPasskeyEncrypted: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    mpesaEnv: {
+      type: DataTypes.ENUM("sandbox", "production"),
+      defaultValue: "sandbox",
+      allowNull: false,
+    },
+    lastVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    credentialsRotatedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    c2bCallbackToken: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      unique: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "landlord_payment_settings",
+    modelName: "LandlordPaymentSettings",
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+export default LandlordPaymentSettings;
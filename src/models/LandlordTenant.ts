@@ -0,0 +1,114 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export type LandlordTenantStatus = "pending" | "active" | "ended";
+
+// A tenant can rent from several landlords over time; each landlord they
+// have rented from gets one row, re-activated if the tenant returns. A
+// landlord adding an existing tenant account gets a pending row until the
+// tenant accepts.
+export interface LandlordTenantAttributes {
+  id: string;
+  landlordId: string;
+  tenantId: string;
+  status: LandlordTenantStatus;
+  startedAt: Date;
+  endedAt?: Date | null;
+  createdAccount: boolean; // The landlord created the tenant's account
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LandlordTenantCreationAttributes
+  extends Optional<
+    LandlordTenantAttributes,
+    | "id"
+    | "status"
+    | "startedAt"
+    | "endedAt"
+    | "createdAccount"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class LandlordTenant
+  extends Model<LandlordTenantAttributes, LandlordTenantCreationAttributes>
+  implements LandlordTenantAttributes
+{
+  public id!: string;
+  public landlordId!: string;
+  public tenantId!: string;
+  public status!: LandlordTenantStatus;
+  public startedAt!: Date;
+  public endedAt?: Date | null;
+  public createdAccount!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Association properties (populated by includes)
+  public landlord?: any;
+  public tenant?: any;
+}
+
+LandlordTenant.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    tenantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    status: {
+      type: DataTypes.ENUM("pending", "active", "ended"),
+      defaultValue: "active",
+      allowNull: false,
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      allowNull: false,
+    },
+    endedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAccount: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: "landlord_tenants",
+    modelName: "LandlordTenant",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["landlord_id", "tenant_id"],
+      },
+      {
+        fields: ["tenant_id"],
+      },
+    ],
+  }
+);
+
+export default LandlordTenant;
@@ -0,0 +1,169 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface LateFeeRuleAttributes {
+  id: string;
+  landlordId: string;
+  propertyId?: string | null;
+  leaseId?: string | null;
+  gracePeriodDays: number;
+  feeType: "flat" | "percentage";
+  feeAmount: number; // Flat amount or percentage of the rent charge
+  dailyAccrual: number; // Added for each further day late (same fee type)
+  maxFee?: number | null;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LateFeeRuleCreationAttributes
+  extends Optional<
+    LateFeeRuleAttributes,
+    | "id"
+    | "propertyId"
+    | "leaseId"
+    | "gracePeriodDays"
+    | "dailyAccrual"
+    | "maxFee"
+    | "isActive"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class LateFeeRule
+  extends Model<LateFeeRuleAttributes, LateFeeRuleCreationAttributes>
+  implements LateFeeRuleAttributes
+{
+  public id!: string;
+  public landlordId!: string;
+  public propertyId?: string | null;
+  public leaseId?: string | null;
+  public gracePeriodDays!: number;
+  public feeType!: "flat" | "percentage";
+  public feeAmount!: number;
+  public dailyAccrual!: number;
+  public maxFee?: number | null;
+  public isActive!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Fee owed on a rent charge that is the given number of days late.
+   * The base fee applies on the first day after the grace period and the
+   * daily accrual is added for every day after that, up to maxFee.
+   */
+  public calculateFee(rentAmount: number, daysLate: number): number {
+    if (daysLate <= this.gracePeriodDays) {
+      return 0;
+    }
+
+    const accrualDays = daysLate - this.gracePeriodDays - 1;
+    const asAmount = (value: number) =>
+      this.feeType === "percentage"
+        ? (Number(rentAmount) * Number(value)) / 100
+        : Number(value);
+
+    let fee =
+      asAmount(this.feeAmount) + asAmount(this.dailyAccrual) * accrualDays;
+
+    if (this.maxFee !== null && this.maxFee !== undefined) {
+      fee = Math.min(fee, Number(this.maxFee));
+    }
+
+    return Math.round(fee * 100) / 100;
+  }
+}
+
+LateFeeRule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    propertyId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "properties",
+        key: "id",
+      },
+    },
+    leaseId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    gracePeriodDays: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    feeType: {
+      type: DataTypes.ENUM("flat", "percentage"),
+      allowNull: false,
+    },
+    feeAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    dailyAccrual: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    maxFee: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "late_fee_rules",
+    modelName: "LateFeeRule",
+    timestamps: true,
+    underscored: true,
+    validate: {
+      appliesToPropertyOrLease(this: LateFeeRule) {
+        if (!this.propertyId === !this.leaseId) {
+          throw new Error(
+            "A late fee rule must apply to either a property or a lease"
+          );
+        }
+      },
+    },
+    indexes: [
+      {
+        unique: true,
+        fields: ["property_id"],
+        name: "one_late_fee_rule_per_property",
+      },
+      {
+        unique: true,
+        fields: ["lease_id"],
+        name: "one_late_fee_rule_per_lease",
+      },
+    ],
+  }
+);
+
+export default LateFeeRule;
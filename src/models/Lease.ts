@@ -1,6 +1,9 @@
 import { DataTypes, Model, Optional, Association } from "sequelize";
 import sequelize from "../config/database";
 
+// What happens when a lease reaches its end date without being renewed
+export type LeaseEndOfTermPolicy = "expire" | "month_to_month";
+
 export interface LeaseAttributes {
   id: string;
   tenantId: string;
@@ -16,6 +19,13 @@ export interface LeaseAttributes {
   renewalTerms?: string;
   notes?: string;
   terminationReason?: string;
+  previousLeaseId?: string; // Lease this one renewed
+  renewalReminderSentAt?: Date;
+  endOfTermPolicy: LeaseEndOfTermPolicy;
+  monthToMonthSince?: Date; // Original end date once rolled month-to-month
+  agreementTemplateId?: string | null; // Template the agreement was rendered from
+  agreementUrl?: string;
+  agreementGeneratedAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -30,6 +40,13 @@ interface LeaseCreationAttributes
     | "renewalTerms"
     | "notes"
     | "terminationReason"
+    | "previousLeaseId"
+    | "renewalReminderSentAt"
+    | "endOfTermPolicy"
+    | "monthToMonthSince"
+    | "agreementTemplateId"
+    | "agreementUrl"
+    | "agreementGeneratedAt"
     | "createdAt"
     | "updatedAt"
   > {}
@@ -52,6 +69,13 @@ class Lease
   public renewalTerms?: string;
   public notes?: string;
   public terminationReason?: string;
+  public previousLeaseId?: string;
+  public renewalReminderSentAt?: Date;
+  public endOfTermPolicy!: LeaseEndOfTermPolicy;
+  public monthToMonthSince?: Date;
+  public agreementTemplateId?: string | null;
+  public agreementUrl?: string;
+  public agreementGeneratedAt?: Date;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 
@@ -170,6 +194,43 @@ Lease.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    previousLeaseId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    renewalReminderSentAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    endOfTermPolicy: {
+      type: DataTypes.ENUM("expire", "month_to_month"),
+      defaultValue: "expire",
+      allowNull: false,
+    },
+    monthToMonthSince: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    agreementTemplateId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "lease_templates",
+        key: "id",
+      },
+    },
+    agreementUrl: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    agreementGeneratedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
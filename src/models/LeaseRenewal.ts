@@ -0,0 +1,184 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export type LeaseRenewalStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "withdrawn"
+  | "expired";
+
+export interface LeaseRenewalAttributes {
+  id: string;
+  leaseId: string;
+  landlordId: string;
+  tenantId: string;
+  startDate: Date;
+  endDate: Date;
+  currentRent: number;
+  proposedRent: number;
+  escalationPercent?: number; // Set when the rent was derived from a percentage
+  respondBy: Date;
+  message?: string;
+  status: LeaseRenewalStatus;
+  respondedAt?: Date;
+  declineReason?: string;
+  successorLeaseId?: string; // Lease created when the offer was accepted
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LeaseRenewalCreationAttributes
+  extends Optional<
+    LeaseRenewalAttributes,
+    | "id"
+    | "escalationPercent"
+    | "message"
+    | "status"
+    | "respondedAt"
+    | "declineReason"
+    | "successorLeaseId"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class LeaseRenewal
+  extends Model<LeaseRenewalAttributes, LeaseRenewalCreationAttributes>
+  implements LeaseRenewalAttributes
+{
+  public id!: string;
+  public leaseId!: string;
+  public landlordId!: string;
+  public tenantId!: string;
+  public startDate!: Date;
+  public endDate!: Date;
+  public currentRent!: number;
+  public proposedRent!: number;
+  public escalationPercent?: number;
+  public respondBy!: Date;
+  public message?: string;
+  public status!: LeaseRenewalStatus;
+  public respondedAt?: Date;
+  public declineReason?: string;
+  public successorLeaseId?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Association properties (populated by includes)
+  public lease?: any;
+  public successorLease?: any;
+}
+
+LeaseRenewal.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    leaseId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    tenantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    startDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    endDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    currentRent: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    proposedRent: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    escalationPercent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+    },
+    respondBy: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM(
+        "pending",
+        "accepted",
+        "declined",
+        "withdrawn",
+        "expired"
+      ),
+      defaultValue: "pending",
+      allowNull: false,
+    },
+    respondedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    declineReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    successorLeaseId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "lease_renewals",
+    modelName: "LeaseRenewal",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["lease_id"],
+      },
+      {
+        fields: ["tenant_id", "status"],
+      },
+      {
+        unique: true,
+        fields: ["lease_id"],
+        where: {
+          status: "pending",
+        },
+        name: "one_pending_renewal_per_lease",
+      },
+    ],
+  }
+);
+
+export default LeaseRenewal;
@@ -0,0 +1,89 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+// Audit trail of lease status transitions, including scheduler changes
+export interface LeaseStatusChangeAttributes {
+  id: string;
+  leaseId: string;
+  fromStatus?: string | null; // Null when the lease was created
+  toStatus: string;
+  reason: string;
+  changedBy?: string | null; // Null for automatic (scheduler) transitions
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LeaseStatusChangeCreationAttributes
+  extends Optional<
+    LeaseStatusChangeAttributes,
+    "id" | "fromStatus" | "changedBy" | "createdAt" | "updatedAt"
+  > {}
+
+class LeaseStatusChange
+  extends Model<
+    LeaseStatusChangeAttributes,
+    LeaseStatusChangeCreationAttributes
+  >
+  implements LeaseStatusChangeAttributes
+{
+  public id!: string;
+  public leaseId!: string;
+  public fromStatus?: string | null;
+  public toStatus!: string;
+  public reason!: string;
+  public changedBy?: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LeaseStatusChange.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    leaseId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    fromStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    toStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    changedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "lease_status_changes",
+    modelName: "LeaseStatusChange",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["lease_id", "created_at"],
+      },
+    ],
+  }
+);
+
+export default LeaseStatusChange;
@@ -0,0 +1,92 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+// A landlord's tenancy agreement wording. The body uses {{placeholders}}
+// (see leaseAgreementService) that are filled in from the lease.
+export interface LeaseTemplateAttributes {
+  id: string;
+  landlordId: string;
+  name: string;
+  title: string; // Heading printed on the agreement
+  body: string;
+  isDefault: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LeaseTemplateCreationAttributes
+  extends Optional<
+    LeaseTemplateAttributes,
+    "id" | "isDefault" | "createdAt" | "updatedAt"
+  > {}
+
+class LeaseTemplate
+  extends Model<LeaseTemplateAttributes, LeaseTemplateCreationAttributes>
+  implements LeaseTemplateAttributes
+{
+  public id!: string;
+  public landlordId!: string;
+  public name!: string;
+  public title!: string;
+  public body!: string;
+  public isDefault!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LeaseTemplate.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    title: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+    },
+    body: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    isDefault: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: "lease_templates",
+    modelName: "LeaseTemplate",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["landlord_id"],
+      },
+      {
+        unique: true,
+        fields: ["landlord_id"],
+        where: {
+          is_default: true,
+        },
+        name: "one_default_lease_template_per_landlord",
+      },
+    ],
+  }
+);
+
+export default LeaseTemplate;
@@ -0,0 +1,115 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface LedgerAdjustmentAttributes {
+  id: string;
+  leaseId: string;
+  tenantId: string;
+  landlordId: string;
+  type: "credit" | "adjustment";
+  amount: number; // Credits are positive; adjustments are signed (+ owed, - forgiven)
+  description: string;
+  effectiveDate: Date;
+  createdBy: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LedgerAdjustmentCreationAttributes
+  extends Optional<
+    LedgerAdjustmentAttributes,
+    "id" | "effectiveDate" | "createdAt" | "updatedAt"
+  > {}
+
+class LedgerAdjustment
+  extends Model<LedgerAdjustmentAttributes, LedgerAdjustmentCreationAttributes>
+  implements LedgerAdjustmentAttributes
+{
+  public id!: string;
+  public leaseId!: string;
+  public tenantId!: string;
+  public landlordId!: string;
+  public type!: "credit" | "adjustment";
+  public amount!: number;
+  public description!: string;
+  public effectiveDate!: Date;
+  public createdBy!: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LedgerAdjustment.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    leaseId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    tenantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    type: {
+      type: DataTypes.ENUM("credit", "adjustment"),
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    effectiveDate: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      allowNull: false,
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: "ledger_adjustments",
+    modelName: "LedgerAdjustment",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["lease_id", "effective_date"],
+      },
+      {
+        fields: ["tenant_id"],
+      },
+    ],
+  }
+);
+
+export default LedgerAdjustment;
@@ -7,15 +7,25 @@ export interface PaymentAttributes {
   unitId?: string;
   leaseId?: string;
   amount: number;
+  purpose: "rent" | "deposit";
   paymentDate: Date;
   mpesaTransactionId: string;
+  merchantRequestId?: string;
+  checkoutRequestId?: string;
   status: "successful" | "failed" | "pending";
+  needsReview: boolean; // Held for the landlord instead of being reconciled
+  resultDesc?: string;
   receiptUrl?: string;
+  receiptNumber?: string;
+  receiptIssuedAt?: Date;
   notes?: string;
 }
 
 interface PaymentCreationAttributes
-  extends Optional<PaymentAttributes, "id" | "paymentDate"> {}
+  extends Optional<
+    PaymentAttributes,
+    "id" | "purpose" | "paymentDate" | "needsReview"
+  > {}
 
 class Payment
   extends Model<PaymentAttributes, PaymentCreationAttributes>
@@ -26,10 +36,17 @@ class Payment
   public unitId?: string;
   public leaseId?: string;
   public amount!: number;
+  public purpose!: "rent" | "deposit";
   public paymentDate!: Date;
   public mpesaTransactionId!: string;
+  public merchantRequestId?: string;
+  public checkoutRequestId?: string;
   public status!: "successful" | "failed" | "pending";
+  public needsReview!: boolean;
+  public resultDesc?: string;
   public receiptUrl?: string;
+  public receiptNumber?: string;
+  public receiptIssuedAt?: Date;
   public notes?: string;
 }
 
@@ -68,6 +85,11 @@ Payment.init(
       type: DataTypes.DECIMAL(12, 2),
       allowNull: false,
     },
+    purpose: {
+      type: DataTypes.ENUM("rent", "deposit"),
+      defaultValue: "rent",
+      allowNull: false,
+    },
     paymentDate: {
       type: DataTypes.DATE,
       defaultValue: DataTypes.NOW,
@@ -78,14 +100,41 @@ Payment.init(
       allowNull: false,
       unique: true,
     },
+    merchantRequestId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    checkoutRequestId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      unique: true,
+    },
     status: {
       type: DataTypes.ENUM("successful", "failed", "pending"),
       allowNull: false,
     },
+    needsReview: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    resultDesc: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
     receiptUrl: {
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    receiptNumber: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+      unique: true,
+    },
+    receiptIssuedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
     notes: {
       type: DataTypes.TEXT,
       allowNull: true,
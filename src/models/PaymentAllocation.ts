@@ -0,0 +1,76 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface PaymentAllocationAttributes {
+  id: string;
+  paymentId: string;
+  invoiceId: string;
+  amount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PaymentAllocationCreationAttributes
+  extends Optional<
+    PaymentAllocationAttributes,
+    "id" | "createdAt" | "updatedAt"
+  > {}
+
+class PaymentAllocation
+  extends Model<PaymentAllocationAttributes, PaymentAllocationCreationAttributes>
+  implements PaymentAllocationAttributes
+{
+  public id!: string;
+  public paymentId!: string;
+  public invoiceId!: string;
+  public amount!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+PaymentAllocation.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    paymentId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "payments",
+        key: "id",
+      },
+    },
+    invoiceId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "invoices",
+        key: "id",
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: "payment_allocations",
+    modelName: "PaymentAllocation",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["payment_id"],
+      },
+      {
+        fields: ["invoice_id"],
+      },
+    ],
+  }
+);
+
+export default PaymentAllocation;
@@ -0,0 +1,76 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface RefreshTokenAttributes {
+  id: string;
+  sessionId: string; // The token family: every rotation stays in one session
+  tokenHash: string; // SHA-256 of the token; the token itself is never stored
+  expiresAt: Date;
+  usedAt?: Date; // Set when rotated; presenting it again signals reuse
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RefreshTokenCreationAttributes
+  extends Optional<
+    RefreshTokenAttributes,
+    "id" | "usedAt" | "createdAt" | "updatedAt"
+  > {}
+
+class RefreshToken
+  extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes>
+  implements RefreshTokenAttributes
+{
+  public id!: string;
+  public sessionId!: string;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public usedAt?: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    sessionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "sessions",
+        key: "id",
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "refresh_tokens",
+    modelName: "RefreshToken",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["session_id"],
+      },
+    ],
+  }
+);
+
+export default RefreshToken;
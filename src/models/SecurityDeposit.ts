@@ -0,0 +1,192 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export type SecurityDepositStatus = "open" | "deferred" | "settled";
+
+export interface SecurityDepositAttributes {
+  id: string;
+  leaseId: string;
+  tenantId: string;
+  landlordId: string;
+  invoiceId?: string; // Deposit charge raised when the lease was created
+  amount: number;
+  status: SecurityDepositStatus;
+  heldAmount?: number; // Amount actually collected, fixed at settlement
+  deductionsTotal?: number;
+  refundAmount?: number;
+  balanceDue?: number; // Deductions in excess of the deposit held
+  refundMethod?: string;
+  refundReference?: string;
+  settledAt?: Date;
+  settledBy?: string;
+  deferredAt?: Date;
+  deferralReason?: string;
+  notes?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SecurityDepositCreationAttributes
+  extends Optional<
+    SecurityDepositAttributes,
+    | "id"
+    | "invoiceId"
+    | "status"
+    | "heldAmount"
+    | "deductionsTotal"
+    | "refundAmount"
+    | "balanceDue"
+    | "refundMethod"
+    | "refundReference"
+    | "settledAt"
+    | "settledBy"
+    | "deferredAt"
+    | "deferralReason"
+    | "notes"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class SecurityDeposit
+  extends Model<SecurityDepositAttributes, SecurityDepositCreationAttributes>
+  implements SecurityDepositAttributes
+{
+  public id!: string;
+  public leaseId!: string;
+  public tenantId!: string;
+  public landlordId!: string;
+  public invoiceId?: string;
+  public amount!: number;
+  public status!: SecurityDepositStatus;
+  public heldAmount?: number;
+  public deductionsTotal?: number;
+  public refundAmount?: number;
+  public balanceDue?: number;
+  public refundMethod?: string;
+  public refundReference?: string;
+  public settledAt?: Date;
+  public settledBy?: string;
+  public deferredAt?: Date;
+  public deferralReason?: string;
+  public notes?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Association properties (populated by includes)
+  public invoice?: any;
+  public deductions?: any[];
+}
+
+SecurityDeposit.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    leaseId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: "leases",
+        key: "id",
+      },
+    },
+    tenantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    invoiceId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "invoices",
+        key: "id",
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM("open", "deferred", "settled"),
+      defaultValue: "open",
+      allowNull: false,
+    },
+    heldAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    deductionsTotal: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    refundAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    balanceDue: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    refundMethod: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    refundReference: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    settledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    settledBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    deferredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    deferralReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "security_deposits",
+    modelName: "SecurityDeposit",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["landlord_id", "status"],
+      },
+    ],
+  }
+);
+
+export default SecurityDeposit;
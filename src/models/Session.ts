@@ -0,0 +1,113 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface SessionAttributes {
+  id: string;
+  userId: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date; // Refresh tokens cannot extend the session past this
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SessionCreationAttributes
+  extends Optional<
+    SessionAttributes,
+    | "id"
+    | "deviceName"
+    | "ipAddress"
+    | "userAgent"
+    | "lastSeenAt"
+    | "revokedAt"
+    | "revokedReason"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class Session
+  extends Model<SessionAttributes, SessionCreationAttributes>
+  implements SessionAttributes
+{
+  public id!: string;
+  public userId!: string;
+  public deviceName?: string;
+  public ipAddress?: string;
+  public userAgent?: string;
+  public lastSeenAt!: Date;
+  public expiresAt!: Date;
+  public revokedAt?: Date;
+  public revokedReason?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Helper methods
+  public get isActive(): boolean {
+    return !this.revokedAt && new Date(this.expiresAt) > new Date();
+  }
+}
+
+Session.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    deviceName: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    userAgent: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    lastSeenAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revokedReason: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "sessions",
+    modelName: "Session",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["user_id", "revoked_at"],
+      },
+    ],
+  }
+);
+
+export default Session;
@@ -0,0 +1,72 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface TwoFactorBackupCodeAttributes {
+  id: string;
+  userId: string;
+  codeHash: string; // bcrypt hash; the code itself is only shown once
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TwoFactorBackupCodeCreationAttributes
+  extends Optional<
+    TwoFactorBackupCodeAttributes,
+    "id" | "usedAt" | "createdAt" | "updatedAt"
+  > {}
+
+class TwoFactorBackupCode
+  extends Model<
+    TwoFactorBackupCodeAttributes,
+    TwoFactorBackupCodeCreationAttributes
+  >
+  implements TwoFactorBackupCodeAttributes
+{
+  public id!: string;
+  public userId!: string;
+  public codeHash!: string;
+  public usedAt?: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+TwoFactorBackupCode.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    codeHash: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "two_factor_backup_codes",
+    modelName: "TwoFactorBackupCode",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["user_id"],
+      },
+    ],
+  }
+);
+
+export default TwoFactorBackupCode;
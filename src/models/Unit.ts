@@ -5,6 +5,7 @@ export interface UnitAttributes {
   id: string;
   propertyId: string;
   name: string;
+  code?: string;
   description?: string;
   type:
     | "apartment"
@@ -43,6 +44,7 @@ class Unit
   public id!: string;
   public propertyId!: string;
   public name!: string;
+  public code?: string;
   public description?: string;
   public type!:
     | "apartment"
@@ -81,6 +83,10 @@ Unit.init(
       type: DataTypes.STRING(255),
       allowNull: false,
     },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
     description: {
       type: DataTypes.TEXT,
       allowNull: true,
@@ -0,0 +1,151 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+export interface UnmatchedPaymentAttributes {
+  id: string;
+  landlordId?: string;
+  transactionId: string;
+  transactionTime: Date;
+  amount: number;
+  businessShortCode: string;
+  billRefNumber?: string;
+  msisdn?: string;
+  payerName?: string;
+  reason: string;
+  status: "unmatched" | "assigned" | "dismissed";
+  paymentId?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  rawPayload?: object;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface UnmatchedPaymentCreationAttributes
+  extends Optional<
+    UnmatchedPaymentAttributes,
+    | "id"
+    | "status"
+    | "paymentId"
+    | "resolvedBy"
+    | "resolvedAt"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class UnmatchedPayment
+  extends Model<UnmatchedPaymentAttributes, UnmatchedPaymentCreationAttributes>
+  implements UnmatchedPaymentAttributes
+{
+  public id!: string;
+  public landlordId?: string;
+  public transactionId!: string;
+  public transactionTime!: Date;
+  public amount!: number;
+  public businessShortCode!: string;
+  public billRefNumber?: string;
+  public msisdn?: string;
+  public payerName?: string;
+  public reason!: string;
+  public status!: "unmatched" | "assigned" | "dismissed";
+  public paymentId?: string;
+  public resolvedBy?: string;
+  public resolvedAt?: Date;
+  public rawPayload?: object;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+UnmatchedPayment.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    landlordId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    transactionId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+    },
+    transactionTime: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    businessShortCode: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    billRefNumber: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    msisdn: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    payerName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM("unmatched", "assigned", "dismissed"),
+      defaultValue: "unmatched",
+      allowNull: false,
+    },
+    paymentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "payments",
+        key: "id",
+      },
+    },
+    resolvedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    rawPayload: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "unmatched_payments",
+    modelName: "UnmatchedPayment",
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ["landlord_id", "status"],
+      },
+    ],
+  }
+);
+
+export default UnmatchedPayment;
@@ -14,6 +14,9 @@ export interface UserAttributes {
   emergencyContactName?: string;
   emergencyContactPhone?: string;
   status: "active" | "inactive" | "suspended" | "deactivated";
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date | null;
+  mustChangePassword?: boolean;
   lastLogin?: Date;
   resetPasswordToken?: string | null;
   resetPasswordExpires?: Date | null;
@@ -33,6 +36,9 @@ interface UserCreationAttributes
     | "createdAt"
     | "updatedAt"
     | "status"
+    | "emailVerified"
+    | "emailVerifiedAt"
+    | "mustChangePassword"
     | "lastLogin"
     | "resetPasswordToken"
     | "resetPasswordExpires"
@@ -57,6 +63,9 @@ class User
   public emergencyContactName?: string;
   public emergencyContactPhone?: string;
   public status!: "active" | "inactive" | "suspended" | "deactivated";
+  public emailVerified?: boolean;
+  public emailVerifiedAt?: Date | null;
+  public mustChangePassword?: boolean;
   public lastLogin?: Date;
   public resetPasswordToken?: string | null;
   public resetPasswordExpires?: Date | null;
@@ -67,6 +76,11 @@ class User
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 
+  // Self-registered landlords must confirm their email before using the app
+  public get requiresEmailVerification(): boolean {
+    return this.role === "landlord" && this.emailVerified === false;
+  }
+
   // Computed property to get full name
   public get fullName(): string {
     return `${this.firstName} ${this.lastName}`;
@@ -175,6 +189,21 @@ User.init(
       defaultValue: "active",
       allowNull: false,
     },
+    emailVerified: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+      allowNull: false,
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Set when someone else chose the password (e.g. tenant onboarding)
+    mustChangePassword: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
     lastLogin: {
       type: DataTypes.DATE,
       allowNull: true,
@@ -4,6 +4,22 @@ import Unit from "./Unit";
 import Payment from "./Payment";
 import MaintenanceRequest from "./MaintenanceRequest";
 import Lease from "./Lease";
+import LandlordPaymentSettings from "./LandlordPaymentSettings";
+import UnmatchedPayment from "./UnmatchedPayment";
+import Invoice from "./Invoice";
+import PaymentAllocation from "./PaymentAllocation";
+import LedgerAdjustment from "./LedgerAdjustment";
+import LateFeeRule from "./LateFeeRule";
+import SecurityDeposit from "./SecurityDeposit";
+import DepositDeduction from "./DepositDeduction";
+import Session from "./Session";
+import RefreshToken from "./RefreshToken";
+import TwoFactorBackupCode from "./TwoFactorBackupCode";
+import LandlordTenant from "./LandlordTenant";
+import LeaseRenewal from "./LeaseRenewal";
+import LeaseStatusChange from "./LeaseStatusChange";
+import LeaseTemplate from "./LeaseTemplate";
+import Expense from "./Expense";
 
 // Define associations
 
@@ -16,10 +32,15 @@ User.hasMany(MaintenanceRequest, {
 });
 User.hasMany(Lease, { foreignKey: "tenantId", as: "tenantLeases" });
 User.hasMany(Lease, { foreignKey: "landlordId", as: "landlordLeases" });
+User.hasOne(LandlordPaymentSettings, {
+  foreignKey: "landlordId",
+  as: "paymentSettings",
+});
 
 // Property associations
 Property.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
 Property.hasMany(Unit, { foreignKey: "propertyId", as: "units" });
+Property.hasOne(LateFeeRule, { foreignKey: "propertyId", as: "lateFeeRule" });
 
 // Unit associations
 Unit.belongsTo(Property, { foreignKey: "propertyId", as: "property" });
@@ -39,6 +60,10 @@ Unit.hasOne(Lease, {
 Payment.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
 Payment.belongsTo(Unit, { foreignKey: "unitId", as: "unit" });
 Payment.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+Payment.hasMany(PaymentAllocation, {
+  foreignKey: "paymentId",
+  as: "allocations",
+});
 
 // MaintenanceRequest associations
 MaintenanceRequest.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
@@ -49,8 +74,150 @@ Lease.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
 Lease.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
 Lease.belongsTo(Unit, { foreignKey: "unitId", as: "unit" });
 Lease.hasMany(Payment, { foreignKey: "leaseId", as: "payments" });
+Lease.hasMany(Invoice, { foreignKey: "leaseId", as: "invoices" });
+Lease.hasMany(LedgerAdjustment, { foreignKey: "leaseId", as: "adjustments" });
+Lease.hasOne(LateFeeRule, { foreignKey: "leaseId", as: "lateFeeRule" });
+Lease.hasOne(SecurityDeposit, { foreignKey: "leaseId", as: "deposit" });
+Lease.belongsTo(Lease, { foreignKey: "previousLeaseId", as: "previousLease" });
+Lease.hasOne(Lease, { foreignKey: "previousLeaseId", as: "successorLease" });
+Lease.hasMany(LeaseRenewal, { foreignKey: "leaseId", as: "renewals" });
+Lease.hasMany(LeaseStatusChange, {
+  foreignKey: "leaseId",
+  as: "statusChanges",
+});
+LeaseStatusChange.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+LeaseStatusChange.belongsTo(User, {
+  foreignKey: "changedBy",
+  as: "changedByUser",
+});
+Lease.belongsTo(LeaseTemplate, {
+  foreignKey: "agreementTemplateId",
+  as: "agreementTemplate",
+  onDelete: "SET NULL",
+});
+
+// LeaseTemplate associations
+LeaseTemplate.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
+User.hasMany(LeaseTemplate, { foreignKey: "landlordId", as: "leaseTemplates" });
+
+// LeaseRenewal associations
+LeaseRenewal.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+LeaseRenewal.belongsTo(Lease, {
+  foreignKey: "successorLeaseId",
+  as: "successorLease",
+});
+
+// LandlordPaymentSettings associations
+LandlordPaymentSettings.belongsTo(User, {
+  foreignKey: "landlordId",
+  as: "landlord",
+});
+
+// UnmatchedPayment associations
+UnmatchedPayment.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
+UnmatchedPayment.belongsTo(Payment, { foreignKey: "paymentId", as: "payment" });
+
+// Invoice associations
+Invoice.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+Invoice.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
+Invoice.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
+Invoice.belongsTo(Unit, { foreignKey: "unitId", as: "unit" });
+Invoice.hasMany(PaymentAllocation, {
+  foreignKey: "invoiceId",
+  as: "allocations",
+});
+Invoice.belongsTo(Invoice, {
+  foreignKey: "relatedInvoiceId",
+  as: "relatedInvoice",
+});
+Invoice.belongsTo(LateFeeRule, { foreignKey: "lateFeeRuleId", as: "lateFeeRule" });
 
-export { User, Property, Unit, Payment, MaintenanceRequest, Lease };
+// PaymentAllocation associations
+PaymentAllocation.belongsTo(Payment, { foreignKey: "paymentId", as: "payment" });
+PaymentAllocation.belongsTo(Invoice, { foreignKey: "invoiceId", as: "invoice" });
+
+// LedgerAdjustment associations
+LedgerAdjustment.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+LedgerAdjustment.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
+LedgerAdjustment.belongsTo(User, { foreignKey: "createdBy", as: "creator" });
+
+// LateFeeRule associations
+LateFeeRule.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
+LateFeeRule.belongsTo(Property, { foreignKey: "propertyId", as: "property" });
+LateFeeRule.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+
+// SecurityDeposit associations
+SecurityDeposit.belongsTo(Lease, { foreignKey: "leaseId", as: "lease" });
+SecurityDeposit.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
+SecurityDeposit.belongsTo(Invoice, { foreignKey: "invoiceId", as: "invoice" });
+SecurityDeposit.hasMany(DepositDeduction, {
+  foreignKey: "depositId",
+  as: "deductions",
+});
+
+// DepositDeduction associations
+DepositDeduction.belongsTo(SecurityDeposit, {
+  foreignKey: "depositId",
+  as: "deposit",
+});
+DepositDeduction.belongsTo(MaintenanceRequest, {
+  foreignKey: "maintenanceRequestId",
+  as: "maintenanceRequest",
+});
+
+// Session associations
+User.hasMany(Session, { foreignKey: "userId", as: "sessions" });
+Session.belongsTo(User, { foreignKey: "userId", as: "user" });
+Session.hasMany(RefreshToken, {
+  foreignKey: "sessionId",
+  as: "refreshTokens",
+});
+RefreshToken.belongsTo(Session, { foreignKey: "sessionId", as: "session" });
+
+// TwoFactorBackupCode associations
+User.hasMany(TwoFactorBackupCode, { foreignKey: "userId", as: "backupCodes" });
+TwoFactorBackupCode.belongsTo(User, { foreignKey: "userId", as: "user" });
+
+// LandlordTenant associations
+User.hasMany(LandlordTenant, { foreignKey: "tenantId", as: "landlordLinks" });
+User.hasMany(LandlordTenant, { foreignKey: "landlordId", as: "tenantLinks" });
+LandlordTenant.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
+LandlordTenant.belongsTo(User, { foreignKey: "tenantId", as: "tenant" });
+
+// Expense associations
+Expense.belongsTo(User, { foreignKey: "landlordId", as: "landlord" });
+Expense.belongsTo(Property, { foreignKey: "propertyId", as: "property" });
+Expense.belongsTo(Unit, { foreignKey: "unitId", as: "unit" });
+Expense.belongsTo(MaintenanceRequest, {
+  foreignKey: "maintenanceRequestId",
+  as: "maintenanceRequest",
+});
+Property.hasMany(Expense, { foreignKey: "propertyId", as: "expenses" });
+
+export {
+  User,
+  Property,
+  Unit,
+  Payment,
+  MaintenanceRequest,
+  Lease,
+  LandlordPaymentSettings,
+  UnmatchedPayment,
+  Invoice,
+  PaymentAllocation,
+  LedgerAdjustment,
+  LateFeeRule,
+  SecurityDeposit,
+  DepositDeduction,
+  Session,
+  RefreshToken,
+  TwoFactorBackupCode,
+  LandlordTenant,
+  LeaseRenewal,
+  LeaseStatusChange,
+  LeaseTemplate,
+  Expense,
+};
 
 export default {
   User,
@@ -59,4 +226,20 @@ export default {
   Payment,
   MaintenanceRequest,
   Lease,
+  LandlordPaymentSettings,
+  UnmatchedPayment,
+  Invoice,
+  PaymentAllocation,
+  LedgerAdjustment,
+  LateFeeRule,
+  SecurityDeposit,
+  DepositDeduction,
+  Session,
+  RefreshToken,
+  TwoFactorBackupCode,
+  LandlordTenant,
+  LeaseRenewal,
+  LeaseStatusChange,
+  LeaseTemplate,
+  Expense,
 };
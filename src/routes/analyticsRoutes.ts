@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { getAnalytics } from "../controllers/analyticsController";
+import { authenticateUser } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * @route   GET /api/analytics
+ * @desc    Get revenue, billing, occupancy, lease and maintenance series
+ * @access  Private (Landlord only)
+ */
+router.get("/", authenticateUser, getAnalytics);
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import rateLimit from "express-rate-limit";
 import {
   register,
   login,
@@ -6,18 +7,58 @@ import {
   changePassword,
   updateProfile,
   logout,
+  refreshToken,
+  getSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
   forgotPassword,
   resetPassword,
   setup2FA,
   enable2FA,
   disable2FA,
   get2FAStatus,
+  regenerateBackupCodes,
+  verifyEmail,
+  resendVerificationEmail,
 } from "../controllers/authController";
-import { authenticateUser } from "../middleware/auth";
+import { authenticateUser, optionalAuth } from "../middleware/auth";
 import { validate, authSchema } from "../middleware/validation";
+import { AuthenticatedRequest } from "../types";
 
 const router = Router();
 
+const RESEND_VERIFICATION_WINDOW_MS = 15 * 60 * 1000;
+
+const resendVerificationLimitMessage = {
+  success: false,
+  message:
+    "Too many verification emails requested. Please try again in 15 minutes.",
+};
+
+// Caps the emails one address can trigger, across all accounts
+const resendVerificationIpLimiter = rateLimit({
+  windowMs: RESEND_VERIFICATION_WINDOW_MS,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: resendVerificationLimitMessage,
+});
+
+// Caps the emails one account receives, whoever asks for them
+const resendVerificationAccountLimiter = rateLimit({
+  windowMs: RESEND_VERIFICATION_WINDOW_MS,
+  max: 3,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const user = (req as AuthenticatedRequest).user;
+    return user
+      ? `user:${user.id}`
+      : `email:${String(req.body.email || "").toLowerCase()}`;
+  },
+  message: resendVerificationLimitMessage,
+});
+
 /**
  * @route   POST /api/auth/register
  * @desc    Register a new user (landlord or tenant)
@@ -123,11 +164,72 @@ router.post(
  */
 router.get("/2fa/status", authenticateUser, get2FAStatus);
 
+/**
+ * @route   POST /api/auth/2fa/backup-codes
+ * @desc    Regenerate 2FA backup codes (invalidates the previous set)
+ * @access  Private
+ */
+router.post(
+  "/2fa/backup-codes",
+  authenticateUser,
+  validate(authSchema.verify2FA),
+  regenerateBackupCodes
+);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify email address with the emailed token
+ * @access  Public
+ */
+router.post("/verify-email", validate(authSchema.verifyEmail), verifyEmail);
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Resend the verification email (signed-in user, or by email)
+ * @access  Public
+ */
+router.post(
+  "/resend-verification",
+  optionalAuth,
+  validate(authSchema.resendVerification),
+  resendVerificationIpLimiter,
+  resendVerificationAccountLimiter,
+  resendVerificationEmail
+);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new token pair (rotates the refresh token)
+ * @access  Public
+ */
+router.post("/refresh", validate(authSchema.refreshToken), refreshToken);
+
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout user
+ * @desc    Logout user (revokes the current session)
  * @access  Private
  */
 router.post("/logout", authenticateUser, logout);
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the current user's active sessions
+ * @access  Private
+ */
+router.get("/sessions", authenticateUser, getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Revoke all other sessions (?includeCurrent=true to also sign out this one)
+ * @access  Private
+ */
+router.delete("/sessions", authenticateUser, revokeAllUserSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke one of the current user's sessions
+ * @access  Private
+ */
+router.delete("/sessions/:id", authenticateUser, revokeUserSession);
+
 export default router;
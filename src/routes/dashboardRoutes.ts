@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  getDashboard,
+  getLandlordDashboard,
+  getTenantDashboard,
+} from "../controllers/dashboardController";
+import { authenticateUser } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * @route   GET /api/dashboard
+ * @desc    Get the dashboard for the logged-in user's role
+ * @access  Private (Landlord/Tenant)
+ */
+router.get("/", authenticateUser, getDashboard);
+
+/**
+ * @route   GET /api/dashboard/landlord
+ * @desc    Get landlord stats and recent activity
+ * @access  Private (Landlord only)
+ */
+router.get("/landlord", authenticateUser, getLandlordDashboard);
+
+/**
+ * @route   GET /api/dashboard/tenant
+ * @desc    Get tenant stats
+ * @access  Private (Tenant only)
+ */
+router.get("/tenant", authenticateUser, getTenantDashboard);
+
+export default router;
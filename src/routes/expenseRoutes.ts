@@ -0,0 +1,81 @@
+import { Router } from "express";
+import {
+  getExpenses,
+  createExpense,
+  updateExpense,
+  deleteExpense,
+} from "../controllers/expenseController";
+import { authenticateUser } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import { EXPENSE_CATEGORIES } from "../models/Expense";
+import Joi from "joi";
+
+const router = Router();
+
+// Expense validation schemas
+const expenseValidation = {
+  create: Joi.object({
+    propertyId: Joi.string().uuid().required(),
+    unitId: Joi.string().uuid().optional().allow(null),
+    maintenanceRequestId: Joi.string().uuid().optional().allow(null),
+    category: Joi.string()
+      .valid(...EXPENSE_CATEGORIES)
+      .required(),
+    description: Joi.string().min(2).max(1000).required(),
+    amount: Joi.number().positive().precision(2).required(),
+    expenseDate: Joi.date().iso().optional(),
+    reference: Joi.string().max(100).optional().allow(null, ""),
+  }),
+
+  update: Joi.object({
+    unitId: Joi.string().uuid().optional().allow(null),
+    maintenanceRequestId: Joi.string().uuid().optional().allow(null),
+    category: Joi.string()
+      .valid(...EXPENSE_CATEGORIES)
+      .optional(),
+    description: Joi.string().min(2).max(1000).optional(),
+    amount: Joi.number().positive().precision(2).optional(),
+    expenseDate: Joi.date().iso().optional(),
+    reference: Joi.string().max(100).optional().allow(null, ""),
+  }).min(1),
+};
+
+/**
+ * @route   GET /api/expenses
+ * @desc    Get recorded expenses (?propertyId, ?unitId, ?category, ?startDate, ?endDate)
+ * @access  Private (Landlord only)
+ */
+router.get("/", authenticateUser, getExpenses);
+
+/**
+ * @route   POST /api/expenses
+ * @desc    Record an expense against a property
+ * @access  Private (Landlord only)
+ */
+router.post(
+  "/",
+  authenticateUser,
+  validate(expenseValidation.create),
+  createExpense
+);
+
+/**
+ * @route   PUT /api/expenses/:id
+ * @desc    Update a recorded expense
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.put(
+  "/:id",
+  authenticateUser,
+  validate(expenseValidation.update),
+  updateExpense
+);
+
+/**
+ * @route   DELETE /api/expenses/:id
+ * @desc    Delete a recorded expense
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.delete("/:id", authenticateUser, deleteExpense);
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router } from "express";
+import {
+  getAllInvoices,
+  getInvoiceById,
+  generateInvoicesNow,
+  voidInvoice,
+  waiveLateFee,
+} from "../controllers/invoiceController";
+import { authenticateUser } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import Joi from "joi";
+
+const router = Router();
+
+// Invoice validation schemas
+const invoiceValidation = {
+  void: Joi.object({
+    reason: Joi.string().max(500).required(),
+  }),
+
+  waive: Joi.object({
+    reason: Joi.string().max(500).required(),
+  }),
+};
+
+/**
+ * @route   GET /api/invoices
+ * @desc    Get invoices for the authenticated user
+ * @access  Private (Landlord/Tenant)
+ */
+router.get("/", authenticateUser, getAllInvoices);
+
+/**
+ * @route   POST /api/invoices/generate
+ * @desc    Generate due rent invoices for the landlord's active leases
+ * @access  Private (Landlord only)
+ */
+router.post("/generate", authenticateUser, generateInvoicesNow);
+
+/**
+ * @route   GET /api/invoices/:id
+ * @desc    Get a specific invoice with its payment allocations
+ * @access  Private (Landlord/Tenant - access permissions verified in controller)
+ */
+router.get("/:id", authenticateUser, getInvoiceById);
+
+/**
+ * @route   POST /api/invoices/:id/void
+ * @desc    Void an invoice
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.post(
+  "/:id/void",
+  authenticateUser,
+  validate(invoiceValidation.void),
+  voidInvoice
+);
+
+/**
+ * @route   POST /api/invoices/:id/waive
+ * @desc    Waive a late fee with a reason
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.post(
+  "/:id/waive",
+  authenticateUser,
+  validate(invoiceValidation.waive),
+  waiveLateFee
+);
+
+export default router;
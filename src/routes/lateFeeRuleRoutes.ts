@@ -0,0 +1,91 @@
+import { Router } from "express";
+import {
+  getLateFeeRules,
+  createLateFeeRule,
+  updateLateFeeRule,
+  deleteLateFeeRule,
+  applyLateFeesNow,
+} from "../controllers/lateFeeRuleController";
+import { authenticateUser } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import Joi from "joi";
+
+const router = Router();
+
+// Percentage fees are capped at 100% of the rent charge
+const feeValue = Joi.number()
+  .min(0)
+  .when("feeType", {
+    is: "percentage",
+    then: Joi.number().max(100),
+  });
+
+// Late fee rule validation schemas
+const lateFeeRuleValidation = {
+  create: Joi.object({
+    propertyId: Joi.string().uuid().optional(),
+    leaseId: Joi.string().uuid().optional(),
+    gracePeriodDays: Joi.number().integer().min(0).max(60).default(0),
+    feeType: Joi.string().valid("flat", "percentage").required(),
+    feeAmount: feeValue.required(),
+    dailyAccrual: feeValue.default(0),
+    maxFee: Joi.number().positive().optional().allow(null),
+    isActive: Joi.boolean().default(true),
+  }).xor("propertyId", "leaseId"),
+
+  update: Joi.object({
+    gracePeriodDays: Joi.number().integer().min(0).max(60).optional(),
+    feeType: Joi.string().valid("flat", "percentage").optional(),
+    feeAmount: feeValue.optional(),
+    dailyAccrual: feeValue.optional(),
+    maxFee: Joi.number().positive().optional().allow(null),
+    isActive: Joi.boolean().optional(),
+  }).min(1),
+};
+
+/**
+ * @route   GET /api/late-fee-rules
+ * @desc    Get late fee rules for the landlord's properties and leases
+ * @access  Private (Landlord only)
+ */
+router.get("/", authenticateUser, getLateFeeRules);
+
+/**
+ * @route   POST /api/late-fee-rules
+ * @desc    Create a late fee rule for a property or a lease
+ * @access  Private (Landlord only)
+ */
+router.post(
+  "/",
+  authenticateUser,
+  validate(lateFeeRuleValidation.create),
+  createLateFeeRule
+);
+
+/**
+ * @route   POST /api/late-fee-rules/apply
+ * @desc    Apply late fees to overdue rent now
+ * @access  Private (Landlord only)
+ */
+router.post("/apply", authenticateUser, applyLateFeesNow);
+
+/**
+ * @route   PUT /api/late-fee-rules/:id
+ * @desc    Update a late fee rule
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.put(
+  "/:id",
+  authenticateUser,
+  validate(lateFeeRuleValidation.update),
+  updateLateFeeRule
+);
+
+/**
+ * @route   DELETE /api/late-fee-rules/:id
+ * @desc    Delete a late fee rule
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.delete("/:id", authenticateUser, deleteLateFeeRule);
+
+export default router;
@@ -6,7 +6,25 @@ import {
   getCurrentTenantLease,
   terminateLease,
   getLeaseStats,
+  updateEndOfTermPolicy,
+  getLeaseStatusHistory,
+  runLeaseStatusUpdatesNow,
+  generateAgreement,
+  downloadAgreement,
 } from "../controllers/leaseController";
+import {
+  getLeaseDeposit,
+  recordDepositPayment,
+  settleLeaseDeposit,
+  deferLeaseDeposit,
+} from "../controllers/depositController";
+import {
+  proposeLeaseRenewal,
+  getLeaseRenewals,
+  acceptLeaseRenewal,
+  declineLeaseRenewal,
+  withdrawLeaseRenewal,
+} from "../controllers/renewalController";
 import { authenticateUser } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import Joi from "joi";
@@ -23,6 +41,19 @@ const createLeaseSchema = Joi.object({
   securityDeposit: Joi.number().min(0).optional(),
   moveInDate: Joi.date().iso().optional(),
   notes: Joi.string().max(1000).optional(),
+  endOfTermPolicy: Joi.string().valid("expire", "month_to_month").optional(),
+});
+
+const endOfTermPolicySchema = Joi.object({
+  endOfTermPolicy: Joi.string().valid("expire", "month_to_month").required(),
+});
+
+const runStatusUpdatesSchema = Joi.object({
+  asOf: Joi.date().iso().optional(),
+});
+
+const generateAgreementSchema = Joi.object({
+  templateId: Joi.string().uuid().optional(), // Defaults to the landlord's default template
 });
 
 const terminateLeaseSchema = Joi.object({
@@ -30,6 +61,45 @@ const terminateLeaseSchema = Joi.object({
   moveOutDate: Joi.date().iso().optional(),
 });
 
+const depositPaymentSchema = Joi.object({
+  amount: Joi.number().positive().required(),
+  paymentDate: Joi.date().iso().optional(),
+  reference: Joi.string().max(100).optional(),
+  notes: Joi.string().max(500).optional(),
+});
+
+const settleDepositSchema = Joi.object({
+  deductions: Joi.array()
+    .items(
+      Joi.object({
+        description: Joi.string().min(3).max(500).required(),
+        amount: Joi.number().positive().required(),
+        maintenanceRequestId: Joi.string().uuid().optional(),
+      })
+    )
+    .default([]),
+  refundMethod: Joi.string().max(50).optional(),
+  refundReference: Joi.string().max(100).optional(),
+  notes: Joi.string().max(1000).optional(),
+});
+
+const deferDepositSchema = Joi.object({
+  reason: Joi.string().min(3).max(500).required(),
+});
+
+const renewalOfferSchema = Joi.object({
+  startDate: Joi.date().iso().optional(), // Defaults to the current end date
+  endDate: Joi.date().iso().required(),
+  monthlyRent: Joi.number().positive().optional(),
+  escalationPercent: Joi.number().min(-50).max(100).optional(),
+  respondBy: Joi.date().iso().optional(),
+  message: Joi.string().max(1000).optional(),
+}).oxor("monthlyRent", "escalationPercent");
+
+const declineRenewalSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
 // Routes
 
 /**
@@ -53,6 +123,18 @@ router.get("/", authenticateUser, getAllLeases);
  */
 router.get("/stats", authenticateUser, getLeaseStats);
 
+/**
+ * @route POST /api/leases/status/run
+ * @desc Start and end the landlord's leases whose dates have come, now
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/status/run",
+  authenticateUser,
+  validate(runStatusUpdatesSchema),
+  runLeaseStatusUpdatesNow
+);
+
 /**
  * @route GET /api/leases/tenant/current
  * @desc Get current lease for a tenant
@@ -79,4 +161,138 @@ router.put(
   terminateLease
 );
 
+/**
+ * @route PUT /api/leases/:id/end-of-term-policy
+ * @desc Choose whether a lease expires or rolls over month-to-month
+ * @access Private (Landlord only)
+ */
+router.put(
+  "/:id/end-of-term-policy",
+  authenticateUser,
+  validate(endOfTermPolicySchema),
+  updateEndOfTermPolicy
+);
+
+/**
+ * @route GET /api/leases/:id/status-history
+ * @desc Get the status history of a lease
+ * @access Private (Landlord or the lease's tenant)
+ */
+router.get("/:id/status-history", authenticateUser, getLeaseStatusHistory);
+
+/**
+ * @route POST /api/leases/:id/agreement
+ * @desc Generate the tenancy agreement PDF from a template
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/:id/agreement",
+  authenticateUser,
+  validate(generateAgreementSchema),
+  generateAgreement
+);
+
+/**
+ * @route GET /api/leases/:id/agreement
+ * @desc Download the tenancy agreement PDF
+ * @access Private (Landlord or the lease's tenant)
+ */
+router.get("/:id/agreement", authenticateUser, downloadAgreement);
+
+/**
+ * @route GET /api/leases/:id/deposit
+ * @desc Get the security deposit for a lease
+ * @access Private (Landlord or the lease's tenant)
+ */
+router.get("/:id/deposit", authenticateUser, getLeaseDeposit);
+
+/**
+ * @route POST /api/leases/:id/deposit/payments
+ * @desc Record a security deposit payment
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/:id/deposit/payments",
+  authenticateUser,
+  validate(depositPaymentSchema),
+  recordDepositPayment
+);
+
+/**
+ * @route POST /api/leases/:id/deposit/settle
+ * @desc Settle a security deposit with itemised deductions
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/:id/deposit/settle",
+  authenticateUser,
+  validate(settleDepositSchema),
+  settleLeaseDeposit
+);
+
+/**
+ * @route POST /api/leases/:id/deposit/defer
+ * @desc Defer security deposit settlement until after termination
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/:id/deposit/defer",
+  authenticateUser,
+  validate(deferDepositSchema),
+  deferLeaseDeposit
+);
+
+/**
+ * @route POST /api/leases/:id/renewals
+ * @desc Offer the tenant a renewal (new dates, rent or escalation percentage)
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/:id/renewals",
+  authenticateUser,
+  validate(renewalOfferSchema),
+  proposeLeaseRenewal
+);
+
+/**
+ * @route GET /api/leases/:id/renewals
+ * @desc List renewal offers made on a lease
+ * @access Private (Landlord or the lease's tenant)
+ */
+router.get("/:id/renewals", authenticateUser, getLeaseRenewals);
+
+/**
+ * @route POST /api/leases/renewals/:renewalId/accept
+ * @desc Accept a renewal offer
+ * @access Private (Tenant only)
+ */
+router.post(
+  "/renewals/:renewalId/accept",
+  authenticateUser,
+  acceptLeaseRenewal
+);
+
+/**
+ * @route POST /api/leases/renewals/:renewalId/decline
+ * @desc Decline a renewal offer
+ * @access Private (Tenant only)
+ */
+router.post(
+  "/renewals/:renewalId/decline",
+  authenticateUser,
+  validate(declineRenewalSchema),
+  declineLeaseRenewal
+);
+
+/**
+ * @route POST /api/leases/renewals/:renewalId/withdraw
+ * @desc Withdraw a pending renewal offer
+ * @access Private (Landlord only)
+ */
+router.post(
+  "/renewals/:renewalId/withdraw",
+  authenticateUser,
+  withdrawLeaseRenewal
+);
+
 export default router;
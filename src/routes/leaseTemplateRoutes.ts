@@ -0,0 +1,77 @@
+import { Router } from "express";
+import {
+  getLeaseTemplates,
+  getTemplatePlaceholders,
+  createLeaseTemplate,
+  updateLeaseTemplate,
+  deleteLeaseTemplate,
+} from "../controllers/leaseTemplateController";
+import { authenticateUser } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import Joi from "joi";
+
+const router = Router();
+
+// Lease template validation schemas
+const leaseTemplateValidation = {
+  create: Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    title: Joi.string().min(2).max(200).required(),
+    body: Joi.string().min(10).max(50000).required(),
+    isDefault: Joi.boolean().default(false),
+  }),
+
+  update: Joi.object({
+    name: Joi.string().min(2).max(100).optional(),
+    title: Joi.string().min(2).max(200).optional(),
+    body: Joi.string().min(10).max(50000).optional(),
+    isDefault: Joi.boolean().optional(),
+  }).min(1),
+};
+
+/**
+ * @route   GET /api/lease-templates
+ * @desc    Get the landlord's lease agreement templates
+ * @access  Private (Landlord only)
+ */
+router.get("/", authenticateUser, getLeaseTemplates);
+
+/**
+ * @route   GET /api/lease-templates/placeholders
+ * @desc    List the placeholders templates can use
+ * @access  Private (Landlord only)
+ */
+router.get("/placeholders", authenticateUser, getTemplatePlaceholders);
+
+/**
+ * @route   POST /api/lease-templates
+ * @desc    Create a lease agreement template
+ * @access  Private (Landlord only)
+ */
+router.post(
+  "/",
+  authenticateUser,
+  validate(leaseTemplateValidation.create),
+  createLeaseTemplate
+);
+
+/**
+ * @route   PUT /api/lease-templates/:id
+ * @desc    Update a lease agreement template
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.put(
+  "/:id",
+  authenticateUser,
+  validate(leaseTemplateValidation.update),
+  updateLeaseTemplate
+);
+
+/**
+ * @route   DELETE /api/lease-templates/:id
+ * @desc    Delete a lease agreement template
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.delete("/:id", authenticateUser, deleteLeaseTemplate);
+
+export default router;
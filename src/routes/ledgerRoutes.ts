@@ -0,0 +1,49 @@
+import { Router } from "express";
+import {
+  getLeaseLedger,
+  getTenantLedger,
+  createLedgerAdjustment,
+} from "../controllers/ledgerController";
+import { authenticateUser } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import Joi from "joi";
+
+const router = Router();
+
+// Ledger validation schemas
+const ledgerValidation = {
+  adjustment: Joi.object({
+    type: Joi.string().valid("credit", "adjustment").required(),
+    amount: Joi.number().invalid(0).required(),
+    description: Joi.string().max(500).required(),
+    effectiveDate: Joi.date().iso().optional(),
+  }),
+};
+
+/**
+ * @route   GET /api/ledger/lease/:leaseId
+ * @desc    Get a lease statement (?startDate, ?endDate, ?format=json|csv|pdf)
+ * @access  Private (Landlord/Tenant - access permissions verified in controller)
+ */
+router.get("/lease/:leaseId", authenticateUser, getLeaseLedger);
+
+/**
+ * @route   POST /api/ledger/lease/:leaseId/adjustments
+ * @desc    Record a credit or adjustment on a lease
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.post(
+  "/lease/:leaseId/adjustments",
+  authenticateUser,
+  validate(ledgerValidation.adjustment),
+  createLedgerAdjustment
+);
+
+/**
+ * @route   GET /api/ledger/tenant/:tenantId
+ * @desc    Get a tenant statement across leases (?startDate, ?endDate, ?unitId, ?format)
+ * @access  Private (Landlord/Tenant - tenants may only view their own)
+ */
+router.get("/tenant/:tenantId", authenticateUser, getTenantLedger);
+
+export default router;
@@ -5,8 +5,18 @@ import {
   getPaymentById,
   updatePaymentStatus,
   getPaymentStats,
+  queryPaymentStatus,
   handleMpesaCallback,
+  downloadPaymentReceipt,
 } from "../controllers/paymentController";
+import {
+  registerC2BUrls,
+  handleC2BValidation,
+  handleC2BConfirmation,
+  getUnmatchedPayments,
+  assignUnmatchedPayment,
+  dismissUnmatchedPayment,
+} from "../controllers/mpesaC2BController";
 import { authenticateUser } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import Joi from "joi";
@@ -35,6 +45,19 @@ const paymentValidation = {
     notes: Joi.string().optional().allow(""),
     receiptUrl: Joi.string().uri().optional().allow(""),
   }),
+
+  registerC2B: Joi.object({
+    responseType: Joi.string().valid("Completed", "Cancelled").optional(),
+  }),
+
+  assignUnmatched: Joi.object({
+    leaseId: Joi.string().uuid().required(),
+    notes: Joi.string().optional().allow(""),
+  }),
+
+  dismissUnmatched: Joi.object({
+    reason: Joi.string().max(500).optional().allow(""),
+  }),
 };
 
 /**
@@ -63,6 +86,37 @@ router.get("/", authenticateUser, getAllPayments);
  */
 router.get("/stats", authenticateUser, getPaymentStats);
 
+/**
+ * @route   GET /api/payments/unmatched
+ * @desc    Get paybill payments that could not be matched to a lease
+ * @access  Private (Landlord only)
+ */
+router.get("/unmatched", authenticateUser, getUnmatchedPayments);
+
+/**
+ * @route   POST /api/payments/unmatched/:id/assign
+ * @desc    Assign an unmatched paybill payment to a lease
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.post(
+  "/unmatched/:id/assign",
+  authenticateUser,
+  validate(paymentValidation.assignUnmatched),
+  assignUnmatchedPayment
+);
+
+/**
+ * @route   POST /api/payments/unmatched/:id/dismiss
+ * @desc    Dismiss an unmatched paybill payment
+ * @access  Private (Landlord only - ownership verified in controller)
+ */
+router.post(
+  "/unmatched/:id/dismiss",
+  authenticateUser,
+  validate(paymentValidation.dismissUnmatched),
+  dismissUnmatchedPayment
+);
+
 /**
  * @route   GET /api/payments/:id
  * @desc    Get a specific payment by ID
@@ -70,6 +124,13 @@ router.get("/stats", authenticateUser, getPaymentStats);
  */
 router.get("/:id", authenticateUser, getPaymentById);
 
+/**
+ * @route   GET /api/payments/:id/receipt
+ * @desc    Download the PDF receipt for a successful payment
+ * @access  Private (Landlord/Tenant - access permissions verified in controller)
+ */
+router.get("/:id/receipt", authenticateUser, downloadPaymentReceipt);
+
 /**
  * @route   PUT /api/payments/:id
  * @desc    Update payment status
@@ -82,6 +143,13 @@ router.put(
   updatePaymentStatus
 );
 
+/**
+ * @route   POST /api/payments/:id/query-status
+ * @desc    Re-check a pending M-Pesa payment with Safaricom
+ * @access  Private (Landlord/Tenant - access permissions verified in controller)
+ */
+router.post("/:id/query-status", authenticateUser, queryPaymentStatus);
+
 /**
  * @route   POST /api/payments/mpesa/callback
  * @desc    Handle M-Pesa payment callback
@@ -89,4 +157,30 @@ router.put(
  */
 router.post("/mpesa/callback", handleMpesaCallback);
 
+/**
+ * @route   POST /api/payments/mpesa/c2b/register
+ * @desc    Register C2B validation/confirmation URLs for the landlord's paybill
+ * @access  Private (Landlord only)
+ */
+router.post(
+  "/mpesa/c2b/register",
+  authenticateUser,
+  validate(paymentValidation.registerC2B),
+  registerC2BUrls
+);
+
+/**
+ * @route   POST /api/payments/mpesa/c2b/:token/validation
+ * @desc    Validate an incoming paybill payment
+ * @access  Public (M-Pesa service - landlord's callback token verified in controller)
+ */
+router.post("/mpesa/c2b/:token/validation", handleC2BValidation);
+
+/**
+ * @route   POST /api/payments/mpesa/c2b/:token/confirmation
+ * @desc    Record a completed paybill payment
+ * @access  Public (M-Pesa service - landlord's callback token verified in controller)
+ */
+router.post("/mpesa/c2b/:token/confirmation", handleC2BConfirmation);
+
 export default router;
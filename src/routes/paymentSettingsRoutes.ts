@@ -0,0 +1,72 @@
+import { Router } from "express";
+import {
+  getPaymentSettings,
+  setPaymentSettings,
+  testPaymentSettings,
+  rotatePaymentCredentials,
+} from "../controllers/paymentSettingsController";
+import { authenticateUser } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import Joi from "joi";
+
+const router = Router();
+
+// Payment settings validation schemas
+const paymentSettingsValidation = {
+  set: Joi.object({
+    businessName: Joi.string().max(255).optional().allow(""),
+    mpesaShortCode: Joi.string()
+      .pattern(/^\d{5,7}$/)
+      .required(),
+    mpesaConsumerKey: Joi.string().required(),
+    mpesaConsumerSecret: Joi.string().required(),
+    mpesaPasskey: Joi.string().required(),
+    mpesaEnv: Joi.string().valid("sandbox", "production").default("sandbox"),
+  }),
+
+  rotate: Joi.object({
+    mpesaConsumerKey: Joi.string().optional(),
+    mpesaConsumerSecret: Joi.string().optional(),
+    mpesaPasskey: Joi.string().optional(),
+  }).or("mpesaConsumerKey", "mpesaConsumerSecret", "mpesaPasskey"),
+};
+
+/**
+ * @route   GET /api/payment-settings
+ * @desc    Get M-Pesa payment settings for the authenticated landlord
+ * @access  Private (Landlord only)
+ */
+router.get("/", authenticateUser, getPaymentSettings);
+
+/**
+ * @route   PUT /api/payment-settings
+ * @desc    Set M-Pesa paybill credentials (stored encrypted)
+ * @access  Private (Landlord only)
+ */
+router.put(
+  "/",
+  authenticateUser,
+  validate(paymentSettingsValidation.set),
+  setPaymentSettings
+);
+
+/**
+ * @route   POST /api/payment-settings/test
+ * @desc    Verify the stored credentials with Safaricom
+ * @access  Private (Landlord only)
+ */
+router.post("/test", authenticateUser, testPaymentSettings);
+
+/**
+ * @route   POST /api/payment-settings/rotate
+ * @desc    Rotate M-Pesa credentials after verifying the new ones
+ * @access  Private (Landlord only)
+ */
+router.post(
+  "/rotate",
+  authenticateUser,
+  validate(paymentSettingsValidation.rotate),
+  rotatePaymentCredentials
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  getRentRoll,
+  getArrearsAging,
+  getIncomeStatement,
+} from "../controllers/reportController";
+import { authenticateUser } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * @route   GET /api/reports/rent-roll
+ * @desc    Get the rent roll (?propertyId, ?format=json|csv|xlsx|pdf)
+ * @access  Private (Landlord only)
+ */
+router.get("/rent-roll", authenticateUser, getRentRoll);
+
+/**
+ * @route   GET /api/reports/arrears-aging
+ * @desc    Get arrears aged into current/30/60/90+ buckets (?propertyId, ?format)
+ * @access  Private (Landlord only)
+ */
+router.get("/arrears-aging", authenticateUser, getArrearsAging);
+
+/**
+ * @route   GET /api/reports/income-statement
+ * @desc    Get rent income minus expenses per property (?propertyId, ?startDate, ?endDate, ?format)
+ * @access  Private (Landlord only)
+ */
+router.get("/income-statement", authenticateUser, getIncomeStatement);
+
+export default router;
@@ -6,6 +6,12 @@ import {
   updateTenant,
   assignTenantToUnit,
   removeTenantFromUnit,
+  resetTenantPassword,
+  removeTenant,
+  getTenantInvitations,
+  acceptTenantInvitation,
+  declineTenantInvitation,
+  cancelTenantInvitation,
 } from "../controllers/tenantController";
 import { authenticateUser } from "../middleware/auth";
 import { validate, userSchema } from "../middleware/validation";
@@ -19,11 +25,26 @@ const tenantValidation = {
     firstName: Joi.string().required().min(2).max(50),
     lastName: Joi.string().required().min(2).max(50),
     email: Joi.string().email().required(),
-    password: Joi.string().required().min(6).max(100),
     phone: Joi.string().optional().allow(""),
     emergencyContactName: Joi.string().optional().allow(""),
     emergencyContactPhone: Joi.string().optional().allow(""),
     unitId: Joi.string().uuid().optional(),
+    // Lease terms, required when a unit is assigned
+    lease: Joi.object({
+      startDate: Joi.date().iso().required(),
+      endDate: Joi.date().iso().greater(Joi.ref("startDate")).required(),
+      monthlyRent: Joi.number().positive().optional(),
+      securityDeposit: Joi.number().min(0).optional(),
+      moveInDate: Joi.date().iso().optional(),
+      notes: Joi.string().max(1000).optional(),
+      endOfTermPolicy: Joi.string()
+        .valid("expire", "month_to_month")
+        .optional(),
+    }).when("unitId", {
+      is: Joi.exist(),
+      then: Joi.required(),
+      otherwise: Joi.forbidden(),
+    }),
   }),
 
   update: Joi.object({
@@ -39,10 +60,23 @@ const tenantValidation = {
 
   assignUnit: Joi.object({
     unitId: Joi.string().uuid().required(),
+    startDate: Joi.date().iso().required(),
+    endDate: Joi.date().iso().greater(Joi.ref("startDate")).required(),
+    monthlyRent: Joi.number().positive().optional(), // Defaults to the unit's rent
+    securityDeposit: Joi.number().min(0).optional(),
+    moveInDate: Joi.date().iso().optional(),
+    notes: Joi.string().max(1000).optional(),
+    endOfTermPolicy: Joi.string().valid("expire", "month_to_month").optional(),
   }),
 
   removeUnit: Joi.object({
     unitId: Joi.string().uuid().required(),
+    terminationReason: Joi.string().max(500).optional(),
+    moveOutDate: Joi.date().iso().optional(),
+  }),
+
+  resetPassword: Joi.object({
+    newPassword: Joi.string().required().min(6).max(100),
   }),
 };
 
@@ -65,6 +99,42 @@ router.post(
  */
 router.get("/", authenticateUser, getAllTenants);
 
+/**
+ * @route   GET /api/tenants/invitations
+ * @desc    Get pending invitations received (tenant) or sent (landlord)
+ * @access  Private (Tenant or Landlord)
+ */
+router.get("/invitations", authenticateUser, getTenantInvitations);
+
+/**
+ * @route   POST /api/tenants/invitations/:id/accept
+ * @desc    Accept a landlord's invitation
+ * @access  Private (Tenant only - invitation ownership verified in controller)
+ */
+router.post(
+  "/invitations/:id/accept",
+  authenticateUser,
+  acceptTenantInvitation
+);
+
+/**
+ * @route   POST /api/tenants/invitations/:id/decline
+ * @desc    Decline a landlord's invitation
+ * @access  Private (Tenant only - invitation ownership verified in controller)
+ */
+router.post(
+  "/invitations/:id/decline",
+  authenticateUser,
+  declineTenantInvitation
+);
+
+/**
+ * @route   DELETE /api/tenants/invitations/:id
+ * @desc    Withdraw an invitation the tenant has not responded to
+ * @access  Private (Landlord only - invitation ownership verified in controller)
+ */
+router.delete("/invitations/:id", authenticateUser, cancelTenantInvitation);
+
 /**
  * @route   GET /api/tenants/:id
  * @desc    Get a specific tenant by ID
@@ -86,7 +156,7 @@ router.put(
 
 /**
  * @route   POST /api/tenants/:id/assign-unit
- * @desc    Assign a tenant to a unit
+ * @desc    Assign a tenant to a unit by starting a lease
  * @access  Private (Landlord only - unit ownership verified in controller)
  */
 router.post(
@@ -98,7 +168,7 @@ router.post(
 
 /**
  * @route   POST /api/tenants/:id/remove-unit
- * @desc    Remove a tenant from a unit
+ * @desc    Remove a tenant from a unit by terminating their lease
  * @access  Private (Landlord only - unit ownership verified in controller)
  */
 router.post(
@@ -108,4 +178,23 @@ router.post(
   removeTenantFromUnit
 );
 
+/**
+ * @route   POST /api/tenants/:id/reset-password
+ * @desc    Set a new password for a current tenant (must be changed at next login)
+ * @access  Private (Landlord only - tenant association verified in controller)
+ */
+router.post(
+  "/:id/reset-password",
+  authenticateUser,
+  validate(tenantValidation.resetPassword),
+  resetTenantPassword
+);
+
+/**
+ * @route   DELETE /api/tenants/:id
+ * @desc    End the landlord's relationship with a tenant
+ * @access  Private (Landlord only - tenant association verified in controller)
+ */
+router.delete("/:id", authenticateUser, removeTenant);
+
 export default router;
@@ -7,6 +7,7 @@ import {
   deleteUser,
   reactivateUser,
   resetUserPassword,
+  forceLogoutUser,
   getUserStats,
 } from "../controllers/userController";
 import { authenticateUser, adminOnly } from "../middleware/auth";
@@ -90,4 +91,11 @@ router.post(
   resetUserPassword
 );
 
+/**
+ * @route   POST /api/users/:id/force-logout
+ * @desc    Revoke all of a user's sessions (Admin only)
+ * @access  Private (Admin)
+ */
+router.post("/:id/force-logout", authenticateUser, adminOnly, forceLogoutUser);
+
 export default router;
@@ -491,7 +491,7 @@ export const SECURITY_FEATURES = {
     method: "TOTP (Time-based One-Time Password)",
     provider: "speakeasy library",
     qrCode: "Generated for easy setup",
-    backupCodes: "8 backup codes generated (future feature)",
+    backupCodes: "10 one-time backup codes, stored hashed, regenerable",
   },
   ACCOUNT_LOCKOUT: {
     maxAttempts: 5,
@@ -0,0 +1,447 @@
+import { Op } from "sequelize";
+import sequelize, { DB_TIMEZONE } from "../config/database";
+import {
+  Invoice,
+  Lease,
+  MaintenanceRequest,
+  Payment,
+  Property,
+  Unit,
+} from "../models";
+import { ApiError } from "../middleware/errorHandler";
+import { DateRange } from "../utils/filters";
+import { fromLocal, toLocal } from "../utils/timezone";
+
+export type AnalyticsInterval = "day" | "week" | "month" | "quarter" | "year";
+
+export type AnalyticsMetric =
+  "revenue" | "billing" | "occupancy" | "leases" | "maintenance";
+
+export const ANALYTICS_INTERVALS: AnalyticsInterval[] = [
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+];
+
+export const ANALYTICS_METRICS: AnalyticsMetric[] = [
+  "revenue",
+  "billing",
+  "occupancy",
+  "leases",
+  "maintenance",
+];
+
+export interface AnalyticsScope {
+  landlordId: string;
+  propertyId?: string;
+  unitId?: string;
+}
+
+export interface AnalyticsBucket {
+  period: string; // e.g. 2025-03-14, 2025-03, 2025-Q1, 2025
+  start: Date;
+  end: Date; // Start of the next bucket
+  // revenue
+  revenue?: number; // Successful rent payments
+  payments?: number;
+  // billing
+  rentBilled?: number; // Rent invoices due in the bucket (not void)
+  rentCollected?: number; // Paid so far on those invoices
+  collectionRate?: number;
+  // occupancy (at the end of the bucket, or now for the current one)
+  occupiedUnits?: number;
+  totalUnits?: number;
+  occupancyRate?: number;
+  // leases
+  newLeases?: number;
+  renewedLeases?: number;
+  endedLeases?: number; // Expired or terminated without a renewal
+  // maintenance
+  maintenanceRequests?: number;
+}
+
+export interface AnalyticsSeries {
+  interval: AnalyticsInterval;
+  timezone: string;
+  startDate: Date;
+  endDate: Date;
+  metrics: AnalyticsMetric[];
+  series: AnalyticsBucket[];
+}
+
+const MAX_BUCKETS = 400;
+
+// Buckets shown when no start date is given
+const DEFAULT_BUCKETS: Record<AnalyticsInterval, number> = {
+  day: 30,
+  week: 12,
+  month: 12,
+  quarter: 8,
+  year: 5,
+};
+
+/**
+ * Start of the bucket containing a date. Weeks start on Monday, as with
+ * PostgreSQL's date_trunc.
+ */
+const bucketStart = (date: Date, interval: AnalyticsInterval): Date => {
+  const local = toLocal(date);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  switch (interval) {
+    case "week":
+      return fromLocal(year, month, day - ((local.getUTCDay() + 6) % 7));
+    case "month":
+      return fromLocal(year, month, 1);
+    case "quarter":
+      return fromLocal(year, month - (month % 3), 1);
+    case "year":
+      return fromLocal(year, 0, 1);
+    default:
+      return fromLocal(year, month, day);
+  }
+};
+
+/**
+ * Move a bucket start by a number of buckets
+ */
+const shiftBucket = (
+  start: Date,
+  interval: AnalyticsInterval,
+  count: number
+): Date => {
+  const local = toLocal(start);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  switch (interval) {
+    case "week":
+      return fromLocal(year, month, day + 7 * count);
+    case "month":
+      return fromLocal(year, month + count, day);
+    case "quarter":
+      return fromLocal(year, month + 3 * count, day);
+    case "year":
+      return fromLocal(year + count, month, day);
+    default:
+      return fromLocal(year, month, day + count);
+  }
+};
+
+// Same format as the SQL bucket expression below
+const bucketKey = (start: Date): string =>
+  toLocal(start).toISOString().slice(0, 10);
+
+const bucketLabel = (start: Date, interval: AnalyticsInterval): string => {
+  const key = bucketKey(start);
+
+  switch (interval) {
+    case "month":
+      return key.slice(0, 7);
+    case "quarter":
+      return `${key.slice(0, 4)}-Q${
+        Math.floor(toLocal(start).getUTCMonth() / 3) + 1
+      }`;
+    case "year":
+      return key.slice(0, 4);
+    default:
+      return key;
+  }
+};
+
+/**
+ * SQL for the local start date (YYYY-MM-DD) of the bucket a timestamp
+ * column falls in. Column and interval come from fixed lists.
+ */
+const sqlBucket = (column: string, interval: AnalyticsInterval) =>
+  sequelize.fn(
+    "to_char",
+    sequelize.fn(
+      "date_trunc",
+      interval,
+      sequelize.literal(`"${column}" AT TIME ZONE INTERVAL '${DB_TIMEZONE}'`)
+    ),
+    "YYYY-MM-DD"
+  );
+
+/**
+ * Count rows (and optionally sum columns) per bucket of a date column
+ */
+const aggregateByBucket = async (
+  model: any,
+  column: string,
+  where: any,
+  interval: AnalyticsInterval,
+  sumColumns: string[] = []
+): Promise<Map<string, Record<string, number>>> => {
+  const rows = (await model.findAll({
+    where,
+    attributes: [
+      [sqlBucket(column, interval), "bucket"],
+      [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+      ...sumColumns.map((sumColumn) => [
+        sequelize.fn("SUM", sequelize.col(sumColumn)),
+        sumColumn,
+      ]),
+    ],
+    group: ["bucket"],
+    raw: true,
+  })) as any[];
+
+  return new Map(
+    rows.map((row) => {
+      const values: Record<string, number> = { count: Number(row.count) };
+      sumColumns.forEach((sumColumn) => {
+        values[sumColumn] = Number(row[sumColumn]) || 0;
+      });
+      return [row.bucket, values];
+    })
+  );
+};
+
+/**
+ * Units covered by the scope, with when they were added
+ */
+const getScopeUnits = async (scope: AnalyticsScope): Promise<Unit[]> => {
+  const propertyWhere: any = { landlordId: scope.landlordId };
+  if (scope.propertyId) propertyWhere.id = scope.propertyId;
+
+  const units = await Unit.findAll({
+    where: scope.unitId ? { id: scope.unitId } : {},
+    attributes: ["id", "createdAt"],
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: propertyWhere,
+        attributes: [],
+      },
+    ],
+  });
+
+  if (units.length === 0 && (scope.propertyId || scope.unitId)) {
+    throw new ApiError(
+      `${scope.unitId ? "Unit" : "Property"} not found or access denied.`,
+      404
+    );
+  }
+
+  return units;
+};
+
+/**
+ * When a lease stopped occupying its unit; null while it still does
+ */
+const leaseEnd = (lease: Lease): Date | null => {
+  if (lease.status === "terminated") {
+    return new Date(lease.moveOutDate || lease.updatedAt);
+  }
+  if (lease.status === "expired") {
+    return new Date(lease.endDate);
+  }
+  return null;
+};
+
+/**
+ * Bucketed revenue, billing, occupancy, lease and maintenance series for a
+ * landlord, one of their properties or one unit
+ */
+export const getAnalyticsSeries = async (
+  scope: AnalyticsScope,
+  options: {
+    interval: AnalyticsInterval;
+    metrics?: AnalyticsMetric[];
+    range?: DateRange;
+  }
+): Promise<AnalyticsSeries> => {
+  const { interval } = options;
+  const metrics =
+    options.metrics && options.metrics.length > 0
+      ? options.metrics
+      : ANALYTICS_METRICS;
+  const now = new Date();
+  const endDate = options.range?.end || now;
+  const startDate =
+    options.range?.start ||
+    shiftBucket(
+      bucketStart(endDate, interval),
+      interval,
+      -(DEFAULT_BUCKETS[interval] - 1)
+    );
+
+  if (startDate > endDate) {
+    throw new ApiError("startDate must be before endDate.", 400);
+  }
+
+  const series: AnalyticsBucket[] = [];
+  for (
+    let start = bucketStart(startDate, interval);
+    start <= endDate;
+    start = shiftBucket(start, interval, 1)
+  ) {
+    if (series.length >= MAX_BUCKETS) {
+      throw new ApiError(
+        `Too many ${interval} buckets; use a shorter range or a longer interval (max ${MAX_BUCKETS}).`,
+        400
+      );
+    }
+    series.push({
+      period: bucketLabel(start, interval),
+      start,
+      end: shiftBucket(start, interval, 1),
+    });
+  }
+
+  const units = await getScopeUnits(scope);
+  const unitIds = units.map((unit) => unit.id);
+  const inRange = { [Op.between]: [startDate, endDate] };
+
+  if (metrics.includes("revenue")) {
+    const totals = await aggregateByBucket(
+      Payment,
+      "payment_date",
+      {
+        unitId: { [Op.in]: unitIds },
+        status: "successful",
+        // Security deposits are held, not earned
+        purpose: "rent",
+        paymentDate: inRange,
+      },
+      interval,
+      ["amount"]
+    );
+    series.forEach((bucket) => {
+      const values = totals.get(bucketKey(bucket.start));
+      bucket.revenue = values?.amount || 0;
+      bucket.payments = values?.count || 0;
+    });
+  }
+
+  if (metrics.includes("billing")) {
+    const totals = await aggregateByBucket(
+      Invoice,
+      "due_date",
+      {
+        unitId: { [Op.in]: unitIds },
+        type: "rent",
+        status: { [Op.ne]: "void" },
+        dueDate: inRange,
+      },
+      interval,
+      ["amount", "amount_paid"]
+    );
+    series.forEach((bucket) => {
+      const values = totals.get(bucketKey(bucket.start));
+      bucket.rentBilled = values?.amount || 0;
+      bucket.rentCollected = values?.amount_paid || 0;
+      bucket.collectionRate =
+        bucket.rentBilled > 0
+          ? Math.round((bucket.rentCollected / bucket.rentBilled) * 100)
+          : 0;
+    });
+  }
+
+  if (metrics.includes("occupancy") || metrics.includes("leases")) {
+    const leases = await Lease.findAll({
+      where: {
+        unitId: { [Op.in]: unitIds },
+        startDate: { [Op.lte]: endDate },
+      },
+      attributes: [
+        "id",
+        "unitId",
+        "status",
+        "startDate",
+        "endDate",
+        "moveOutDate",
+        "previousLeaseId",
+        "updatedAt",
+      ],
+    });
+
+    // A lease that never started occupied nothing
+    const startedLeases = leases.filter((lease) => {
+      const end = leaseEnd(lease);
+      return (
+        lease.status !== "pending" && (!end || end > new Date(lease.startDate))
+      );
+    });
+    const renewedLeaseIds = new Set(
+      leases.map((lease) => lease.previousLeaseId).filter(Boolean)
+    );
+
+    series.forEach((bucket) => {
+      if (metrics.includes("occupancy")) {
+        const point = bucket.end < now ? bucket.end : now;
+        const occupied = new Set(
+          startedLeases
+            .filter((lease) => {
+              const end = leaseEnd(lease);
+              return (
+                new Date(lease.startDate) < point && (!end || end >= point)
+              );
+            })
+            .map((lease) => lease.unitId)
+        );
+        const totalUnits = units.filter(
+          (unit) => new Date(unit.createdAt) < point
+        ).length;
+
+        bucket.occupiedUnits = occupied.size;
+        bucket.totalUnits = totalUnits;
+        bucket.occupancyRate =
+          totalUnits > 0 ? Math.round((occupied.size / totalUnits) * 100) : 0;
+      }
+
+      if (metrics.includes("leases")) {
+        const inBucket = (date: Date | null) =>
+          !!date &&
+          date >= bucket.start &&
+          date < bucket.end &&
+          date >= startDate &&
+          date <= endDate;
+
+        const started = startedLeases.filter((lease) =>
+          inBucket(new Date(lease.startDate))
+        );
+        bucket.newLeases = started.filter(
+          (lease) => !lease.previousLeaseId
+        ).length;
+        bucket.renewedLeases = started.length - bucket.newLeases;
+        bucket.endedLeases = startedLeases.filter(
+          (lease) => !renewedLeaseIds.has(lease.id) && inBucket(leaseEnd(lease))
+        ).length;
+      }
+    });
+  }
+
+  if (metrics.includes("maintenance")) {
+    const totals = await aggregateByBucket(
+      MaintenanceRequest,
+      "created_at",
+      {
+        unitId: { [Op.in]: unitIds },
+        createdAt: inRange,
+      },
+      interval
+    );
+    series.forEach((bucket) => {
+      bucket.maintenanceRequests =
+        totals.get(bucketKey(bucket.start))?.count || 0;
+    });
+  }
+
+  return {
+    interval,
+    timezone: DB_TIMEZONE,
+    startDate,
+    endDate,
+    metrics,
+    series,
+  };
+};
@@ -0,0 +1,65 @@
+import logger from "../config/logger";
+import { generateInvoices } from "./invoiceService";
+import { applyLateFees } from "./lateFeeService";
+import { processLeaseRenewals } from "./leaseRenewalService";
+import { runLeaseStatusTransitions } from "./leaseStatusService";
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let schedulerRunning = false;
+
+/**
+ * Run one billing cycle: start and end leases whose dates have come,
+ * process renewals, issue due rent invoices, flag overdue ones and charge
+ * late fees on them
+ */
+export const runBillingCycle = async (): Promise<void> => {
+  // Lease statuses first so a lease that just started (or a renewal that
+  // just took over) is invoiced this cycle and an expired one is not
+  await runLeaseStatusTransitions();
+  await processLeaseRenewals();
+  await generateInvoices();
+  await applyLateFees();
+};
+
+/**
+ * Start the background billing scheduler
+ */
+export const startBillingScheduler = (
+  intervalMinutes: number = Number(
+    process.env.INVOICE_SCHEDULER_INTERVAL_MINUTES || 60
+  )
+): void => {
+  if (schedulerTimer || intervalMinutes <= 0) {
+    return;
+  }
+
+  const run = async () => {
+    // Skip this tick if the previous run is still going
+    if (schedulerRunning) return;
+    schedulerRunning = true;
+
+    try {
+      await runBillingCycle();
+    } catch (error) {
+      logger.error("Billing cycle failed:", error);
+    } finally {
+      schedulerRunning = false;
+    }
+  };
+
+  schedulerTimer = setInterval(run, intervalMinutes * 60 * 1000);
+  // Bill anything that fell due while the server was down
+  run();
+
+  logger.info(`Billing scheduler started (every ${intervalMinutes} minutes)`);
+};
+
+/**
+ * Stop the background billing scheduler
+ */
+export const stopBillingScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
@@ -0,0 +1,215 @@
+import { Op } from "sequelize";
+import {
+  LandlordTenant,
+  Lease,
+  MaintenanceRequest,
+  Payment,
+  Property,
+  Unit,
+  User,
+} from "../models";
+import { LandlordDashboardStats, TenantDashboardStats } from "../types";
+import { startOfLocalMonth } from "../utils/timezone";
+
+const RECENT_ACTIVITY_LIMIT = 5;
+const EXPIRING_LEASE_DAYS = 30;
+
+// Requests that still need the landlord's attention
+const OPEN_MAINTENANCE_STATUSES = ["pending", "in_progress"];
+
+export interface LandlordRecentActivity {
+  latestPayments: Payment[];
+  newMaintenanceRequests: MaintenanceRequest[];
+  expiringLeases: Lease[];
+}
+
+/**
+ * Headline figures for a landlord. Monthly revenue is the rent collected
+ * since the start of the current calendar month in the database timezone;
+ * security deposits are held, not earned, so they are left out.
+ */
+const getLandlordStats = async (
+  landlordId: string,
+  units: Unit[]
+): Promise<LandlordDashboardStats> => {
+  const unitIds = units.map((unit) => unit.id);
+  const occupiedUnits = units.filter(
+    (unit) => unit.status === "occupied"
+  ).length;
+
+  const [totalProperties, totalTenants, monthlyRevenue, pendingMaintenance] =
+    await Promise.all([
+      Property.count({ where: { landlordId } }),
+      LandlordTenant.count({ where: { landlordId, status: "active" } }),
+      Payment.sum("amount", {
+        where: {
+          unitId: { [Op.in]: unitIds },
+          status: "successful",
+          purpose: "rent",
+          paymentDate: { [Op.gte]: startOfLocalMonth(new Date()) },
+        },
+      }),
+      MaintenanceRequest.count({
+        where: {
+          unitId: { [Op.in]: unitIds },
+          status: { [Op.in]: OPEN_MAINTENANCE_STATUSES },
+        },
+      }),
+    ]);
+
+  return {
+    totalProperties,
+    totalTenants,
+    monthlyRevenue: Number(monthlyRevenue) || 0,
+    pendingMaintenance,
+    occupancyRate:
+      units.length > 0 ? Math.round((occupiedUnits / units.length) * 100) : 0,
+    totalUnits: units.length,
+    occupiedUnits,
+  };
+};
+
+/**
+ * Latest payments, new maintenance requests and leases ending soon across
+ * the given units
+ */
+const getLandlordRecentActivity = async (
+  landlordId: string,
+  unitIds: string[]
+): Promise<LandlordRecentActivity> => {
+  const unitInclude = {
+    model: Unit,
+    as: "unit",
+    attributes: ["id", "name"],
+    include: [{ model: Property, as: "property", attributes: ["id", "name"] }],
+  };
+  const tenantInclude = {
+    model: User,
+    as: "tenant",
+    attributes: ["id", "firstName", "lastName"],
+  };
+
+  const [latestPayments, newMaintenanceRequests, expiringLeases] =
+    await Promise.all([
+      Payment.findAll({
+        where: { unitId: { [Op.in]: unitIds } },
+        attributes: [
+          "id",
+          "amount",
+          "purpose",
+          "paymentDate",
+          "status",
+          "mpesaTransactionId",
+        ],
+        include: [tenantInclude, unitInclude],
+        order: [["paymentDate", "DESC"]],
+        limit: RECENT_ACTIVITY_LIMIT,
+      }),
+      MaintenanceRequest.findAll({
+        where: { unitId: { [Op.in]: unitIds }, status: "pending" },
+        attributes: [
+          "id",
+          "title",
+          "category",
+          "priority",
+          "status",
+          "createdAt",
+        ],
+        include: [tenantInclude, unitInclude],
+        order: [["createdAt", "DESC"]],
+        limit: RECENT_ACTIVITY_LIMIT,
+      }),
+      Lease.findAll({
+        where: {
+          landlordId,
+          status: "active",
+          endDate: {
+            [Op.lte]: new Date(
+              Date.now() + EXPIRING_LEASE_DAYS * 24 * 60 * 60 * 1000
+            ),
+          },
+        },
+        attributes: [
+          "id",
+          "startDate",
+          "endDate",
+          "monthlyRent",
+          "endOfTermPolicy",
+        ],
+        include: [tenantInclude, unitInclude],
+        order: [["endDate", "ASC"]],
+        limit: RECENT_ACTIVITY_LIMIT,
+      }),
+    ]);
+
+  return { latestPayments, newMaintenanceRequests, expiringLeases };
+};
+
+/**
+ * Everything the landlord dashboard shows
+ */
+export const getLandlordDashboardSummary = async (
+  landlordId: string
+): Promise<{
+  stats: LandlordDashboardStats;
+  recentActivity: LandlordRecentActivity;
+}> => {
+  const units = await Unit.findAll({
+    attributes: ["id", "status"],
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: { landlordId },
+        attributes: [],
+      },
+    ],
+  });
+
+  const [stats, recentActivity] = await Promise.all([
+    getLandlordStats(landlordId, units),
+    getLandlordRecentActivity(
+      landlordId,
+      units.map((unit) => unit.id)
+    ),
+  ]);
+
+  return { stats, recentActivity };
+};
+
+/**
+ * Headline figures for a tenant. A tenant renting more than one unit pays
+ * the rent of all their active leases; the lease end date is the soonest.
+ */
+export const getTenantDashboardStats = async (
+  tenantId: string
+): Promise<TenantDashboardStats> => {
+  const [activeLeases, lastPaymentDate, pendingMaintenance] = await Promise.all(
+    [
+      Lease.findAll({
+        where: { tenantId, status: "active" },
+        attributes: ["monthlyRent", "endDate"],
+        order: [["endDate", "ASC"]],
+      }),
+      Payment.max("paymentDate", {
+        where: { tenantId, status: "successful" },
+      }),
+      MaintenanceRequest.count({
+        where: {
+          tenantId,
+          status: { [Op.in]: OPEN_MAINTENANCE_STATUSES },
+        },
+      }),
+    ]
+  );
+
+  return {
+    currentRent: activeLeases.reduce(
+      (sum, lease) => sum + Number(lease.monthlyRent),
+      0
+    ),
+    lastPaymentDate: (lastPaymentDate as Date | null) || null,
+    pendingMaintenance,
+    leaseEndDate: activeLeases.length > 0 ? activeLeases[0].endDate : null,
+  };
+};
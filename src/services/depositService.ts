@@ -0,0 +1,275 @@
+import { Transaction } from "sequelize";
+import sequelize from "../config/database";
+import {
+  DepositDeduction,
+  Invoice,
+  Lease,
+  Property,
+  SecurityDeposit,
+  Unit,
+  User,
+} from "../models";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  generateInvoiceNumber,
+  reallocateLeasePayments,
+} from "./invoiceService";
+import { sendDepositSettlementEmail } from "./emailService";
+
+export interface DepositDeductionInput {
+  description: string;
+  amount: number;
+  maintenanceRequestId?: string;
+}
+
+export interface DepositSettlementInput {
+  deductions: DepositDeductionInput[];
+  refundMethod?: string;
+  refundReference?: string;
+  notes?: string;
+}
+
+const toCents = (value: number | string): number =>
+  Math.round(Number(value) * 100);
+
+/**
+ * The deposit held for a lease. Renewed leases carry over the deposit of
+ * the lease they replaced, so the renewal chain is followed back.
+ */
+export const findLeaseDeposit = async (
+  leaseId: string,
+  transaction?: Transaction
+): Promise<SecurityDeposit | null> => {
+  let currentLeaseId: string | undefined = leaseId;
+
+  while (currentLeaseId) {
+    const deposit = await SecurityDeposit.findOne({
+      where: { leaseId: currentLeaseId },
+      transaction,
+    });
+
+    if (deposit) {
+      return deposit;
+    }
+
+    const lease: Lease | null = await Lease.findByPk(currentLeaseId, {
+      attributes: ["id", "previousLeaseId"],
+      transaction,
+    });
+    currentLeaseId = lease?.previousLeaseId;
+  }
+
+  return null;
+};
+
+/**
+ * Raise the deposit charge for a new lease. Runs inside the lease creation
+ * transaction so a lease never exists without its deposit record.
+ */
+export const createDepositForLease = async (
+  lease: Lease,
+  transaction: Transaction
+): Promise<SecurityDeposit | null> => {
+  if (Number(lease.securityDeposit) <= 0) {
+    return null;
+  }
+
+  const issueDate = new Date();
+  const dueDate = new Date(lease.moveInDate || lease.startDate);
+
+  const invoice = await Invoice.create(
+    {
+      invoiceNumber: generateInvoiceNumber(issueDate),
+      leaseId: lease.id,
+      tenantId: lease.tenantId,
+      unitId: lease.unitId,
+      landlordId: lease.landlordId,
+      type: "deposit",
+      description: "Security deposit",
+      issueDate,
+      dueDate,
+      amount: lease.securityDeposit,
+    },
+    { transaction }
+  );
+
+  return SecurityDeposit.create(
+    {
+      leaseId: lease.id,
+      tenantId: lease.tenantId,
+      landlordId: lease.landlordId,
+      invoiceId: invoice.id,
+      amount: lease.securityDeposit,
+    },
+    { transaction }
+  );
+};
+
+/**
+ * Settle a deposit: record the deductions, fix the amount held and work out
+ * the refund (or the balance the tenant still owes). The unpaid part of the
+ * deposit charge is written off so it no longer counts as arrears.
+ */
+export const settleDeposit = async (
+  deposit: SecurityDeposit,
+  input: DepositSettlementInput,
+  settledBy: string
+): Promise<SecurityDeposit> => {
+  const transaction = await sequelize.transaction();
+  let settled: SecurityDeposit;
+
+  try {
+    // Re-read under a row lock so a repeated submission waits for this one
+    // and then finds the deposit already settled
+    const current = await SecurityDeposit.findByPk(deposit.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!current || current.status === "settled") {
+      throw new ApiError("This deposit has already been settled.", 409);
+    }
+    settled = current;
+
+    const invoice = settled.invoiceId
+      ? await Invoice.findByPk(settled.invoiceId, { transaction })
+      : null;
+
+    const heldCents =
+      invoice && invoice.status !== "void" ? toCents(invoice.amountPaid) : 0;
+
+    let deductionsCents = 0;
+    for (const deduction of input.deductions) {
+      await DepositDeduction.create(
+        {
+          depositId: settled.id,
+          description: deduction.description,
+          amount: deduction.amount,
+          maintenanceRequestId: deduction.maintenanceRequestId,
+          createdBy: settledBy,
+        },
+        { transaction }
+      );
+      deductionsCents += toCents(deduction.amount);
+    }
+
+    if (invoice && invoice.status !== "void") {
+      if (heldCents === 0) {
+        await invoice.update(
+          {
+            status: "void",
+            voidedAt: new Date(),
+            voidedBy: settledBy,
+            voidReason: "Deposit settled without payment",
+          },
+          { transaction }
+        );
+      } else if (heldCents < toCents(invoice.amount)) {
+        await invoice.update(
+          { amount: heldCents / 100, status: "paid" },
+          { transaction }
+        );
+      }
+    }
+
+    await settled.update(
+      {
+        status: "settled",
+        heldAmount: heldCents / 100,
+        deductionsTotal: deductionsCents / 100,
+        refundAmount: Math.max(heldCents - deductionsCents, 0) / 100,
+        balanceDue: Math.max(deductionsCents - heldCents, 0) / 100,
+        refundMethod: input.refundMethod,
+        refundReference: input.refundReference,
+        notes: input.notes ?? settled.notes,
+        settledAt: new Date(),
+        settledBy,
+      },
+      { transaction }
+    );
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  await reallocateLeasePayments(settled.leaseId);
+
+  logger.info(
+    `Security deposit settled: ${settled.id} (refund ${settled.refundAmount}, balance due ${settled.balanceDue})`
+  );
+
+  try {
+    await notifyDepositSettlement(settled);
+  } catch (error) {
+    logger.error(
+      `Failed to send deposit settlement statement for ${settled.id}:`,
+      error
+    );
+  }
+
+  return settled;
+};
+
+/**
+ * Postpone settlement so the lease can be terminated first (e.g. pending a
+ * final inspection)
+ */
+export const deferDeposit = async (
+  deposit: SecurityDeposit,
+  reason: string
+): Promise<SecurityDeposit> =>
+  deposit.update({
+    status: "deferred",
+    deferredAt: new Date(),
+    deferralReason: reason,
+  });
+
+/**
+ * Email the itemised settlement statement to the tenant
+ */
+const notifyDepositSettlement = async (
+  deposit: SecurityDeposit
+): Promise<void> => {
+  const [tenant, lease, deductions] = await Promise.all([
+    User.findByPk(deposit.tenantId),
+    Lease.findByPk(deposit.leaseId, {
+      include: [
+        {
+          model: Unit,
+          as: "unit",
+          attributes: ["id", "name"],
+          include: [
+            { model: Property, as: "property", attributes: ["id", "name"] },
+          ],
+        },
+      ],
+    }),
+    DepositDeduction.findAll({
+      where: { depositId: deposit.id },
+      order: [["createdAt", "ASC"]],
+    }),
+  ]);
+
+  if (!tenant) {
+    return;
+  }
+
+  await sendDepositSettlementEmail(tenant.email, tenant.firstName, {
+    unitName: lease?.unit?.name || "your unit",
+    propertyName: lease?.unit?.property?.name,
+    depositAmount: Number(deposit.amount),
+    heldAmount: Number(deposit.heldAmount),
+    deductions: deductions.map((d) => ({
+      description: d.description,
+      amount: Number(d.amount),
+    })),
+    refundAmount: Number(deposit.refundAmount),
+    balanceDue: Number(deposit.balanceDue),
+    refundMethod: deposit.refundMethod,
+    refundReference: deposit.refundReference,
+    settledAt: deposit.settledAt || new Date(),
+  });
+};
@@ -18,12 +18,20 @@ export interface EmailOptions {
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
 }
 
 /**
- * Send email using nodemailer
+ * Send email using nodemailer. Returns false without sending when email is
+ * not configured.
  */
-export const sendEmail = async (options: EmailOptions): Promise<void> => {
+export const sendEmail = async (options: EmailOptions): Promise<boolean> => {
   try {
     // Check if email is configured
     if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
@@ -37,7 +45,7 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
         `💡 Configure EMAIL_USER and EMAIL_PASSWORD to send real emails`
       );
       console.log("📧".repeat(40) + "\n");
-      return;
+      return false;
     }
 
     const transporter = createTransporter();
@@ -50,6 +58,7 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
       subject: options.subject,
       html: options.html,
       text: options.text,
+      attachments: options.attachments,
     };
 
     await transporter.sendMail(mailOptions);
@@ -62,6 +71,7 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
     console.log(`📝 Subject: ${options.subject}`);
     console.log(`🕒 Sent at: ${new Date().toLocaleString()}`);
     console.log("✉️".repeat(40) + "\n");
+    return true;
   } catch (error) {
     console.error("Error sending email:", error);
     throw new Error("Failed to send email");
@@ -236,3 +246,689 @@ export const sendPasswordResetEmail = async (
     text: textContent,
   });
 };
+
+/**
+ * Wrap email body content in the standard DigiPlot layout
+ */
+const renderEmailLayout = (title: string, bodyHtml: string): string => `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+          background-color: #f4f4f4;
+        }
+        .container {
+          background-color: #ffffff;
+          padding: 40px;
+          border-radius: 10px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .logo {
+          font-size: 28px;
+          font-weight: bold;
+          color: #2563eb;
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .title {
+          font-size: 24px;
+          color: #1f2937;
+          margin-bottom: 20px;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          margin: 20px 0;
+        }
+        th, td {
+          text-align: left;
+          padding: 8px;
+          border-bottom: 1px solid #e5e7eb;
+        }
+        .amount {
+          text-align: right;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff !important;
+          padding: 12px 28px;
+          text-decoration: none;
+          border-radius: 6px;
+          font-weight: 600;
+          margin: 20px 0;
+        }
+        .total td {
+          font-weight: 600;
+        }
+        .footer {
+          margin-top: 30px;
+          font-size: 14px;
+          color: #6b7280;
+          text-align: center;
+          border-top: 1px solid #e5e7eb;
+          padding-top: 20px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="logo">DigiPlot Property Management</div>
+        <h2 class="title">${title}</h2>
+        ${bodyHtml}
+        <div class="footer">
+          <p>Do not reply to this email. This is a system generated email from DigiPlot Property Management.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+const formatAmount = (amount: number | string): string =>
+  `KES ${Number(amount).toLocaleString("en-KE", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Escape text typed by a user before it goes into an HTML email
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export interface DepositSettlementDetails {
+  unitName: string;
+  propertyName?: string;
+  depositAmount: number;
+  heldAmount: number;
+  deductions: { description: string; amount: number }[];
+  refundAmount: number;
+  balanceDue: number;
+  refundMethod?: string;
+  refundReference?: string;
+  settledAt: Date;
+}
+
+/**
+ * Send the security deposit settlement statement to a tenant
+ */
+export const sendDepositSettlementEmail = async (
+  email: string,
+  firstName: string,
+  details: DepositSettlementDetails
+): Promise<void> => {
+  const deductionRows = details.deductions.length
+    ? details.deductions
+        .map(
+          (d) =>
+            `<tr><td>${escapeHtml(
+              d.description
+            )}</td><td class="amount">${formatAmount(
+              d.amount
+            )}</td></tr>`
+        )
+        .join("")
+    : `<tr><td colspan="2">No deductions</td></tr>`;
+
+  const htmlContent = renderEmailLayout(
+    "Security Deposit Settlement",
+    `
+        <p>Hello ${firstName},</p>
+        <p>Your security deposit for ${details.unitName}${
+      details.propertyName ? ` at ${details.propertyName}` : ""
+    } has been settled on ${details.settledAt.toDateString()}.</p>
+        <table>
+          <tr><td>Deposit agreed</td><td class="amount">${formatAmount(
+            details.depositAmount
+          )}</td></tr>
+          <tr><td>Deposit held</td><td class="amount">${formatAmount(
+            details.heldAmount
+          )}</td></tr>
+        </table>
+        <h3>Deductions</h3>
+        <table>${deductionRows}</table>
+        <table>
+          <tr class="total"><td>Refund due to you</td><td class="amount">${formatAmount(
+            details.refundAmount
+          )}</td></tr>
+          ${
+            details.balanceDue > 0
+              ? `<tr class="total"><td>Balance owed by you</td><td class="amount">${formatAmount(
+                  details.balanceDue
+                )}</td></tr>`
+              : ""
+          }
+        </table>
+        ${
+          details.refundMethod
+            ? `<p>Refund method: ${escapeHtml(details.refundMethod)}${
+                details.refundReference
+                  ? ` (reference ${escapeHtml(details.refundReference)})`
+                  : ""
+              }</p>`
+            : ""
+        }
+        <p>If you have questions about this statement, please contact your landlord.</p>
+    `
+  );
+
+  const textContent = `
+    Security Deposit Settlement - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    Your security deposit for ${details.unitName} has been settled.
+
+    Deposit held: ${formatAmount(details.heldAmount)}
+    Deductions:
+    ${details.deductions
+      .map((d) => `- ${d.description}: ${formatAmount(d.amount)}`)
+      .join("\n    ") || "None"}
+    Refund due to you: ${formatAmount(details.refundAmount)}
+    ${
+      details.balanceDue > 0
+        ? `Balance owed by you: ${formatAmount(details.balanceDue)}`
+        : ""
+    }
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: "Security Deposit Settlement - DigiPlot Property Management",
+    html: htmlContent,
+    text: textContent,
+  });
+};
+
+/**
+ * Send a payment receipt to a tenant with the PDF attached
+ */
+export const sendPaymentReceiptEmail = async (
+  email: string,
+  firstName: string,
+  details: {
+    receiptNumber: string;
+    amount: number;
+    unitName: string;
+    periodCovered: string;
+    mpesaReceipt: string;
+  },
+  pdf: Buffer
+): Promise<void> => {
+  const htmlContent = renderEmailLayout(
+    "Payment Receipt",
+    `
+        <p>Hello ${firstName},</p>
+        <p>Thank you for your payment. Your receipt is attached.</p>
+        <table>
+          <tr><td>Receipt number</td><td class="amount">${details.receiptNumber}</td></tr>
+          <tr><td>Unit</td><td class="amount">${details.unitName}</td></tr>
+          <tr><td>Period covered</td><td class="amount">${details.periodCovered}</td></tr>
+          <tr><td>M-Pesa receipt</td><td class="amount">${details.mpesaReceipt}</td></tr>
+          <tr class="total"><td>Amount received</td><td class="amount">${formatAmount(
+            details.amount
+          )}</td></tr>
+        </table>
+    `
+  );
+
+  const textContent = `
+    Payment Receipt - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    Thank you for your payment. Your receipt is attached.
+
+    Receipt number: ${details.receiptNumber}
+    Unit: ${details.unitName}
+    Period covered: ${details.periodCovered}
+    M-Pesa receipt: ${details.mpesaReceipt}
+    Amount received: ${formatAmount(details.amount)}
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `Payment Receipt ${details.receiptNumber} - DigiPlot Property Management`,
+    html: htmlContent,
+    text: textContent,
+    attachments: [
+      {
+        filename: `${details.receiptNumber}.pdf`,
+        content: pdf,
+        contentType: "application/pdf",
+      },
+    ],
+  });
+};
+
+/**
+ * Send the email address verification link to a newly registered landlord
+ */
+export const sendVerificationEmail = async (
+  email: string,
+  verificationToken: string,
+  firstName: string
+): Promise<void> => {
+  const verifyUrl = `${
+    process.env.FRONTEND_URL || "http://localhost:3000"
+  }/verify-email/${verificationToken}`;
+
+  const htmlContent = renderEmailLayout(
+    "Verify Your Email Address",
+    `
+        <p>Hello ${firstName},</p>
+        <p>Welcome to DigiPlot Property Management. Please confirm your email address to activate your landlord account.</p>
+        <p style="text-align: center;">
+          <a href="${verifyUrl}" class="button">Verify Email</a>
+        </p>
+        <p>If the button doesn't work, copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; color: #2563eb;">${verifyUrl}</p>
+        <p>This link will expire in 24 hours. If you didn't create an account, you can ignore this email.</p>
+    `
+  );
+
+  const textContent = `
+    Verify Your Email Address - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    Welcome to DigiPlot Property Management. Please confirm your email address to activate your landlord account by visiting the following link:
+    ${verifyUrl}
+
+    This link will expire in 24 hours. If you didn't create an account, you can ignore this email.
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  // Development logging when email is not configured
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+    console.log("\n" + "=".repeat(80));
+    console.log(
+      "🚀 DEVELOPMENT: EMAIL VERIFICATION (Email service not configured)"
+    );
+    console.log("=".repeat(80));
+    console.log(`📧 To: ${email}`);
+    console.log(`🔗 Verify URL: ${verifyUrl}`);
+    console.log("=".repeat(80) + "\n");
+  }
+
+  await sendEmail({
+    to: email,
+    subject: "Verify Your Email - DigiPlot Property Management",
+    html: htmlContent,
+    text: textContent,
+  });
+};
+
+export interface TenantWelcomeDetails {
+  temporaryPassword: string;
+  landlordName: string;
+  propertyName?: string;
+  propertyAddress?: string;
+  unitName?: string;
+}
+
+/**
+ * Send a new tenant their sign-in details. The temporary password must be
+ * changed at first login. Returns whether the email was sent.
+ */
+export const sendTenantWelcomeEmail = async (
+  email: string,
+  firstName: string,
+  details: TenantWelcomeDetails
+): Promise<boolean> => {
+  const loginUrl = `${
+    process.env.FRONTEND_URL || "http://localhost:3000"
+  }/login`;
+
+  const homeRows = (
+    [
+      ["Property", details.propertyName],
+      ["Address", details.propertyAddress],
+      ["Unit", details.unitName],
+    ] as [string, string | undefined][]
+  ).filter(([, value]) => !!value);
+
+  const htmlContent = renderEmailLayout(
+    "Welcome to DigiPlot",
+    `
+        <p>Hello ${firstName},</p>
+        <p>${details.landlordName} has set up a tenant account for you on DigiPlot Property Management. You can use it to pay rent, view your lease and submit maintenance requests.</p>
+        ${
+          homeRows.length
+            ? `<table>${homeRows
+                .map(
+                  ([label, value]) =>
+                    `<tr><td>${label}</td><td class="amount">${value}</td></tr>`
+                )
+                .join("")}</table>`
+            : ""
+        }
+        <table>
+          <tr><td>Email</td><td class="amount">${email}</td></tr>
+          <tr><td>Temporary password</td><td class="amount"><strong>${
+            details.temporaryPassword
+          }</strong></td></tr>
+        </table>
+        <p style="text-align: center;">
+          <a href="${loginUrl}" class="button">Sign In</a>
+        </p>
+        <p>You will be asked to choose a new password the first time you sign in.</p>
+    `
+  );
+
+  const textContent = `
+    Welcome to DigiPlot Property Management
+
+    Hello ${firstName},
+
+    ${details.landlordName} has set up a tenant account for you on DigiPlot Property Management.
+    ${homeRows.map(([label, value]) => `${label}: ${value}`).join("\n    ")}
+
+    Email: ${email}
+    Temporary password: ${details.temporaryPassword}
+
+    Sign in at ${loginUrl}. You will be asked to choose a new password the first time you sign in.
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: "Welcome to DigiPlot - Your Tenant Account",
+    html: htmlContent,
+    text: textContent,
+  });
+};
+
+export interface TenantInvitationDetails {
+  landlordName: string;
+}
+
+/**
+ * Ask an existing tenant to accept a landlord's invitation. Returns whether
+ * the email was sent.
+ */
+export const sendTenantInvitationEmail = async (
+  email: string,
+  firstName: string,
+  details: TenantInvitationDetails
+): Promise<boolean> => {
+  const invitationsUrl = `${
+    process.env.FRONTEND_URL || "http://localhost:3000"
+  }/invitations`;
+
+  const htmlContent = renderEmailLayout(
+    "New Landlord Invitation",
+    `
+        <p>Hello ${firstName},</p>
+        <p>${details.landlordName} has invited you to rent with them on DigiPlot Property Management.</p>
+        <p>If you accept, they will be able to manage your tenancy, leases and payments with them. Your account and your rentals with other landlords are not affected.</p>
+        <p style="text-align: center;">
+          <a href="${invitationsUrl}" class="button">Review Invitation</a>
+        </p>
+        <p>If you do not know this landlord, decline the invitation.</p>
+    `
+  );
+
+  const textContent = `
+    New Landlord Invitation - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    ${details.landlordName} has invited you to rent with them on DigiPlot Property Management.
+    If you accept, they will be able to manage your tenancy, leases and payments with them. Your account and your rentals with other landlords are not affected.
+
+    Review the invitation at ${invitationsUrl}. If you do not know this landlord, decline the invitation.
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `${details.landlordName} has invited you to DigiPlot`,
+    html: htmlContent,
+    text: textContent,
+  });
+};
+
+export interface LeaseRenewalOfferDetails {
+  landlordName: string;
+  unitName: string;
+  propertyName?: string;
+  currentEndDate: Date;
+  startDate: Date;
+  endDate: Date;
+  currentRent: number;
+  proposedRent: number;
+  escalationPercent?: number;
+  respondBy: Date;
+  message?: string;
+}
+
+/**
+ * Send a lease renewal offer to a tenant
+ */
+export const sendLeaseRenewalOfferEmail = async (
+  email: string,
+  firstName: string,
+  details: LeaseRenewalOfferDetails
+): Promise<void> => {
+  const leaseUrl = `${process.env.FRONTEND_URL || "http://localhost:3000"}/lease`;
+  const home = `${details.unitName}${
+    details.propertyName ? ` at ${details.propertyName}` : ""
+  }`;
+  const rentChange =
+    details.escalationPercent !== undefined
+      ? ` (${Number(details.escalationPercent)}% change)`
+      : "";
+
+  const htmlContent = renderEmailLayout(
+    "Lease Renewal Offer",
+    `
+        <p>Hello ${escapeHtml(firstName)},</p>
+        <p>${escapeHtml(details.landlordName)} is offering to renew your lease for ${escapeHtml(
+          home
+        )}, which ends on ${details.currentEndDate.toDateString()}.</p>
+        <table>
+          <tr><td>New lease period</td><td class="amount">${details.startDate.toDateString()} to ${details.endDate.toDateString()}</td></tr>
+          <tr><td>Current monthly rent</td><td class="amount">${formatAmount(
+            details.currentRent
+          )}</td></tr>
+          <tr class="total"><td>Proposed monthly rent${rentChange}</td><td class="amount">${formatAmount(
+            details.proposedRent
+          )}</td></tr>
+        </table>
+        ${
+          details.message
+            ? `<p>Message from your landlord: ${escapeHtml(details.message)}</p>`
+            : ""
+        }
+        <p>Please accept or decline the offer by <strong>${details.respondBy.toDateString()}</strong>.</p>
+        <p style="text-align: center;">
+          <a href="${leaseUrl}" class="button">View Offer</a>
+        </p>
+    `
+  );
+
+  const textContent = `
+    Lease Renewal Offer - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    ${details.landlordName} is offering to renew your lease for ${home}, which ends on ${details.currentEndDate.toDateString()}.
+
+    New lease period: ${details.startDate.toDateString()} to ${details.endDate.toDateString()}
+    Current monthly rent: ${formatAmount(details.currentRent)}
+    Proposed monthly rent${rentChange}: ${formatAmount(details.proposedRent)}
+    ${details.message ? `Message from your landlord: ${details.message}` : ""}
+
+    Please accept or decline the offer by ${details.respondBy.toDateString()} at ${leaseUrl}.
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: "Lease Renewal Offer - DigiPlot Property Management",
+    html: htmlContent,
+    text: textContent,
+  });
+};
+
+export interface LeaseRenewalResponseDetails {
+  tenantName: string;
+  unitName: string;
+  accepted: boolean;
+  startDate: Date;
+  endDate: Date;
+  proposedRent: number;
+  declineReason?: string;
+}
+
+/**
+ * Tell a landlord that a tenant accepted or declined a renewal offer
+ */
+export const sendLeaseRenewalResponseEmail = async (
+  email: string,
+  firstName: string,
+  details: LeaseRenewalResponseDetails
+): Promise<void> => {
+  const outcome = details.accepted ? "accepted" : "declined";
+  const summary = `${details.tenantName} has ${outcome} your renewal offer for ${details.unitName}.`;
+  const terms = `${details.startDate.toDateString()} to ${details.endDate.toDateString()} at ${formatAmount(
+    details.proposedRent
+  )} per month`;
+
+  const htmlContent = renderEmailLayout(
+    `Renewal Offer ${details.accepted ? "Accepted" : "Declined"}`,
+    `
+        <p>Hello ${escapeHtml(firstName)},</p>
+        <p>${escapeHtml(summary)}</p>
+        <p>Offered terms: ${terms}.</p>
+        ${
+          details.accepted
+            ? "<p>The new lease has been created and takes over from the current one when it starts.</p>"
+            : details.declineReason
+              ? `<p>Reason given: ${escapeHtml(details.declineReason)}</p>`
+              : ""
+        }
+    `
+  );
+
+  const textContent = `
+    Renewal Offer ${details.accepted ? "Accepted" : "Declined"} - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    ${summary}
+    Offered terms: ${terms}.
+    ${
+      details.accepted
+        ? "The new lease has been created and takes over from the current one when it starts."
+        : details.declineReason
+          ? `Reason given: ${details.declineReason}`
+          : ""
+    }
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `Renewal Offer ${details.accepted ? "Accepted" : "Declined"} - ${details.unitName}`,
+    html: htmlContent,
+    text: textContent,
+  });
+};
+
+export interface LeaseExpiryReminderDetails {
+  recipient: "landlord" | "tenant";
+  unitName: string;
+  propertyName?: string;
+  tenantName?: string;
+  endDate: Date;
+  daysRemaining: number;
+  renewalOfferPending: boolean;
+}
+
+/**
+ * Remind a landlord or tenant that a lease is about to end
+ */
+export const sendLeaseExpiryReminderEmail = async (
+  email: string,
+  firstName: string,
+  details: LeaseExpiryReminderDetails
+): Promise<void> => {
+  const home = `${details.unitName}${
+    details.propertyName ? ` at ${details.propertyName}` : ""
+  }`;
+  const lead =
+    details.recipient === "landlord"
+      ? `The lease for ${home}${
+          details.tenantName ? ` (${details.tenantName})` : ""
+        } ends on ${details.endDate.toDateString()}, in ${details.daysRemaining} days.`
+      : `Your lease for ${home} ends on ${details.endDate.toDateString()}, in ${details.daysRemaining} days.`;
+  const action =
+    details.recipient === "landlord"
+      ? details.renewalOfferPending
+        ? "A renewal offer is waiting for the tenant's response."
+        : "If you would like the tenant to stay, send them a renewal offer before the lease ends."
+      : details.renewalOfferPending
+        ? "You have a renewal offer waiting. Please accept or decline it."
+        : "Contact your landlord if you would like to renew.";
+
+  const htmlContent = renderEmailLayout(
+    "Lease Ending Soon",
+    `
+        <p>Hello ${firstName},</p>
+        <p>${lead}</p>
+        <p>${action}</p>
+    `
+  );
+
+  const textContent = `
+    Lease Ending Soon - DigiPlot Property Management
+
+    Hello ${firstName},
+
+    ${lead}
+    ${action}
+
+    Best regards,
+    DigiPlot Property Management
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: `Lease Ending Soon - ${details.unitName}`,
+    html: htmlContent,
+    text: textContent,
+  });
+};
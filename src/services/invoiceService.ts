@@ -0,0 +1,345 @@
+import crypto from "crypto";
+import { Op, Transaction } from "sequelize";
+import sequelize from "../config/database";
+import { Invoice, Lease, Payment, PaymentAllocation } from "../models";
+import logger from "../config/logger";
+
+export interface InvoiceGenerationSummary {
+  leasesChecked: number;
+  invoicesCreated: number;
+  invoicesMarkedOverdue: number;
+}
+
+export interface AllocationSummary {
+  allocated: number;
+  unallocated: number; // Payments in excess of invoices (tenant credit)
+}
+
+const toCents = (value: number | string): number =>
+  Math.round(Number(value) * 100);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Add calendar months to a date, clamping to the last day of the month
+ * (e.g. Jan 31 + 1 month = Feb 28)
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(
+    result.getFullYear(),
+    result.getMonth() + 1,
+    0
+  ).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+};
+
+/**
+ * Billing period n of a lease: periods are anchored on the lease start date
+ * and run for one month each
+ */
+export const getBillingPeriod = (
+  leaseStart: Date,
+  index: number
+): { periodStart: Date; periodEnd: Date } => {
+  const periodStart = addMonths(leaseStart, index);
+  const periodEnd = new Date(addMonths(leaseStart, index + 1).getTime() - 1);
+  return { periodStart, periodEnd };
+};
+
+export const generateInvoiceNumber = (issueDate: Date = new Date()): string => {
+  const yearMonth = formatDate(issueDate).slice(0, 7).replace("-", "");
+  return `INV-${yearMonth}-${crypto
+    .randomBytes(3)
+    .toString("hex")
+    .toUpperCase()}`;
+};
+
+/**
+ * Create any rent invoices that are due for a lease up to the lead time.
+ * Leases that have never been billed start from the current period so
+ * existing tenancies are not back-charged for history.
+ */
+export const generateInvoicesForLease = async (
+  lease: Lease,
+  asOf: Date = new Date()
+): Promise<Invoice[]> => {
+  if (lease.status !== "active") {
+    return [];
+  }
+
+  const leadDays = Number(process.env.INVOICE_LEAD_DAYS || 5);
+  const horizon = new Date(asOf.getTime() + leadDays * 24 * 60 * 60 * 1000);
+  const leaseStart = new Date(lease.startDate);
+  const leaseEnd = new Date(lease.endDate);
+
+  // Voided periods count as billed so the scheduler does not recreate them
+  const lastInvoice = await Invoice.findOne({
+    where: { leaseId: lease.id, type: "rent" },
+    order: [["periodStart", "DESC"]],
+  });
+
+  const created: Invoice[] = [];
+
+  for (let index = 0; ; index++) {
+    const { periodStart, periodEnd } = getBillingPeriod(leaseStart, index);
+
+    if (periodStart > horizon || periodStart >= leaseEnd) {
+      break;
+    }
+
+    if (lastInvoice) {
+      if (periodStart <= new Date(lastInvoice.periodStart!)) continue;
+    } else if (periodEnd < asOf) {
+      continue;
+    }
+
+    const invoice = await Invoice.create({
+      invoiceNumber: generateInvoiceNumber(asOf),
+      leaseId: lease.id,
+      tenantId: lease.tenantId,
+      unitId: lease.unitId,
+      landlordId: lease.landlordId,
+      type: "rent",
+      description: `Rent for ${formatDate(periodStart)} to ${formatDate(
+        periodEnd
+      )}`,
+      periodStart,
+      periodEnd,
+      issueDate: asOf,
+      dueDate: periodStart,
+      amount: lease.monthlyRent,
+    });
+
+    created.push(invoice);
+  }
+
+  if (created.length > 0) {
+    logger.info(
+      `Generated ${created.length} rent invoice(s) for lease ${lease.id}`
+    );
+    // Apply any credit the tenant already has on the lease
+    await reallocateLeasePayments(lease.id);
+  }
+
+  return created;
+};
+
+/**
+ * Re-apply every successful payment on a lease to its invoices, oldest
+ * invoice first. Rebuilding the allocations from scratch keeps them correct
+ * after voids and payment reversals.
+ */
+export const reallocateLeasePayments = async (
+  leaseId: string
+): Promise<AllocationSummary> => {
+  const transaction: Transaction = await sequelize.transaction();
+
+  try {
+    // Serialise allocation runs for the same lease
+    await Lease.findByPk(leaseId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    const invoices = await Invoice.findAll({
+      where: { leaseId },
+      order: [
+        ["dueDate", "ASC"],
+        ["createdAt", "ASC"],
+      ],
+      transaction,
+    });
+
+    const payments = await Payment.findAll({
+      where: { leaseId, status: "successful" },
+      order: [["paymentDate", "ASC"]],
+      transaction,
+    });
+
+    await PaymentAllocation.destroy({
+      where: { invoiceId: { [Op.in]: invoices.map((i) => i.id) } },
+      transaction,
+    });
+
+    const openInvoices = invoices
+      .filter((invoice) => invoice.status !== "void")
+      .map((invoice) => ({
+        invoice,
+        remaining: toCents(invoice.amount),
+        paid: 0,
+      }));
+
+    // Deposit payments settle the deposit charge first and rent payments
+    // settle everything else first; either overflows into the other
+    const depositInvoices = openInvoices.filter(
+      (entry) => entry.invoice.type === "deposit"
+    );
+    const otherInvoices = openInvoices.filter(
+      (entry) => entry.invoice.type !== "deposit"
+    );
+
+    let allocatedCents = 0;
+    let unallocatedCents = 0;
+
+    for (const payment of payments) {
+      let available = toCents(payment.amount);
+      const candidates =
+        payment.purpose === "deposit"
+          ? [...depositInvoices, ...otherInvoices]
+          : [...otherInvoices, ...depositInvoices];
+
+      for (const entry of candidates) {
+        if (available <= 0) break;
+        if (entry.remaining <= 0) continue;
+
+        const applied = Math.min(available, entry.remaining);
+        await PaymentAllocation.create(
+          {
+            paymentId: payment.id,
+            invoiceId: entry.invoice.id,
+            amount: applied / 100,
+          },
+          { transaction }
+        );
+
+        entry.remaining -= applied;
+        entry.paid += applied;
+        available -= applied;
+        allocatedCents += applied;
+      }
+
+      unallocatedCents += available;
+    }
+
+    for (const entry of openInvoices) {
+      const { invoice } = entry;
+      const paidChanged = toCents(invoice.amountPaid) !== entry.paid;
+
+      invoice.amountPaid = entry.paid / 100;
+      const status = invoice.computeStatus();
+
+      if (paidChanged || invoice.status !== status) {
+        invoice.status = status;
+        await invoice.save({ transaction });
+      }
+    }
+
+    await transaction.commit();
+
+    return {
+      allocated: allocatedCents / 100,
+      unallocated: unallocatedCents / 100,
+    };
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
+
+/**
+ * Keep invoice balances in step after a payment changes status. Failures are
+ * logged rather than thrown so payment callbacks are never rejected.
+ */
+export const syncPaymentAllocations = async (
+  payment: Payment
+): Promise<void> => {
+  if (!payment.leaseId) {
+    return;
+  }
+
+  try {
+    await reallocateLeasePayments(payment.leaseId);
+  } catch (error) {
+    logger.error(
+      `Failed to allocate payment ${payment.id} to invoices:`,
+      error
+    );
+  }
+};
+
+/**
+ * Flag unpaid invoices whose due date has passed
+ */
+export const markOverdueInvoices = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const [count] = await Invoice.update(
+    { status: "overdue" },
+    {
+      where: {
+        status: { [Op.in]: ["open", "partially_paid"] },
+        dueDate: { [Op.lt]: startOfToday },
+      },
+    }
+  );
+
+  return count;
+};
+
+/**
+ * Run one billing cycle: invoice every active lease and flag overdue invoices
+ */
+export const generateInvoices = async (
+  options: { landlordId?: string; asOf?: Date } = {}
+): Promise<InvoiceGenerationSummary> => {
+  const asOf = options.asOf || new Date();
+
+  const whereClause: any = { status: "active" };
+  if (options.landlordId) {
+    whereClause.landlordId = options.landlordId;
+  }
+
+  const leases = await Lease.findAll({ where: whereClause });
+
+  const summary: InvoiceGenerationSummary = {
+    leasesChecked: leases.length,
+    invoicesCreated: 0,
+    invoicesMarkedOverdue: 0,
+  };
+
+  for (const lease of leases) {
+    try {
+      const created = await generateInvoicesForLease(lease, asOf);
+      summary.invoicesCreated += created.length;
+    } catch (error) {
+      logger.error(`Failed to generate invoices for lease ${lease.id}:`, error);
+    }
+  }
+
+  summary.invoicesMarkedOverdue = await markOverdueInvoices(asOf);
+
+  if (summary.invoicesCreated > 0 || summary.invoicesMarkedOverdue > 0) {
+    logger.info("Invoice generation completed", summary);
+  }
+
+  return summary;
+};
+
+/**
+ * Void an invoice and release any payments allocated to it
+ */
+export const voidInvoice = async (
+  invoice: Invoice,
+  reason: string,
+  voidedBy?: string
+): Promise<Invoice> => {
+  await invoice.update({
+    status: "void",
+    amountPaid: 0,
+    voidedAt: new Date(),
+    voidedBy,
+    voidReason: reason,
+  });
+
+  await reallocateLeasePayments(invoice.leaseId);
+
+  return invoice;
+};
@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import MpesaService, { C2BRegisterUrlResponse } from "./mpesaService";
+import { LandlordPaymentSettings } from "../models";
+import logger from "../config/logger";
+
+interface CachedService {
+  service: MpesaService;
+  settingsUpdatedAt: number;
+}
+
+// One MpesaService per landlord so access tokens are reused between payments
+const serviceCache = new Map<string, CachedService>();
+
+/**
+ * Get the M-Pesa service configured with a landlord's own paybill credentials.
+ * Returns null if the landlord has not configured payment settings.
+ */
+export const getMpesaServiceForLandlord = async (
+  landlordId: string
+): Promise<MpesaService | null> => {
+  const settings = await LandlordPaymentSettings.findOne({
+    where: { landlordId },
+  });
+
+  if (!settings) {
+    serviceCache.delete(landlordId);
+    return null;
+  }
+
+  // Rebuild the service if the settings changed since it was cached
+  const settingsUpdatedAt = settings.updatedAt.getTime();
+  const cached = serviceCache.get(landlordId);
+  if (cached && cached.settingsUpdatedAt === settingsUpdatedAt) {
+    return cached.service;
+  }
+
+  const service = new MpesaService(settings.getCredentials());
+  serviceCache.set(landlordId, { service, settingsUpdatedAt });
+  logger.info(`M-Pesa service initialized for landlord: ${landlordId}`);
+
+  return service;
+};
+
+/**
+ * Drop a landlord's cached service (after credentials are set or rotated)
+ */
+export const invalidateMpesaServiceForLandlord = (landlordId: string): void => {
+  serviceCache.delete(landlordId);
+};
+
+/**
+ * Register the landlord's C2B validation and confirmation URLs with Daraja.
+ * Daraja only accepts this for a shortcode linked to the credentials' app,
+ * so success also proves the landlord owns the paybill and marks the
+ * settings verified.
+ */
+export const registerC2BUrlsForLandlord = async (
+  settings: LandlordPaymentSettings,
+  responseType?: "Completed" | "Cancelled"
+): Promise<{
+  validationUrl: string;
+  confirmationUrl: string;
+  result: C2BRegisterUrlResponse;
+}> => {
+  // The token in the URLs is what authenticates M-Pesa's requests. It is
+  // kept across registrations because production URLs cannot be changed
+  // without Safaricom.
+  if (!settings.c2bCallbackToken) {
+    await settings.update({
+      c2bCallbackToken: crypto.randomBytes(32).toString("hex"),
+    });
+  }
+
+  const baseUrl = `${process.env.API_BASE_URL}/api/payments/mpesa/c2b/${settings.c2bCallbackToken}`;
+  const validationUrl = `${baseUrl}/validation`;
+  const confirmationUrl = `${baseUrl}/confirmation`;
+
+  const result = await new MpesaService(
+    settings.getCredentials()
+  ).registerC2BUrls(validationUrl, confirmationUrl, responseType);
+
+  await settings.update({ lastVerifiedAt: new Date() });
+
+  return { validationUrl, confirmationUrl, result };
+};
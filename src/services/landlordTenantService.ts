@@ -0,0 +1,154 @@
+import { Op, Transaction } from "sequelize";
+import { LandlordTenant, Lease, User } from "../models";
+import logger from "../config/logger";
+
+/**
+ * Record that a tenant rents from a landlord. A tenant who comes back to a
+ * landlord they left has their existing link re-activated.
+ */
+export const linkTenantToLandlord = async (
+  landlordId: string,
+  tenantId: string,
+  transaction?: Transaction,
+  options: { createdAccount?: boolean } = {}
+): Promise<LandlordTenant> => {
+  const [link, created] = await LandlordTenant.findOrCreate({
+    where: { landlordId, tenantId },
+    defaults: {
+      landlordId,
+      tenantId,
+      startedAt: new Date(),
+      createdAccount: options.createdAccount || false,
+    },
+    transaction,
+  });
+
+  if (!created && link.status === "ended") {
+    await link.update(
+      { status: "active", startedAt: new Date(), endedAt: null },
+      { transaction }
+    );
+    logger.info(`Tenant ${tenantId} re-linked to landlord ${landlordId}`);
+  }
+
+  return link;
+};
+
+/**
+ * Invite an existing tenant account to rent from a landlord. The link stays
+ * pending, and the tenant hidden from the landlord, until the tenant accepts.
+ */
+export const inviteTenant = async (
+  landlordId: string,
+  tenantId: string,
+  transaction?: Transaction
+): Promise<LandlordTenant> => {
+  const link = await LandlordTenant.create(
+    { landlordId, tenantId, status: "pending", startedAt: new Date() },
+    { transaction }
+  );
+
+  logger.info(`Tenant ${tenantId} invited by landlord ${landlordId}`);
+
+  return link;
+};
+
+/**
+ * Accept or decline a landlord's pending invitation
+ */
+export const respondToInvitation = async (
+  link: LandlordTenant,
+  accept: boolean
+): Promise<void> => {
+  if (accept) {
+    await link.update({ status: "active", startedAt: new Date() });
+    logger.info(
+      `Tenant ${link.tenantId} accepted invitation from landlord ${link.landlordId}`
+    );
+    return;
+  }
+
+  await link.destroy();
+  logger.info(
+    `Tenant ${link.tenantId} declined invitation from landlord ${link.landlordId}`
+  );
+};
+
+/**
+ * Whether a landlord alone manages a tenant's account: they created it and
+ * no other landlord is linked to the tenant. Only such a landlord may reset
+ * the tenant's password or change their account status.
+ */
+export const managesTenantExclusively = async (
+  landlordId: string,
+  tenantId: string
+): Promise<boolean> => {
+  const links = await LandlordTenant.findAll({
+    where: { tenantId, status: { [Op.in]: ["active", "ended"] } },
+    attributes: ["landlordId", "createdAccount"],
+  });
+
+  return (
+    links.length === 1 &&
+    links[0].landlordId === landlordId &&
+    links[0].createdAccount
+  );
+};
+
+/**
+ * Find a tenant through their link to a landlord. Former tenants are
+ * included unless activeOnly is set; invited tenants who have not accepted
+ * never are.
+ */
+export const findLandlordTenant = async (
+  landlordId: string,
+  tenantId: string,
+  options: { activeOnly?: boolean; transaction?: Transaction } = {}
+): Promise<User | null> => {
+  const linkWhere: any = {
+    landlordId,
+    status: options.activeOnly ? "active" : { [Op.in]: ["active", "ended"] },
+  };
+
+  return User.findOne({
+    where: { id: tenantId, role: "tenant" },
+    include: [
+      {
+        model: LandlordTenant,
+        as: "landlordLinks",
+        where: linkWhere,
+        attributes: ["id", "status", "startedAt", "endedAt"],
+      },
+    ],
+    transaction: options.transaction,
+  });
+};
+
+/**
+ * End a landlord's relationship with a tenant. Refused while the tenant
+ * still holds an active lease with that landlord.
+ */
+export const endTenantRelationship = async (
+  link: LandlordTenant
+): Promise<{ success: boolean; message?: string }> => {
+  const activeLeases = await Lease.count({
+    where: {
+      landlordId: link.landlordId,
+      tenantId: link.tenantId,
+      status: { [Op.in]: ["active", "pending"] },
+    },
+  });
+
+  if (activeLeases > 0) {
+    return {
+      success: false,
+      message: "Terminate this tenant's lease before removing them.",
+    };
+  }
+
+  if (link.status !== "ended") {
+    await link.update({ status: "ended", endedAt: new Date() });
+  }
+
+  return { success: true };
+};
@@ -0,0 +1,140 @@
+import { Invoice, LateFeeRule, Unit } from "../models";
+import logger from "../config/logger";
+import {
+  generateInvoiceNumber,
+  reallocateLeasePayments,
+} from "./invoiceService";
+
+export interface LateFeeSummary {
+  invoicesChecked: number;
+  feesCreated: number;
+  feesUpdated: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Whole days between the due date and today
+ */
+export const getDaysLate = (dueDate: Date, asOf: Date = new Date()): number =>
+  Math.floor(
+    (startOfDay(asOf).getTime() - startOfDay(new Date(dueDate)).getTime()) /
+      DAY_MS
+  );
+
+/**
+ * Charge or accrue late fees on overdue rent. A lease rule overrides the
+ * property rule. Each rent invoice carries at most one late fee charge whose
+ * amount grows daily until the rent is paid or the cap is reached; a waived
+ * (void) fee is never recreated.
+ */
+export const applyLateFees = async (
+  options: { landlordId?: string; asOf?: Date } = {}
+): Promise<LateFeeSummary> => {
+  const asOf = options.asOf || new Date();
+
+  const ruleWhere: any = { isActive: true };
+  const invoiceWhere: any = { type: "rent", status: "overdue" };
+  if (options.landlordId) {
+    ruleWhere.landlordId = options.landlordId;
+    invoiceWhere.landlordId = options.landlordId;
+  }
+
+  const rules = await LateFeeRule.findAll({ where: ruleWhere });
+
+  const summary: LateFeeSummary = {
+    invoicesChecked: 0,
+    feesCreated: 0,
+    feesUpdated: 0,
+  };
+
+  if (rules.length === 0) {
+    return summary;
+  }
+
+  const leaseRules = new Map<string, LateFeeRule>();
+  const propertyRules = new Map<string, LateFeeRule>();
+  rules.forEach((rule) => {
+    if (rule.leaseId) leaseRules.set(rule.leaseId, rule);
+    if (rule.propertyId) propertyRules.set(rule.propertyId, rule);
+  });
+
+  const overdueInvoices = await Invoice.findAll({
+    where: invoiceWhere,
+    include: [{ model: Unit, as: "unit", attributes: ["id", "propertyId"] }],
+  });
+
+  const touchedLeases = new Set<string>();
+
+  for (const invoice of overdueInvoices) {
+    const propertyId = (invoice as any).unit?.propertyId;
+    const rule =
+      leaseRules.get(invoice.leaseId) ||
+      (propertyId ? propertyRules.get(propertyId) : undefined);
+
+    if (!rule) continue;
+    summary.invoicesChecked++;
+
+    try {
+      const daysLate = getDaysLate(invoice.dueDate, asOf);
+      const fee = rule.calculateFee(Number(invoice.amount), daysLate);
+      if (fee <= 0) continue;
+
+      const description = `Late fee on ${invoice.invoiceNumber} (${daysLate} days late)`;
+
+      const existingFee = await Invoice.findOne({
+        where: { relatedInvoiceId: invoice.id, type: "late_fee" },
+      });
+
+      if (existingFee) {
+        // Waived fees stay waived; fees only ever grow while rent is unpaid
+        if (
+          existingFee.status === "void" ||
+          fee <= Number(existingFee.amount)
+        ) {
+          continue;
+        }
+
+        await existingFee.update({ amount: fee, description });
+        summary.feesUpdated++;
+      } else {
+        await Invoice.create({
+          invoiceNumber: generateInvoiceNumber(asOf),
+          leaseId: invoice.leaseId,
+          tenantId: invoice.tenantId,
+          unitId: invoice.unitId,
+          landlordId: invoice.landlordId,
+          type: "late_fee",
+          description,
+          issueDate: asOf,
+          dueDate: asOf,
+          amount: fee,
+          relatedInvoiceId: invoice.id,
+          lateFeeRuleId: rule.id,
+        });
+        summary.feesCreated++;
+      }
+
+      touchedLeases.add(invoice.leaseId);
+    } catch (error) {
+      logger.error(`Failed to apply late fee to invoice ${invoice.id}:`, error);
+    }
+  }
+
+  // Refresh balances so existing credit is applied to new fees
+  for (const leaseId of touchedLeases) {
+    await reallocateLeasePayments(leaseId);
+  }
+
+  if (summary.feesCreated > 0 || summary.feesUpdated > 0) {
+    logger.info("Late fees applied", summary);
+  }
+
+  return summary;
+};
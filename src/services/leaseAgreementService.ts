@@ -0,0 +1,268 @@
+import fs from "fs/promises";
+import path from "path";
+import { Lease, LeaseTemplate, Property, Unit, User } from "../models";
+import { ApiError } from "../middleware/errorHandler";
+import logger from "../config/logger";
+import { addMonths } from "./invoiceService";
+import { formatDate, formatMoney, renderAgreementPdf } from "./pdfService";
+
+// Agreements are kept outside the public uploads folder so that downloads
+// always go through the access-checked endpoint
+const getStorageDir = (): string =>
+  process.env.AGREEMENT_STORAGE_DIR ||
+  path.join(__dirname, "../../storage/agreements");
+
+const getAgreementPath = (leaseId: string): string =>
+  path.join(getStorageDir(), `${leaseId}.pdf`);
+
+interface AgreementContext {
+  lease: Lease;
+  tenant: User;
+  landlord: User;
+  unit: Unit;
+  property: Property;
+  generatedAt: Date;
+}
+
+interface AgreementPlaceholder {
+  description: string;
+  value: (context: AgreementContext) => string;
+}
+
+const fullName = (user: User): string => `${user.firstName} ${user.lastName}`;
+
+/**
+ * Whole months from the start to the end of a lease
+ */
+const termInMonths = (lease: Lease): number => {
+  let months = 0;
+  while (addMonths(lease.startDate, months + 1) <= new Date(lease.endDate)) {
+    months++;
+  }
+  return months;
+};
+
+export const AGREEMENT_PLACEHOLDERS: Record<string, AgreementPlaceholder> = {
+  "tenant.name": {
+    description: "Tenant's full name",
+    value: ({ tenant }) => fullName(tenant),
+  },
+  "tenant.email": {
+    description: "Tenant's email address",
+    value: ({ tenant }) => tenant.email,
+  },
+  "tenant.phone": {
+    description: "Tenant's phone number",
+    value: ({ tenant }) => tenant.phone || "",
+  },
+  "landlord.name": {
+    description: "Landlord's full name",
+    value: ({ landlord }) => fullName(landlord),
+  },
+  "landlord.email": {
+    description: "Landlord's email address",
+    value: ({ landlord }) => landlord.email,
+  },
+  "landlord.phone": {
+    description: "Landlord's phone number",
+    value: ({ landlord }) => landlord.phone || "",
+  },
+  "property.name": {
+    description: "Property name",
+    value: ({ property }) => property.name,
+  },
+  "property.address": {
+    description: "Property address",
+    value: ({ property }) => property.address || "",
+  },
+  "unit.name": {
+    description: "Unit name",
+    value: ({ unit }) => unit.name,
+  },
+  "unit.type": {
+    description: "Unit type, e.g. apartment",
+    value: ({ unit }) => unit.type,
+  },
+  "lease.monthlyRent": {
+    description: "Monthly rent, e.g. KES 25,000.00",
+    value: ({ lease }) => formatMoney(lease.monthlyRent),
+  },
+  "lease.securityDeposit": {
+    description: "Security deposit",
+    value: ({ lease }) => formatMoney(lease.securityDeposit),
+  },
+  "lease.startDate": {
+    description: "Lease start date (YYYY-MM-DD)",
+    value: ({ lease }) => formatDate(lease.startDate),
+  },
+  "lease.endDate": {
+    description: "Lease end date (YYYY-MM-DD)",
+    value: ({ lease }) => formatDate(lease.endDate),
+  },
+  "lease.moveInDate": {
+    description: "Move-in date, or the start date if none was set",
+    value: ({ lease }) => formatDate(lease.moveInDate || lease.startDate),
+  },
+  "lease.termMonths": {
+    description: "Length of the lease in whole months",
+    value: ({ lease }) => String(termInMonths(lease)),
+  },
+  "lease.endOfTerm": {
+    description: "What happens when the lease ends without renewal",
+    value: ({ lease }) =>
+      lease.endOfTermPolicy === "month_to_month"
+        ? "continue from month to month until either party gives notice"
+        : "end on the end date",
+  },
+  "agreement.date": {
+    description: "Date the agreement was generated",
+    value: ({ generatedAt }) => formatDate(generatedAt),
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Used when the landlord has no default template of their own
+export const DEFAULT_AGREEMENT_TEMPLATE = {
+  title: "Tenancy Agreement",
+  body: `This agreement is made on {{agreement.date}} between {{landlord.name}} ("the Landlord") and {{tenant.name}} ("the Tenant").
+
+# 1. Premises
+The Landlord lets to the Tenant {{unit.name}} at {{property.name}}, {{property.address}}.
+
+# 2. Term
+The tenancy runs for {{lease.termMonths}} month(s) from {{lease.startDate}} to {{lease.endDate}}. The Tenant may move in on {{lease.moveInDate}}. At the end of the term the tenancy will {{lease.endOfTerm}}.
+
+# 3. Rent
+The Tenant shall pay rent of {{lease.monthlyRent}} per month, in advance, on the day of the month the tenancy started.
+
+# 4. Security deposit
+The Tenant shall pay a security deposit of {{lease.securityDeposit}}. It will be refunded at the end of the tenancy less any deductions for unpaid rent or damage beyond fair wear and tear.
+
+# 5. Contact
+Landlord: {{landlord.email}} {{landlord.phone}}
+Tenant: {{tenant.email}} {{tenant.phone}}`,
+};
+
+/**
+ * Placeholders in a template that are not recognised, so typos are caught
+ * when the template is saved rather than printed into an agreement
+ */
+export const findUnknownPlaceholders = (text: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!AGREEMENT_PLACEHOLDERS[match[1]]) {
+      unknown.add(match[1]);
+    }
+  }
+  return [...unknown];
+};
+
+const fillPlaceholders = (text: string, context: AgreementContext): string =>
+  text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    AGREEMENT_PLACEHOLDERS[name]
+      ? AGREEMENT_PLACEHOLDERS[name].value(context)
+      : match
+  );
+
+/**
+ * Render the tenancy agreement for a lease from one of the landlord's
+ * templates (their default one if none is given), store it and link it
+ * to the lease. Generating again replaces the stored agreement.
+ */
+export const generateLeaseAgreement = async (
+  lease: Lease,
+  templateId?: string
+): Promise<Lease> => {
+  if (lease.status !== "active" && lease.status !== "pending") {
+    throw new ApiError(
+      "Agreements can only be generated for active or pending leases.",
+      400
+    );
+  }
+
+  const template = await LeaseTemplate.findOne({
+    where: templateId
+      ? { id: templateId, landlordId: lease.landlordId }
+      : { landlordId: lease.landlordId, isDefault: true },
+  });
+
+  if (templateId && !template) {
+    throw new ApiError("Lease template not found or access denied.", 404);
+  }
+
+  const [tenant, landlord, unit] = await Promise.all([
+    User.findByPk(lease.tenantId),
+    User.findByPk(lease.landlordId),
+    Unit.findByPk(lease.unitId, {
+      include: [{ model: Property, as: "property" }],
+    }),
+  ]);
+
+  if (!tenant || !landlord || !unit) {
+    throw new ApiError("Lease details are incomplete.", 400);
+  }
+
+  const property = (unit as any).property as Property;
+  const generatedAt = new Date();
+  const context: AgreementContext = {
+    lease,
+    tenant,
+    landlord,
+    unit,
+    property,
+    generatedAt,
+  };
+  const { title, body } = template || DEFAULT_AGREEMENT_TEMPLATE;
+
+  const pdf = await renderAgreementPdf({
+    title: fillPlaceholders(title, context),
+    body: fillPlaceholders(body, context),
+    generatedAt,
+    propertyName: property.name,
+    unitName: unit.name,
+    landlordName: fullName(landlord),
+    tenantName: fullName(tenant),
+  });
+
+  await fs.mkdir(getStorageDir(), { recursive: true });
+  await fs.writeFile(getAgreementPath(lease.id), pdf);
+
+  await lease.update({
+    agreementTemplateId: template ? template.id : null,
+    agreementUrl: `/api/leases/${lease.id}/agreement`,
+    agreementGeneratedAt: generatedAt,
+  });
+
+  logger.info(
+    `Agreement generated for lease ${lease.id} from ${
+      template ? `template ${template.id}` : "the built-in template"
+    }`
+  );
+
+  return lease;
+};
+
+/**
+ * Load a lease's stored agreement. Unlike receipts it is not re-rendered
+ * when missing, since the template may have changed since it was issued.
+ */
+export const getAgreementPdf = async (lease: Lease): Promise<Buffer> => {
+  if (!lease.agreementGeneratedAt) {
+    throw new ApiError("No agreement has been generated for this lease.", 404);
+  }
+
+  try {
+    return await fs.readFile(getAgreementPath(lease.id));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+
+    logger.warn(`Agreement file for lease ${lease.id} missing`);
+    throw new ApiError(
+      "The agreement file is missing. Generate the agreement again.",
+      404
+    );
+  }
+};
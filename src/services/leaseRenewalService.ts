@@ -0,0 +1,512 @@
+import { Op, Transaction } from "sequelize";
+import sequelize from "../config/database";
+import { Lease, LeaseRenewal, Property, Unit, User } from "../models";
+import logger from "../config/logger";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  sendLeaseExpiryReminderEmail,
+  sendLeaseRenewalOfferEmail,
+  sendLeaseRenewalResponseEmail,
+} from "./emailService";
+import {
+  recordLeaseStatusChange,
+  transitionLease,
+} from "./leaseStatusService";
+
+export interface RenewalOfferInput {
+  startDate?: string | Date; // Defaults to the current lease's end date
+  endDate: string | Date;
+  monthlyRent?: number;
+  escalationPercent?: number;
+  respondBy?: string | Date; // Defaults to the current lease's end date
+  message?: string;
+}
+
+export interface RenewalProcessingSummary {
+  offersExpired: number;
+  remindersSent: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const unitInclude = {
+  model: Unit,
+  as: "unit",
+  attributes: ["id", "name"],
+  include: [{ model: Property, as: "property", attributes: ["id", "name"] }],
+};
+
+/**
+ * Apply a percentage change to a monthly rent, rounded to the cent
+ */
+export const calculateEscalatedRent = (
+  rent: number | string,
+  escalationPercent: number
+): number => Math.round(Number(rent) * (100 + escalationPercent)) / 100;
+
+/**
+ * The lease that renewed this one, if a renewal has been accepted
+ */
+const findSuccessorLease = (leaseId: string, transaction?: Transaction) =>
+  Lease.findOne({
+    where: {
+      previousLeaseId: leaseId,
+      status: { [Op.in]: ["pending", "active"] },
+    },
+    transaction,
+  });
+
+/**
+ * Offer the tenant a renewal of an active lease. The new rent is either
+ * given directly or derived from the current rent and an escalation
+ * percentage; without either the rent stays the same.
+ */
+export const createRenewalOffer = async (
+  lease: Lease,
+  input: RenewalOfferInput
+): Promise<LeaseRenewal> => {
+  if (lease.status !== "active") {
+    throw new ApiError("Only active leases can be renewed.", 400);
+  }
+
+  if (await findSuccessorLease(lease.id)) {
+    throw new ApiError("This lease has already been renewed.", 400);
+  }
+
+  const pendingOffer = await LeaseRenewal.findOne({
+    where: { leaseId: lease.id, status: "pending" },
+  });
+
+  if (pendingOffer) {
+    throw new ApiError(
+      "This lease already has a pending renewal offer. Withdraw it before making a new one.",
+      400
+    );
+  }
+
+  const currentEnd = new Date(lease.endDate);
+  const startDate = input.startDate ? new Date(input.startDate) : currentEnd;
+  const endDate = new Date(input.endDate);
+  const respondBy = input.respondBy ? new Date(input.respondBy) : currentEnd;
+
+  // Starting the new lease before the current one ends would bill both
+  if (startDate < currentEnd) {
+    throw new ApiError(
+      "The renewal must start on or after the current lease's end date.",
+      400
+    );
+  }
+
+  if (endDate <= startDate) {
+    throw new ApiError("The renewal must end after it starts.", 400);
+  }
+
+  if (respondBy <= new Date() || respondBy > startDate) {
+    throw new ApiError(
+      "The response deadline must be in the future and no later than the renewal start date.",
+      400
+    );
+  }
+
+  const proposedRent =
+    input.monthlyRent ??
+    (input.escalationPercent !== undefined
+      ? calculateEscalatedRent(lease.monthlyRent, input.escalationPercent)
+      : Number(lease.monthlyRent));
+
+  const renewal = await LeaseRenewal.create({
+    leaseId: lease.id,
+    landlordId: lease.landlordId,
+    tenantId: lease.tenantId,
+    startDate,
+    endDate,
+    currentRent: lease.monthlyRent,
+    proposedRent,
+    escalationPercent:
+      input.monthlyRent === undefined ? input.escalationPercent : undefined,
+    respondBy,
+    message: input.message,
+  });
+
+  logger.info(`Renewal offer ${renewal.id} made on lease ${lease.id}`);
+
+  try {
+    await notifyRenewalOffer(renewal, lease);
+  } catch (error) {
+    logger.error(`Failed to send renewal offer ${renewal.id}:`, error);
+  }
+
+  return renewal;
+};
+
+/**
+ * Make an accepted renewal's lease the unit's active lease. The previous
+ * lease is expired in the same transaction so the unit is never without an
+ * active lease and never has two.
+ */
+const handOverLease = async (
+  previousLease: Lease,
+  successor: Lease,
+  transaction: Transaction
+): Promise<void> => {
+  if (previousLease.status === "active") {
+    await transitionLease(previousLease, "expired", "Replaced by renewal", {
+      transaction,
+    });
+  }
+  await transitionLease(successor, "active", "Renewal started", {
+    transaction,
+  });
+};
+
+/**
+ * Tenant accepts a renewal offer: the successor lease is created straight
+ * away and becomes active when its start date arrives
+ */
+export const acceptRenewalOffer = async (
+  renewal: LeaseRenewal
+): Promise<Lease> => {
+  const transaction = await sequelize.transaction();
+  let successor: Lease;
+
+  try {
+    // Lock the offer so it cannot be accepted twice
+    const offer = await LeaseRenewal.findByPk(renewal.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!offer || offer.status !== "pending") {
+      throw new ApiError("This renewal offer is no longer open.", 400);
+    }
+
+    if (new Date(offer.respondBy) < new Date()) {
+      throw new ApiError("This renewal offer has expired.", 400);
+    }
+
+    const lease = await Lease.findByPk(offer.leaseId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!lease || lease.status !== "active") {
+      throw new ApiError("The lease being renewed is no longer active.", 400);
+    }
+
+    // The deposit already held carries over; no new deposit is charged
+    successor = await Lease.create(
+      {
+        tenantId: lease.tenantId,
+        unitId: lease.unitId,
+        landlordId: lease.landlordId,
+        startDate: offer.startDate,
+        endDate: offer.endDate,
+        monthlyRent: offer.proposedRent,
+        securityDeposit: lease.securityDeposit,
+        moveInDate: lease.moveInDate,
+        previousLeaseId: lease.id,
+        endOfTermPolicy: lease.endOfTermPolicy,
+        status: "pending",
+      },
+      { transaction }
+    );
+    await recordLeaseStatusChange(successor, null, "Renewal accepted", {
+      changedBy: offer.tenantId,
+      transaction,
+    });
+
+    await offer.update(
+      {
+        status: "accepted",
+        respondedAt: new Date(),
+        successorLeaseId: successor.id,
+      },
+      { transaction }
+    );
+
+    if (new Date(offer.startDate) <= new Date()) {
+      await handOverLease(lease, successor, transaction);
+    }
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  await renewal.reload();
+
+  logger.info(
+    `Renewal offer ${renewal.id} accepted; successor lease ${successor.id}`
+  );
+
+  try {
+    await notifyRenewalResponse(renewal);
+  } catch (error) {
+    logger.error(
+      `Failed to send renewal acceptance for offer ${renewal.id}:`,
+      error
+    );
+  }
+
+  return successor;
+};
+
+/**
+ * Tenant declines a renewal offer
+ */
+export const declineRenewalOffer = async (
+  renewal: LeaseRenewal,
+  reason?: string
+): Promise<LeaseRenewal> => {
+  if (renewal.status !== "pending") {
+    throw new ApiError("This renewal offer is no longer open.", 400);
+  }
+
+  await renewal.update({
+    status: "declined",
+    respondedAt: new Date(),
+    declineReason: reason,
+  });
+
+  logger.info(`Renewal offer ${renewal.id} declined`);
+
+  try {
+    await notifyRenewalResponse(renewal);
+  } catch (error) {
+    logger.error(
+      `Failed to send renewal decline for offer ${renewal.id}:`,
+      error
+    );
+  }
+
+  return renewal;
+};
+
+/**
+ * Landlord withdraws an offer the tenant has not answered yet
+ */
+export const withdrawRenewalOffer = async (
+  renewal: LeaseRenewal
+): Promise<LeaseRenewal> => {
+  if (renewal.status !== "pending") {
+    throw new ApiError("Only pending renewal offers can be withdrawn.", 400);
+  }
+
+  return renewal.update({ status: "withdrawn" });
+};
+
+/**
+ * Cancel renewals of a lease that is being terminated early: open offers
+ * are withdrawn and an accepted successor that has not started is
+ * terminated with it
+ */
+export const cancelRenewalsForLease = async (
+  lease: Lease,
+  transaction: Transaction,
+  changedBy?: string
+): Promise<void> => {
+  await LeaseRenewal.update(
+    { status: "withdrawn" },
+    { where: { leaseId: lease.id, status: "pending" }, transaction }
+  );
+
+  const successors = await Lease.findAll({
+    where: { previousLeaseId: lease.id, status: "pending" },
+    transaction,
+  });
+
+  for (const successor of successors) {
+    const reason = "Previous lease terminated before the renewal started";
+    await transitionLease(successor, "terminated", reason, {
+      changedBy,
+      transaction,
+      changes: { terminationReason: reason },
+    });
+  }
+};
+
+/**
+ * Expire offers the tenant did not answer in time
+ */
+export const expireRenewalOffers = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const [count] = await LeaseRenewal.update(
+    { status: "expired" },
+    { where: { status: "pending", respondBy: { [Op.lt]: now } } }
+  );
+
+  return count;
+};
+
+/**
+ * Email the landlord and tenant of every active, unrenewed lease ending
+ * within LEASE_RENEWAL_REMINDER_DAYS. Each lease is only reminded once.
+ */
+export const sendRenewalReminders = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const reminderDays = Number(process.env.LEASE_RENEWAL_REMINDER_DAYS || 60);
+  if (reminderDays <= 0) {
+    return 0;
+  }
+
+  const whereClause: any = {
+    status: "active",
+    renewalReminderSentAt: null,
+    endDate: {
+      [Op.gt]: now,
+      [Op.lte]: new Date(now.getTime() + reminderDays * DAY_MS),
+    },
+  };
+
+  const leases = await Lease.findAll({
+    where: whereClause,
+    include: [
+      unitInclude,
+      {
+        model: User,
+        as: "tenant",
+        attributes: ["id", "firstName", "lastName", "email"],
+      },
+      {
+        model: User,
+        as: "landlord",
+        attributes: ["id", "firstName", "email"],
+      },
+    ],
+  });
+
+  let sent = 0;
+
+  for (const lease of leases) {
+    try {
+      if (await findSuccessorLease(lease.id)) {
+        continue;
+      }
+
+      const pendingOffer = await LeaseRenewal.count({
+        where: { leaseId: lease.id, status: "pending" },
+      });
+
+      const endDate = new Date(lease.endDate);
+      const common = {
+        unitName: lease.unit?.name || "your unit",
+        propertyName: lease.unit?.property?.name,
+        endDate,
+        daysRemaining: Math.ceil((endDate.getTime() - now.getTime()) / DAY_MS),
+        renewalOfferPending: pendingOffer > 0,
+      };
+
+      if (lease.landlord) {
+        await sendLeaseExpiryReminderEmail(
+          lease.landlord.email,
+          lease.landlord.firstName,
+          {
+            ...common,
+            recipient: "landlord",
+            tenantName: lease.tenant
+              ? `${lease.tenant.firstName} ${lease.tenant.lastName}`
+              : undefined,
+          }
+        );
+      }
+
+      if (lease.tenant) {
+        await sendLeaseExpiryReminderEmail(
+          lease.tenant.email,
+          lease.tenant.firstName,
+          { ...common, recipient: "tenant" }
+        );
+      }
+
+      await lease.update({ renewalReminderSentAt: now });
+      sent++;
+    } catch (error) {
+      logger.error(
+        `Failed to send renewal reminder for lease ${lease.id}:`,
+        error
+      );
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Run the renewal housekeeping: expire unanswered offers and send expiry
+ * reminders. Accepted renewals are started by the lease status scheduler.
+ */
+export const processLeaseRenewals = async (
+  now: Date = new Date()
+): Promise<RenewalProcessingSummary> => {
+  const summary: RenewalProcessingSummary = {
+    offersExpired: await expireRenewalOffers(now),
+    remindersSent: await sendRenewalReminders(now),
+  };
+
+  if (summary.offersExpired > 0 || summary.remindersSent > 0) {
+    logger.info("Lease renewal processing completed", summary);
+  }
+
+  return summary;
+};
+
+const notifyRenewalOffer = async (
+  renewal: LeaseRenewal,
+  lease: Lease
+): Promise<void> => {
+  const [tenant, landlord, unit] = await Promise.all([
+    User.findByPk(renewal.tenantId),
+    User.findByPk(renewal.landlordId),
+    Unit.findByPk(lease.unitId, {
+      include: [{ model: Property, as: "property", attributes: ["id", "name"] }],
+    }),
+  ]);
+
+  if (!tenant) {
+    return;
+  }
+
+  await sendLeaseRenewalOfferEmail(tenant.email, tenant.firstName, {
+    landlordName: landlord
+      ? `${landlord.firstName} ${landlord.lastName}`
+      : "Your landlord",
+    unitName: unit?.name || "your unit",
+    propertyName: (unit as any)?.property?.name,
+    currentEndDate: new Date(lease.endDate),
+    startDate: new Date(renewal.startDate),
+    endDate: new Date(renewal.endDate),
+    currentRent: Number(renewal.currentRent),
+    proposedRent: Number(renewal.proposedRent),
+    escalationPercent:
+      renewal.escalationPercent != null
+        ? Number(renewal.escalationPercent)
+        : undefined,
+    respondBy: new Date(renewal.respondBy),
+    message: renewal.message,
+  });
+};
+
+const notifyRenewalResponse = async (renewal: LeaseRenewal): Promise<void> => {
+  const [tenant, landlord, lease] = await Promise.all([
+    User.findByPk(renewal.tenantId),
+    User.findByPk(renewal.landlordId),
+    Lease.findByPk(renewal.leaseId, { include: [unitInclude] }),
+  ]);
+
+  if (!landlord) {
+    return;
+  }
+
+  await sendLeaseRenewalResponseEmail(landlord.email, landlord.firstName, {
+    tenantName: tenant ? `${tenant.firstName} ${tenant.lastName}` : "The tenant",
+    unitName: lease?.unit?.name || "the unit",
+    accepted: renewal.status === "accepted",
+    startDate: new Date(renewal.startDate),
+    endDate: new Date(renewal.endDate),
+    proposedRent: Number(renewal.proposedRent),
+    declineReason: renewal.declineReason,
+  });
+};
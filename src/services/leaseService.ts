@@ -0,0 +1,180 @@
+import { Op, Transaction } from "sequelize";
+import { Lease, Property, Unit } from "../models";
+import { LeaseEndOfTermPolicy } from "../models/Lease";
+import { ApiError } from "../middleware/errorHandler";
+import { createDepositForLease, findLeaseDeposit } from "./depositService";
+import { cancelRenewalsForLease } from "./leaseRenewalService";
+import {
+  recordLeaseStatusChange,
+  transitionLease,
+} from "./leaseStatusService";
+import {
+  findLandlordTenant,
+  linkTenantToLandlord,
+} from "./landlordTenantService";
+
+export interface LeaseTermsInput {
+  tenantId: string;
+  unitId: string;
+  startDate: string | Date;
+  endDate: string | Date;
+  monthlyRent?: number; // Defaults to the unit's rent
+  securityDeposit?: number;
+  moveInDate?: string | Date;
+  notes?: string;
+  endOfTermPolicy?: LeaseEndOfTermPolicy;
+}
+
+export interface LeaseTerminationInput {
+  terminationReason?: string;
+  moveOutDate?: string | Date;
+  terminatedBy?: string;
+}
+
+/**
+ * Create a lease for one of the landlord's units: raise the deposit charge,
+ * link the tenant to the landlord and mark the unit occupied. A lease that
+ * starts in the future is pending until the status scheduler starts it.
+ * Runs inside the caller's transaction; rule violations are thrown as
+ * ApiErrors.
+ */
+export const createLeaseRecord = async (
+  landlordId: string,
+  input: LeaseTermsInput,
+  transaction: Transaction
+): Promise<Lease> => {
+  // Lock the unit so two concurrent assignments cannot both succeed
+  const unit = await Unit.findOne({
+    where: { id: input.unitId },
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: { landlordId },
+      },
+    ],
+    lock: transaction.LOCK.UPDATE,
+    transaction,
+  });
+
+  if (!unit) {
+    throw new ApiError("Unit not found or access denied.", 404);
+  }
+
+  // Verify the tenant is (or was) one of this landlord's tenants
+  const tenant = await findLandlordTenant(landlordId, input.tenantId, {
+    transaction,
+  });
+
+  if (!tenant) {
+    throw new ApiError("Tenant not found or access denied.", 404);
+  }
+
+  const existingLease = await Lease.findOne({
+    where: {
+      unitId: unit.id,
+      status: { [Op.in]: ["active", "pending"] },
+    },
+    transaction,
+  });
+
+  if (existingLease) {
+    throw new ApiError("Unit already has an active lease.", 400);
+  }
+
+  const startDate = new Date(input.startDate);
+  const status = startDate > new Date() ? "pending" : "active";
+
+  const lease = await Lease.create(
+    {
+      tenantId: tenant.id,
+      unitId: unit.id,
+      landlordId,
+      startDate,
+      endDate: new Date(input.endDate),
+      monthlyRent: input.monthlyRent ?? unit.rentAmount,
+      securityDeposit: input.securityDeposit || 0,
+      moveInDate: input.moveInDate ? new Date(input.moveInDate) : undefined,
+      notes: input.notes,
+      endOfTermPolicy: input.endOfTermPolicy,
+      status,
+    },
+    { transaction }
+  );
+  await recordLeaseStatusChange(lease, null, "Lease created", {
+    changedBy: landlordId,
+    transaction,
+  });
+
+  // Raise the security deposit charge
+  await createDepositForLease(lease, transaction);
+
+  // A returning tenant becomes a current tenant again
+  await linkTenantToLandlord(landlordId, tenant.id, transaction);
+
+  if (status === "active") {
+    await unit.update({ status: "occupied" }, { transaction });
+  }
+
+  return lease;
+};
+
+/**
+ * Terminate an active lease and free its unit, or cancel a pending one,
+ * cancelling any renewal of it. The security deposit must be settled or
+ * deferred first. Runs inside the caller's transaction.
+ */
+export const terminateLeaseRecord = async (
+  lease: Lease,
+  input: LeaseTerminationInput,
+  transaction: Transaction
+): Promise<Lease> => {
+  if (lease.status !== "active" && lease.status !== "pending") {
+    throw new ApiError(
+      "Only active or pending leases can be terminated.",
+      400
+    );
+  }
+
+  const wasActive = lease.status === "active";
+  // A pending lease never started, so nobody moves out
+  let moveOutDate: Date | undefined;
+  if (wasActive) {
+    moveOutDate = input.moveOutDate ? new Date(input.moveOutDate) : new Date();
+  }
+
+  // The deposit must be settled (or explicitly deferred) before move-out
+  const deposit = await findLeaseDeposit(lease.id, transaction);
+
+  if (deposit && deposit.status === "open") {
+    throw new ApiError(
+      "Settle or defer the security deposit before terminating this lease.",
+      400
+    );
+  }
+
+  await transitionLease(
+    lease,
+    "terminated",
+    input.terminationReason || "Terminated by landlord",
+    {
+      changedBy: input.terminatedBy,
+      transaction,
+      changes: {
+        moveOutDate,
+        terminationReason: input.terminationReason,
+      },
+    }
+  );
+
+  await cancelRenewalsForLease(lease, transaction, input.terminatedBy);
+
+  if (wasActive) {
+    await Unit.update(
+      { status: "vacant" },
+      { where: { id: lease.unitId }, transaction }
+    );
+  }
+
+  return lease;
+};
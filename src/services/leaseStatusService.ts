@@ -0,0 +1,259 @@
+import { Op, Transaction } from "sequelize";
+import sequelize from "../config/database";
+import { Lease, LeaseStatusChange, Unit } from "../models";
+import { LeaseAttributes } from "../models/Lease";
+import logger from "../config/logger";
+import { addMonths } from "./invoiceService";
+
+type LeaseStatus = Lease["status"];
+
+export interface LeaseStatusSummary {
+  leasesActivated: number;
+  leasesExpired: number;
+  leasesRolledOver: number; // Extended month-to-month
+  leasesSkipped: number; // Could not change yet (see log)
+}
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Record a lease status transition in the audit trail and the log
+ */
+export const recordLeaseStatusChange = async (
+  lease: Lease,
+  fromStatus: LeaseStatus | null,
+  reason: string,
+  options: { changedBy?: string; transaction?: Transaction } = {}
+): Promise<void> => {
+  await LeaseStatusChange.create(
+    {
+      leaseId: lease.id,
+      fromStatus,
+      toStatus: lease.status,
+      reason,
+      changedBy: options.changedBy,
+    },
+    { transaction: options.transaction }
+  );
+
+  logger.info(
+    `Lease ${lease.id}: ${fromStatus || "new"} -> ${lease.status} (${reason})${
+      options.changedBy ? ` by ${options.changedBy}` : ""
+    }`
+  );
+};
+
+/**
+ * Move a lease to a new status, saving any accompanying changes (e.g. the
+ * move-out date), and record the transition
+ */
+export const transitionLease = async (
+  lease: Lease,
+  toStatus: LeaseStatus,
+  reason: string,
+  options: {
+    changedBy?: string;
+    transaction?: Transaction;
+    changes?: Partial<LeaseAttributes>;
+  } = {}
+): Promise<void> => {
+  const fromStatus = lease.status;
+  await lease.update(
+    { ...options.changes, status: toStatus },
+    { transaction: options.transaction }
+  );
+  await recordLeaseStatusChange(lease, fromStatus, reason, options);
+};
+
+/**
+ * Start pending leases whose start date has arrived. A renewal takes over
+ * from the lease it renewed in the same transaction; any other lease waits
+ * while its unit still has an active lease.
+ */
+export const activatePendingLeases = async (
+  now: Date = new Date(),
+  landlordId?: string
+): Promise<{ activated: number; skipped: number }> => {
+  const whereClause: any = {
+    status: "pending",
+    startDate: { [Op.lte]: now },
+  };
+  if (landlordId) {
+    whereClause.landlordId = landlordId;
+  }
+
+  const leases = await Lease.findAll({
+    where: whereClause,
+    order: [["startDate", "ASC"]],
+  });
+
+  let activated = 0;
+  let skipped = 0;
+
+  for (const pending of leases) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const lease = await Lease.findByPk(pending.id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!lease || lease.status !== "pending") {
+        await transaction.rollback();
+        continue;
+      }
+
+      const currentLease = await Lease.findOne({
+        where: { unitId: lease.unitId, status: "active" },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (currentLease) {
+        if (currentLease.id !== lease.previousLeaseId) {
+          await transaction.rollback();
+          logger.warn(
+            `Lease ${lease.id} not activated: unit ${lease.unitId} still has active lease ${currentLease.id}`
+          );
+          skipped++;
+          continue;
+        }
+
+        await transitionLease(currentLease, "expired", "Replaced by renewal", {
+          transaction,
+        });
+      }
+
+      await transitionLease(
+        lease,
+        "active",
+        lease.previousLeaseId ? "Renewal started" : "Start date reached",
+        { transaction }
+      );
+
+      await Unit.update(
+        { status: "occupied" },
+        { where: { id: lease.unitId }, transaction }
+      );
+
+      await transaction.commit();
+      activated++;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error(`Failed to activate lease ${pending.id}:`, error);
+    }
+  }
+
+  return { activated, skipped };
+};
+
+/**
+ * Handle active leases whose end date has passed: leases set to
+ * month-to-month are extended a month at a time, the rest expire and free
+ * their unit. Leases with an accepted renewal that has not started yet
+ * stay active until the renewal takes over.
+ */
+export const endExpiredLeases = async (
+  now: Date = new Date(),
+  landlordId?: string
+): Promise<{ expired: number; rolledOver: number; skipped: number }> => {
+  const whereClause: any = {
+    status: "active",
+    endDate: { [Op.lte]: now },
+  };
+  if (landlordId) {
+    whereClause.landlordId = landlordId;
+  }
+
+  const leases = await Lease.findAll({ where: whereClause });
+
+  let expired = 0;
+  let rolledOver = 0;
+  let skipped = 0;
+
+  for (const lease of leases) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const successor = await Lease.findOne({
+        where: { previousLeaseId: lease.id, status: "pending" },
+        transaction,
+      });
+
+      if (successor) {
+        await transaction.rollback();
+        skipped++;
+        continue;
+      }
+
+      if (lease.endOfTermPolicy === "month_to_month") {
+        // Extend from the original end date so month lengths do not drift
+        const anchor = new Date(lease.monthToMonthSince || lease.endDate);
+        let months = 1;
+        while (addMonths(anchor, months) <= now) months++;
+        const newEndDate = addMonths(anchor, months);
+
+        await lease.update(
+          { endDate: newEndDate, monthToMonthSince: anchor },
+          { transaction }
+        );
+        await recordLeaseStatusChange(
+          lease,
+          "active",
+          `Rolled over month-to-month until ${formatDate(newEndDate)}`,
+          { transaction }
+        );
+        rolledOver++;
+      } else {
+        await transitionLease(lease, "expired", "End date reached", {
+          transaction,
+        });
+        await Unit.update(
+          { status: "vacant" },
+          { where: { id: lease.unitId, status: "occupied" }, transaction }
+        );
+        expired++;
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error(`Failed to end lease ${lease.id}:`, error);
+    }
+  }
+
+  return { expired, rolledOver, skipped };
+};
+
+/**
+ * Run all lease status transitions as of a point in time, optionally for
+ * one landlord's leases only
+ */
+export const runLeaseStatusTransitions = async (
+  options: { landlordId?: string; asOf?: Date } = {}
+): Promise<LeaseStatusSummary> => {
+  const asOf = options.asOf || new Date();
+
+  // Activate first so a renewal starting today replaces its predecessor
+  // instead of the predecessor expiring and the unit showing vacant
+  const activation = await activatePendingLeases(asOf, options.landlordId);
+  const ending = await endExpiredLeases(asOf, options.landlordId);
+
+  const summary: LeaseStatusSummary = {
+    leasesActivated: activation.activated,
+    leasesExpired: ending.expired,
+    leasesRolledOver: ending.rolledOver,
+    leasesSkipped: activation.skipped + ending.skipped,
+  };
+
+  if (
+    summary.leasesActivated > 0 ||
+    summary.leasesExpired > 0 ||
+    summary.leasesRolledOver > 0
+  ) {
+    logger.info("Lease status transitions completed", summary);
+  }
+
+  return summary;
+};
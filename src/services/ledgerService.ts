@@ -0,0 +1,248 @@
+import { Op } from "sequelize";
+import {
+  DepositDeduction,
+  Invoice,
+  Lease,
+  LedgerAdjustment,
+  Payment,
+  SecurityDeposit,
+  Unit,
+} from "../models";
+import { DateRange } from "../utils/filters";
+
+export type LedgerEntryType =
+  | "charge"
+  | "deposit"
+  | "payment"
+  | "credit"
+  | "adjustment";
+
+export interface LedgerEntry {
+  date: Date;
+  type: LedgerEntryType;
+  description: string;
+  reference: string;
+  leaseId: string;
+  unitName?: string;
+  debit: number; // Increases what the tenant owes
+  credit: number; // Reduces what the tenant owes
+  balance: number;
+}
+
+export interface LedgerStatement {
+  startDate: Date | null;
+  endDate: Date | null;
+  openingBalance: number;
+  closingBalance: number;
+  totals: {
+    charges: number;
+    payments: number;
+    credits: number;
+    adjustments: number;
+  };
+  entries: LedgerEntry[];
+}
+
+const toCents = (value: number | string): number =>
+  Math.round(Number(value) * 100);
+
+// Charges sort before payments on the same day so balances read naturally
+const typeOrder: Record<LedgerEntryType, number> = {
+  charge: 0,
+  deposit: 0,
+  adjustment: 1,
+  payment: 2,
+  credit: 2,
+};
+
+/**
+ * Build a date-ordered statement of charges, payments, deposits, credits and
+ * adjustments for one or more leases, with a running balance
+ */
+export const buildLedger = async (
+  leases: Lease[],
+  range: DateRange = {}
+): Promise<LedgerStatement> => {
+  const leaseIds = leases.map((lease) => lease.id);
+
+  const units = await Unit.findAll({
+    where: { id: { [Op.in]: leases.map((lease) => lease.unitId) } },
+    attributes: ["id", "name"],
+  });
+  const unitNames = new Map(units.map((unit) => [unit.id, unit.name]));
+  const unitNameForLease = new Map(
+    leases.map((lease) => [lease.id, unitNames.get(lease.unitId)])
+  );
+
+  const upTo = range.end ? { [Op.lte]: range.end } : undefined;
+
+  const invoiceWhere: any = {
+    leaseId: { [Op.in]: leaseIds },
+    status: { [Op.ne]: "void" },
+  };
+  if (upTo) invoiceWhere.dueDate = upTo;
+
+  const paymentWhere: any = {
+    leaseId: { [Op.in]: leaseIds },
+    status: "successful",
+  };
+  if (upTo) paymentWhere.paymentDate = upTo;
+
+  const adjustmentWhere: any = { leaseId: { [Op.in]: leaseIds } };
+  if (upTo) adjustmentWhere.effectiveDate = upTo;
+
+  const depositWhere: any = {
+    leaseId: { [Op.in]: leaseIds },
+    status: "settled",
+  };
+  if (upTo) depositWhere.settledAt = upTo;
+
+  const [invoices, payments, adjustments, deposits] = await Promise.all([
+    Invoice.findAll({ where: invoiceWhere }),
+    Payment.findAll({ where: paymentWhere }),
+    LedgerAdjustment.findAll({ where: adjustmentWhere }),
+    SecurityDeposit.findAll({
+      where: depositWhere,
+      include: [{ model: DepositDeduction, as: "deductions" }],
+    }),
+  ]);
+
+  // Amounts are held in cents until the statement is returned
+  const rows: Array<Omit<LedgerEntry, "balance"> & { amount: number }> = [];
+
+  for (const invoice of invoices) {
+    rows.push({
+      date: new Date(invoice.dueDate),
+      type: invoice.type === "deposit" ? "deposit" : "charge",
+      description: invoice.description || `${invoice.type} charge`,
+      reference: invoice.invoiceNumber,
+      leaseId: invoice.leaseId,
+      unitName: unitNameForLease.get(invoice.leaseId),
+      debit: 0,
+      credit: 0,
+      amount: toCents(invoice.amount),
+    });
+  }
+
+  for (const payment of payments) {
+    rows.push({
+      date: new Date(payment.paymentDate),
+      type: "payment",
+      description: payment.notes || "Payment received",
+      reference: payment.mpesaTransactionId,
+      leaseId: payment.leaseId!,
+      unitName: unitNameForLease.get(payment.leaseId!),
+      debit: 0,
+      credit: 0,
+      amount: -toCents(payment.amount),
+    });
+  }
+
+  for (const adjustment of adjustments) {
+    const cents = toCents(adjustment.amount);
+    rows.push({
+      date: new Date(adjustment.effectiveDate),
+      type: adjustment.type,
+      description: adjustment.description,
+      reference: adjustment.id,
+      leaseId: adjustment.leaseId,
+      unitName: unitNameForLease.get(adjustment.leaseId),
+      debit: 0,
+      credit: 0,
+      amount: adjustment.type === "credit" ? -Math.abs(cents) : cents,
+    });
+  }
+
+  // A settled deposit is released back to the tenant's account, then the
+  // deductions and the refund paid out are charged against it
+  for (const deposit of deposits) {
+    const date = new Date(deposit.settledAt!);
+    const base = {
+      date,
+      reference: deposit.id,
+      leaseId: deposit.leaseId,
+      unitName: unitNameForLease.get(deposit.leaseId),
+      debit: 0,
+      credit: 0,
+    };
+
+    if (toCents(deposit.heldAmount || 0) > 0) {
+      rows.push({
+        ...base,
+        type: "credit",
+        description: "Security deposit released",
+        amount: -toCents(deposit.heldAmount!),
+      });
+    }
+
+    for (const deduction of (deposit.deductions || []) as DepositDeduction[]) {
+      rows.push({
+        ...base,
+        type: "charge",
+        description: `Deposit deduction: ${deduction.description}`,
+        amount: toCents(deduction.amount),
+      });
+    }
+
+    if (toCents(deposit.refundAmount || 0) > 0) {
+      rows.push({
+        ...base,
+        type: "adjustment",
+        description: "Security deposit refund",
+        amount: toCents(deposit.refundAmount!),
+      });
+    }
+  }
+
+  rows.sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() || typeOrder[a.type] - typeOrder[b.type]
+  );
+
+  let openingCents = 0;
+  let balanceCents = 0;
+  const totals = { charges: 0, payments: 0, credits: 0, adjustments: 0 };
+  const entries: LedgerEntry[] = [];
+
+  for (const row of rows) {
+    if (range.start && row.date < range.start) {
+      openingCents += row.amount;
+      balanceCents = openingCents;
+      continue;
+    }
+
+    balanceCents += row.amount;
+
+    if (row.type === "charge" || row.type === "deposit") {
+      totals.charges += row.amount;
+    } else if (row.type === "payment") {
+      totals.payments -= row.amount;
+    } else if (row.type === "credit") {
+      totals.credits -= row.amount;
+    } else {
+      totals.adjustments += row.amount;
+    }
+
+    const { amount, ...entry } = row;
+    entries.push({
+      ...entry,
+      debit: amount > 0 ? amount / 100 : 0,
+      credit: amount < 0 ? -amount / 100 : 0,
+      balance: balanceCents / 100,
+    });
+  }
+
+  return {
+    startDate: range.start || null,
+    endDate: range.end || null,
+    openingBalance: openingCents / 100,
+    closingBalance: balanceCents / 100,
+    totals: {
+      charges: totals.charges / 100,
+      payments: totals.payments / 100,
+      credits: totals.credits / 100,
+      adjustments: totals.adjustments / 100,
+    },
+    entries,
+  };
+};
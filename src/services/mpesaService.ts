@@ -2,12 +2,13 @@ import axios from "axios";
 import crypto from "crypto";
 import logger from "../config/logger";
 
-interface MpesaConfig {
+export interface MpesaConfig {
   consumerKey: string;
   consumerSecret: string;
   shortCode: string;
   passKey: string;
   environment: "sandbox" | "production";
+  baseUrl?: string; // Override the Daraja host (e.g. a local stub for testing)
 }
 
 interface STKPushRequest {
@@ -25,6 +26,32 @@ interface STKPushResponse {
   CustomerMessage: string;
 }
 
+export interface STKPushQueryResponse {
+  ResponseCode: string;
+  ResponseDescription: string;
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: string;
+  ResultDesc: string;
+}
+
+export interface C2BRegisterUrlResponse {
+  OriginatorCoversationID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+}
+
+export interface C2BNotification {
+  transactionType: string;
+  transactionId: string;
+  transactionTime: Date;
+  amount: number;
+  businessShortCode: string;
+  billRefNumber: string;
+  msisdn: string;
+  payerName: string;
+}
+
 interface MpesaAccessTokenResponse {
   access_token: string;
   expires_in: string;
@@ -32,6 +59,9 @@ interface MpesaAccessTokenResponse {
 
 interface CallbackResult {
   success: boolean;
+  merchantRequestId?: string;
+  checkoutRequestId?: string;
+  resultCode?: number;
   transactionId?: string;
   amount?: number;
   phoneNumber?: string;
@@ -43,17 +73,23 @@ class MpesaService {
   private baseUrl: string;
   private tokenUrl: string;
   private stkPushUrl: string;
+  private stkQueryUrl: string;
+  private c2bRegisterUrl: string;
   private accessToken: string = "";
   private tokenExpiry: number = 0;
 
   constructor(config: MpesaConfig) {
     this.config = config;
     this.baseUrl =
-      config.environment === "production"
+      config.baseUrl ||
+      process.env.MPESA_API_BASE_URL ||
+      (config.environment === "production"
         ? "https://api.safaricom.co.ke"
-        : "https://sandbox.safaricom.co.ke";
+        : "https://sandbox.safaricom.co.ke");
     this.tokenUrl = `${this.baseUrl}/oauth/v1/generate?grant_type=client_credentials`;
     this.stkPushUrl = `${this.baseUrl}/mpesa/stkpush/v1/processrequest`;
+    this.stkQueryUrl = `${this.baseUrl}/mpesa/stkpushquery/v1/query`;
+    this.c2bRegisterUrl = `${this.baseUrl}/mpesa/c2b/v1/registerurl`;
   }
 
   private async getAccessToken(): Promise<string> {
@@ -91,6 +127,22 @@ class MpesaService {
     }
   }
 
+  /**
+   * Verify the configured credentials by requesting a fresh access token
+   */
+  public async verifyCredentials(): Promise<void> {
+    this.accessToken = "";
+    this.tokenExpiry = 0;
+    await this.getAccessToken();
+  }
+
+  private generateTimestamp(): string {
+    return new Date()
+      .toISOString()
+      .replace(/[^0-9]/g, "")
+      .slice(0, -3);
+  }
+
   private generatePassword(timestamp: string): string {
     const password = Buffer.from(
       `${this.config.shortCode}${this.config.passKey}${timestamp}`
@@ -103,10 +155,7 @@ class MpesaService {
   ): Promise<STKPushResponse> {
     try {
       const token = await this.getAccessToken();
-      const timestamp = new Date()
-        .toISOString()
-        .replace(/[^0-9]/g, "")
-        .slice(0, -3);
+      const timestamp = this.generateTimestamp();
       const password = this.generatePassword(timestamp);
 
       const data = {
@@ -141,16 +190,132 @@ class MpesaService {
     }
   }
 
-  public processCallback(callbackData: any): CallbackResult {
+  /**
+   * Query the status of an STK Push request (Daraja STK Push Query API)
+   */
+  public async querySTKPushStatus(
+    checkoutRequestId: string
+  ): Promise<STKPushQueryResponse> {
+    try {
+      const token = await this.getAccessToken();
+      const timestamp = this.generateTimestamp();
+
+      const data = {
+        BusinessShortCode: this.config.shortCode,
+        Password: this.generatePassword(timestamp),
+        Timestamp: timestamp,
+        CheckoutRequestID: checkoutRequestId,
+      };
+
+      const response = await axios.post<STKPushQueryResponse>(
+        this.stkQueryUrl,
+        data,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      // Daraja answers with an error while the transaction is still processing
+      logger.error("Error querying STK push status:", error);
+      throw new Error("Failed to query M-Pesa payment status");
+    }
+  }
+
+  /**
+   * Register the C2B validation and confirmation URLs for the paybill
+   */
+  public async registerC2BUrls(
+    validationUrl: string,
+    confirmationUrl: string,
+    responseType: "Completed" | "Cancelled" = "Completed"
+  ): Promise<C2BRegisterUrlResponse> {
+    try {
+      const token = await this.getAccessToken();
+
+      const response = await axios.post<C2BRegisterUrlResponse>(
+        this.c2bRegisterUrl,
+        {
+          ShortCode: this.config.shortCode,
+          ResponseType: responseType,
+          ConfirmationURL: confirmationUrl,
+          ValidationURL: validationUrl,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      logger.error("Error registering C2B URLs:", error);
+      throw new Error("Failed to register M-Pesa C2B URLs");
+    }
+  }
+
+  /**
+   * Parse a C2B validation/confirmation request body
+   */
+  public static processC2BNotification(body: any): C2BNotification {
+    const payerName = [body.FirstName, body.MiddleName, body.LastName]
+      .filter(Boolean)
+      .join(" ");
+
+    return {
+      transactionType: body.TransactionType,
+      transactionId: body.TransID,
+      transactionTime: MpesaService.parseTransactionTime(body.TransTime),
+      amount: Number(body.TransAmount),
+      businessShortCode: String(body.BusinessShortCode || ""),
+      billRefNumber: String(body.BillRefNumber || "").trim(),
+      msisdn: String(body.MSISDN || ""),
+      payerName,
+    };
+  }
+
+  /**
+   * Convert an M-Pesa timestamp (YYYYMMDDHHmmss, East Africa Time) to a Date
+   */
+  public static parseTransactionTime(transTime: string): Date {
+    const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(
+      String(transTime || "")
+    );
+    if (!match) {
+      return new Date();
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    return new Date(
+      `${year}-${month}-${day}T${hour}:${minute}:${second}+03:00`
+    );
+  }
+
+  public static processCallback(callbackData: any): CallbackResult {
     try {
       const {
         Body: { stkCallback },
       } = callbackData;
-      const { ResultCode, ResultDesc, CallbackMetadata } = stkCallback;
+      const {
+        MerchantRequestID,
+        CheckoutRequestID,
+        ResultCode,
+        ResultDesc,
+        CallbackMetadata,
+      } = stkCallback;
 
-      if (ResultCode !== 0) {
+      if (Number(ResultCode) !== 0) {
         return {
           success: false,
+          merchantRequestId: MerchantRequestID,
+          checkoutRequestId: CheckoutRequestID,
+          resultCode: Number(ResultCode),
           resultDesc: ResultDesc,
         };
       }
@@ -161,10 +326,15 @@ class MpesaService {
         return item ? item.Value : null;
       };
 
+      const amount = getMetadataValue("Amount");
+
       return {
         success: true,
+        merchantRequestId: MerchantRequestID,
+        checkoutRequestId: CheckoutRequestID,
+        resultCode: 0,
         transactionId: getMetadataValue("MpesaReceiptNumber"),
-        amount: getMetadataValue("Amount"),
+        amount: amount !== null ? Number(amount) : undefined,
         phoneNumber: getMetadataValue("PhoneNumber")?.toString(),
         resultDesc: ResultDesc,
       };
@@ -177,7 +347,7 @@ class MpesaService {
     }
   }
 
-  public validateCallback(headers: any, body: string): boolean {
+  public static validateCallback(headers: any, body: string): boolean {
     try {
       if (!process.env.MPESA_WEBHOOK_SECRET) {
         logger.warn("M-Pesa webhook secret not configured");
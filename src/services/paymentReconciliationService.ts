@@ -0,0 +1,235 @@
+import { Op } from "sequelize";
+import { Payment, Unit, Property } from "../models";
+import { PaymentAttributes } from "../models/Payment";
+import logger from "../config/logger";
+import { STKPushQueryResponse } from "./mpesaService";
+import { getMpesaServiceForLandlord } from "./landlordMpesaService";
+import { syncPaymentAllocations } from "./invoiceService";
+import { issuePaymentReceipt } from "./receiptService";
+
+export interface PaymentStatusCheckResult {
+  payment: Payment;
+  resolved: boolean;
+  resultCode?: number;
+  resultDesc?: string;
+}
+
+export interface ReconciliationSummary {
+  checked: number;
+  successful: number;
+  failed: number;
+  stillPending: number;
+}
+
+/**
+ * Move a pending payment to its final status. The update only applies while
+ * the payment is still pending and not held for review, so when the
+ * callback and the reconciler race, only the one that resolves it allocates
+ * the payment and issues the receipt. Returns whether this call resolved it.
+ */
+export const resolvePendingPayment = async (
+  payment: Payment,
+  values: Partial<PaymentAttributes> & { status: "successful" | "failed" }
+): Promise<boolean> => {
+  const [updated] = await Payment.update(values, {
+    where: { id: payment.id, status: "pending", needsReview: false },
+  });
+  await payment.reload();
+
+  if (updated === 0) {
+    return false;
+  }
+
+  if (payment.status === "successful") {
+    await syncPaymentAllocations(payment);
+    await issuePaymentReceipt(payment);
+  }
+
+  return true;
+};
+
+/**
+ * Apply an STK Push Query result to a pending payment. Returns whether the
+ * payment is no longer pending.
+ */
+const applyQueryResult = async (
+  payment: Payment,
+  result: STKPushQueryResponse
+): Promise<boolean> => {
+  // ResultCode is absent while the transaction is still being processed
+  if (result.ResultCode === undefined || result.ResultCode === null) {
+    return false;
+  }
+
+  const resultCode = Number(result.ResultCode);
+
+  if (resultCode === 0) {
+    if (
+      await resolvePendingPayment(payment, {
+        status: "successful",
+        paymentDate: new Date(),
+        resultDesc: result.ResultDesc,
+      })
+    ) {
+      logger.info(`Payment ${payment.id} confirmed successful by STK query`);
+    }
+    return payment.status !== "pending";
+  }
+
+  // Any other code is final (e.g. 1032 cancelled by user, 1037 timeout)
+  if (
+    await resolvePendingPayment(payment, {
+      status: "failed",
+      resultDesc: result.ResultDesc,
+    })
+  ) {
+    logger.info(
+      `Payment ${payment.id} marked as failed by STK query (ResultCode ${resultCode}): ${result.ResultDesc}`
+    );
+  }
+  return payment.status !== "pending";
+};
+
+/**
+ * Ask Safaricom for the current state of a pending STK Push payment and
+ * resolve it if the outcome is known
+ */
+export const checkPaymentStatus = async (
+  payment: Payment
+): Promise<PaymentStatusCheckResult> => {
+  if (
+    payment.status !== "pending" ||
+    payment.needsReview ||
+    !payment.checkoutRequestId
+  ) {
+    return { payment, resolved: false };
+  }
+
+  const unit = await Unit.findByPk(payment.unitId, {
+    include: [{ model: Property, as: "property", attributes: ["landlordId"] }],
+  });
+  const landlordId = (unit as any)?.property?.landlordId;
+
+  const mpesaService = landlordId
+    ? await getMpesaServiceForLandlord(landlordId)
+    : null;
+
+  if (!mpesaService) {
+    logger.warn(
+      `Cannot query payment ${payment.id}: landlord M-Pesa settings unavailable`
+    );
+    return { payment, resolved: false };
+  }
+
+  const result = await mpesaService.querySTKPushStatus(
+    payment.checkoutRequestId
+  );
+  const resolved = await applyQueryResult(payment, result);
+
+  return {
+    payment,
+    resolved,
+    resultCode: Number(result.ResultCode),
+    resultDesc: result.ResultDesc,
+  };
+};
+
+/**
+ * Sweep pending M-Pesa payments older than the given age and resolve them
+ * through the STK Push Query API
+ */
+export const reconcilePendingPayments = async (
+  minAgeMinutes: number = Number(
+    process.env.MPESA_RECONCILE_MIN_AGE_MINUTES || 5
+  )
+): Promise<ReconciliationSummary> => {
+  const cutoff = new Date(Date.now() - minAgeMinutes * 60 * 1000);
+
+  // Only STK Push payments carry a CheckoutRequestID; cash/bank entries are
+  // skipped, as are payments held for the landlord to review
+  const whereClause: any = {
+    status: "pending",
+    needsReview: false,
+    checkoutRequestId: { [Op.ne]: null },
+    paymentDate: { [Op.lte]: cutoff },
+  };
+
+  const payments = await Payment.findAll({
+    where: whereClause,
+    order: [["paymentDate", "ASC"]],
+  });
+
+  const summary: ReconciliationSummary = {
+    checked: payments.length,
+    successful: 0,
+    failed: 0,
+    stillPending: 0,
+  };
+
+  for (const payment of payments) {
+    try {
+      const { resolved } = await checkPaymentStatus(payment);
+      if (!resolved) {
+        summary.stillPending++;
+      } else if (payment.status === "successful") {
+        summary.successful++;
+      } else {
+        summary.failed++;
+      }
+    } catch (error) {
+      // Still processing on Safaricom's side, or the query failed; retry next sweep
+      summary.stillPending++;
+      logger.warn(`Could not reconcile payment ${payment.id}:`, error);
+    }
+  }
+
+  if (payments.length > 0) {
+    logger.info("M-Pesa payment reconciliation completed", summary);
+  }
+
+  return summary;
+};
+
+let reconcilerTimer: NodeJS.Timeout | null = null;
+let reconcilerRunning = false;
+
+/**
+ * Start the background reconciler for stuck pending payments
+ */
+export const startPaymentReconciler = (
+  intervalMinutes: number = Number(
+    process.env.MPESA_RECONCILE_INTERVAL_MINUTES || 10
+  )
+): void => {
+  if (reconcilerTimer || intervalMinutes <= 0) {
+    return;
+  }
+
+  reconcilerTimer = setInterval(async () => {
+    // Skip this tick if the previous sweep is still running
+    if (reconcilerRunning) return;
+    reconcilerRunning = true;
+
+    try {
+      await reconcilePendingPayments();
+    } catch (error) {
+      logger.error("M-Pesa payment reconciliation failed:", error);
+    } finally {
+      reconcilerRunning = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  logger.info(
+    `M-Pesa payment reconciler started (every ${intervalMinutes} minutes)`
+  );
+};
+
+/**
+ * Stop the background reconciler
+ */
+export const stopPaymentReconciler = (): void => {
+  if (reconcilerTimer) {
+    clearInterval(reconcilerTimer);
+    reconcilerTimer = null;
+  }
+};
@@ -0,0 +1,301 @@
+import PDFDocument from "pdfkit";
+import { LedgerStatement } from "./ledgerService";
+
+export interface PdfTableColumn<T> {
+  header: string;
+  width: number;
+  align?: "left" | "right" | "center";
+  value: (row: T) => string;
+}
+
+export const formatMoney = (amount: number | string): string =>
+  `KES ${Number(amount).toLocaleString("en-KE", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export const formatDate = (date: Date | string | null | undefined): string =>
+  date ? new Date(date).toISOString().slice(0, 10) : "";
+
+/**
+ * Render a PDF document into a buffer
+ */
+export const renderPdf = (
+  build: (doc: PDFKit.PDFDocument) => void,
+  options: PDFKit.PDFDocumentOptions = { size: "A4", margin: 50 }
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument(options);
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    build(doc);
+    doc.end();
+  });
+
+/**
+ * Standard document heading: title, optional subtitle lines and a rule
+ */
+export const drawHeader = (
+  doc: PDFKit.PDFDocument,
+  title: string,
+  subtitleLines: string[] = []
+): void => {
+  doc.fontSize(18).font("Helvetica-Bold").text(title);
+  doc.moveDown(0.3);
+  doc.fontSize(10).font("Helvetica");
+  subtitleLines.forEach((line) => doc.text(line));
+  doc.moveDown(0.5);
+  doc
+    .moveTo(doc.page.margins.left, doc.y)
+    .lineTo(doc.page.width - doc.page.margins.right, doc.y)
+    .stroke();
+  doc.moveDown(0.5);
+};
+
+/**
+ * Draw a simple table, repeating the header row on each new page
+ */
+export const drawTable = <T>(
+  doc: PDFKit.PDFDocument,
+  columns: PdfTableColumn<T>[],
+  rows: T[]
+): void => {
+  const rowHeight = 16;
+  const left = doc.page.margins.left;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      drawRow(
+        columns.map((column) => column.header),
+        true
+      );
+    }
+
+    const y = doc.y;
+    let x = left;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      doc.text(cell, x + 2, y + 4, {
+        width: column.width - 4,
+        align: column.align || "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(
+    columns.map((column) => column.header),
+    true
+  );
+  rows.forEach((row) =>
+    drawRow(
+      columns.map((column) => column.value(row)),
+      false
+    )
+  );
+  doc.font("Helvetica").fontSize(10);
+};
+
+/**
+ * Render a tenant/lease ledger statement
+ */
+export const renderLedgerPdf = (
+  statement: LedgerStatement,
+  title: string,
+  subtitleLines: string[] = []
+): Promise<Buffer> =>
+  renderPdf((doc) => {
+    const period = `Period: ${formatDate(statement.startDate) || "Start"} to ${
+      formatDate(statement.endDate) || formatDate(new Date())
+    }`;
+
+    drawHeader(doc, title, [...subtitleLines, period]);
+
+    doc.text(`Opening balance: ${formatMoney(statement.openingBalance)}`);
+    doc.moveDown(0.5);
+
+    drawTable(
+      doc,
+      [
+        { header: "Date", width: 60, value: (e) => formatDate(e.date) },
+        { header: "Type", width: 55, value: (e) => e.type },
+        { header: "Description", width: 150, value: (e) => e.description },
+        { header: "Reference", width: 80, value: (e) => e.reference },
+        {
+          header: "Debit",
+          width: 50,
+          align: "right",
+          value: (e) => (e.debit ? e.debit.toFixed(2) : ""),
+        },
+        {
+          header: "Credit",
+          width: 50,
+          align: "right",
+          value: (e) => (e.credit ? e.credit.toFixed(2) : ""),
+        },
+        {
+          header: "Balance",
+          width: 50,
+          align: "right",
+          value: (e) => e.balance.toFixed(2),
+        },
+      ],
+      statement.entries
+    );
+
+    doc.moveDown();
+    doc.text(`Total charges: ${formatMoney(statement.totals.charges)}`);
+    doc.text(`Total payments: ${formatMoney(statement.totals.payments)}`);
+    doc.text(`Total credits: ${formatMoney(statement.totals.credits)}`);
+    doc.text(`Net adjustments: ${formatMoney(statement.totals.adjustments)}`);
+    doc.moveDown(0.5);
+    doc
+      .font("Helvetica-Bold")
+      .text(`Closing balance: ${formatMoney(statement.closingBalance)}`);
+  });
+
+/**
+ * Render a tabular report with summary lines under the table
+ */
+export const renderReportPdf = <T>(
+  title: string,
+  subtitleLines: string[],
+  columns: PdfTableColumn<T>[],
+  rows: T[],
+  summaryLines: string[] = []
+): Promise<Buffer> =>
+  renderPdf((doc) => {
+    drawHeader(doc, title, subtitleLines);
+    drawTable(doc, columns, rows);
+
+    if (summaryLines.length > 0) {
+      doc.moveDown();
+      summaryLines.forEach((line) => doc.text(line));
+    }
+  });
+
+export interface ReceiptDetails {
+  receiptNumber: string;
+  issuedAt: Date;
+  paymentDate: Date;
+  amount: number;
+  purpose: string;
+  mpesaReceipt: string;
+  landlordName: string;
+  landlordContact?: string;
+  propertyName: string;
+  propertyAddress?: string;
+  unitName: string;
+  tenantName: string;
+  tenantContact?: string;
+  periodCovered: string;
+}
+
+/**
+ * Render a payment receipt
+ */
+export const renderReceiptPdf = (receipt: ReceiptDetails): Promise<Buffer> =>
+  renderPdf((doc) => {
+    drawHeader(doc, "Payment Receipt", [
+      `Receipt No: ${receipt.receiptNumber}`,
+      `Issued: ${formatDate(receipt.issuedAt)}`,
+    ]);
+
+    const line = (label: string, value?: string) => {
+      if (!value) return;
+      doc.font("Helvetica-Bold").text(`${label}: `, { continued: true });
+      doc.font("Helvetica").text(value);
+    };
+
+    line("Received from", receipt.tenantName);
+    line("Tenant contact", receipt.tenantContact);
+    doc.moveDown(0.5);
+    line("Landlord", receipt.landlordName);
+    line("Landlord contact", receipt.landlordContact);
+    line("Property", receipt.propertyName);
+    line("Address", receipt.propertyAddress);
+    line("Unit", receipt.unitName);
+    doc.moveDown(0.5);
+    line("Payment for", receipt.purpose);
+    line("Period covered", receipt.periodCovered);
+    line("Payment date", formatDate(receipt.paymentDate));
+    line("M-Pesa receipt", receipt.mpesaReceipt);
+    doc.moveDown();
+
+    doc
+      .fontSize(14)
+      .font("Helvetica-Bold")
+      .text(`Amount received: ${formatMoney(receipt.amount)}`);
+    doc.moveDown(2);
+    doc
+      .fontSize(8)
+      .font("Helvetica")
+      .text(
+        "This receipt was generated electronically by DigiPlot Property Management and is valid without a signature."
+      );
+  });
+
+export interface AgreementDetails {
+  title: string;
+  body: string; // Placeholders already filled in
+  generatedAt: Date;
+  propertyName: string;
+  unitName: string;
+  landlordName: string;
+  tenantName: string;
+}
+
+/**
+ * Render a tenancy agreement. Blank lines separate paragraphs and a line
+ * starting with "# " is printed as a section heading.
+ */
+export const renderAgreementPdf = (
+  agreement: AgreementDetails
+): Promise<Buffer> =>
+  renderPdf((doc) => {
+    drawHeader(doc, agreement.title, [
+      `${agreement.propertyName} - ${agreement.unitName}`,
+      `Generated: ${formatDate(agreement.generatedAt)}`,
+    ]);
+
+    agreement.body
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .forEach((paragraph) => {
+        if (paragraph.startsWith("# ")) {
+          doc.moveDown(0.3);
+          doc.fontSize(12).font("Helvetica-Bold").text(paragraph.slice(2));
+        } else {
+          doc
+            .fontSize(10)
+            .font("Helvetica")
+            .text(paragraph, { align: "justify" });
+        }
+        doc.moveDown(0.5);
+      });
+
+    doc.moveDown(2);
+    doc.fontSize(10).font("Helvetica");
+    [
+      ["Landlord", agreement.landlordName],
+      ["Tenant", agreement.tenantName],
+    ].forEach(([role, name]) => {
+      doc.text(`${role}: ${name}`);
+      doc.moveDown(1.5);
+      doc.text("Signature: ______________________    Date: ______________");
+      doc.moveDown(1.5);
+    });
+  });
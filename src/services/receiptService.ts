@@ -0,0 +1,201 @@
+import fs from "fs/promises";
+import path from "path";
+import { QueryTypes } from "sequelize";
+import sequelize from "../config/database";
+import {
+  Invoice,
+  Payment,
+  PaymentAllocation,
+  Property,
+  Unit,
+  User,
+} from "../models";
+import logger from "../config/logger";
+import { formatDate, renderReceiptPdf, ReceiptDetails } from "./pdfService";
+import { sendPaymentReceiptEmail } from "./emailService";
+
+// Receipts are kept outside the public uploads folder so that downloads
+// always go through the access-checked endpoint
+const getStorageDir = (): string =>
+  process.env.RECEIPT_STORAGE_DIR ||
+  path.join(__dirname, "../../storage/receipts");
+
+const getReceiptPath = (receiptNumber: string): string =>
+  path.join(getStorageDir(), `${receiptNumber}.pdf`);
+
+let sequenceReady: Promise<unknown> | null = null;
+
+/**
+ * Next receipt number from a database sequence, e.g. RCT-2025-000042.
+ * The sequence is created on first use for databases built with sync().
+ */
+const nextReceiptNumber = async (issuedAt: Date): Promise<string> => {
+  if (!sequenceReady) {
+    sequenceReady = sequelize
+      .query("CREATE SEQUENCE IF NOT EXISTS payment_receipt_number_seq START 1")
+      .catch((error) => {
+        sequenceReady = null;
+        throw error;
+      });
+  }
+  await sequenceReady;
+
+  const [row] = await sequelize.query<{ value: string }>(
+    "SELECT nextval('payment_receipt_number_seq') AS value",
+    { type: QueryTypes.SELECT }
+  );
+
+  return `RCT-${issuedAt.getFullYear()}-${String(row.value).padStart(6, "0")}`;
+};
+
+/**
+ * Describe the billing periods a payment was applied to
+ */
+const describePeriodCovered = async (payment: Payment): Promise<string> => {
+  const allocations = await PaymentAllocation.findAll({
+    where: { paymentId: payment.id },
+    include: [{ model: Invoice, as: "invoice" }],
+  });
+
+  const periods = allocations
+    .map((allocation) => (allocation as any).invoice as Invoice | undefined)
+    .filter((invoice): invoice is Invoice => !!invoice?.periodStart)
+    .sort(
+      (a, b) =>
+        new Date(a.periodStart!).getTime() - new Date(b.periodStart!).getTime()
+    );
+
+  if (periods.length > 0) {
+    return `${formatDate(periods[0].periodStart)} to ${formatDate(
+      periods[periods.length - 1].periodEnd
+    )}`;
+  }
+
+  if (payment.purpose === "deposit") {
+    return "Security deposit";
+  }
+
+  return allocations.length > 0 ? "Outstanding charges" : "Account credit";
+};
+
+const buildReceiptDetails = async (
+  payment: Payment
+): Promise<{ details: ReceiptDetails; tenant: User | null }> => {
+  const [tenant, unit] = await Promise.all([
+    payment.tenantId ? User.findByPk(payment.tenantId) : null,
+    payment.unitId
+      ? Unit.findByPk(payment.unitId, {
+          include: [
+            {
+              model: Property,
+              as: "property",
+              include: [{ model: User, as: "landlord" }],
+            },
+          ],
+        })
+      : null,
+  ]);
+
+  const property = (unit as any)?.property;
+  const landlord = property?.landlord;
+
+  return {
+    tenant,
+    details: {
+      receiptNumber: payment.receiptNumber!,
+      issuedAt: payment.receiptIssuedAt || new Date(),
+      paymentDate: payment.paymentDate,
+      amount: Number(payment.amount),
+      purpose: payment.purpose === "deposit" ? "Security deposit" : "Rent",
+      mpesaReceipt: payment.mpesaTransactionId,
+      landlordName: landlord
+        ? `${landlord.firstName} ${landlord.lastName}`
+        : "",
+      landlordContact: landlord
+        ? [landlord.email, landlord.phone].filter(Boolean).join(" / ")
+        : undefined,
+      propertyName: property?.name || "",
+      propertyAddress: property?.address,
+      unitName: unit?.name || "",
+      tenantName: tenant ? `${tenant.firstName} ${tenant.lastName}` : "",
+      tenantContact: tenant
+        ? [tenant.email, tenant.phone].filter(Boolean).join(" / ")
+        : undefined,
+      periodCovered: await describePeriodCovered(payment),
+    },
+  };
+};
+
+const writeReceipt = async (
+  payment: Payment
+): Promise<{ pdf: Buffer; details: ReceiptDetails; tenant: User | null }> => {
+  const { details, tenant } = await buildReceiptDetails(payment);
+  const pdf = await renderReceiptPdf(details);
+
+  await fs.mkdir(getStorageDir(), { recursive: true });
+  await fs.writeFile(getReceiptPath(details.receiptNumber), pdf);
+
+  return { pdf, details, tenant };
+};
+
+/**
+ * Number, store and email the receipt for a successful payment. A payment
+ * is only ever receipted once. Failures are logged rather than thrown so
+ * payment processing is never interrupted.
+ */
+export const issuePaymentReceipt = async (payment: Payment): Promise<void> => {
+  if (payment.status !== "successful" || payment.receiptNumber) {
+    return;
+  }
+
+  try {
+    const issuedAt = new Date();
+    await payment.update({
+      receiptNumber: await nextReceiptNumber(issuedAt),
+      receiptIssuedAt: issuedAt,
+      receiptUrl: `/api/payments/${payment.id}/receipt`,
+    });
+
+    const { pdf, details, tenant } = await writeReceipt(payment);
+
+    logger.info(
+      `Receipt ${details.receiptNumber} issued for payment ${payment.id}`
+    );
+
+    if (tenant) {
+      await sendPaymentReceiptEmail(
+        tenant.email,
+        tenant.firstName,
+        {
+          receiptNumber: details.receiptNumber,
+          amount: details.amount,
+          unitName: details.unitName,
+          periodCovered: details.periodCovered,
+          mpesaReceipt: details.mpesaReceipt,
+        },
+        pdf
+      );
+    }
+  } catch (error) {
+    logger.error(`Failed to issue receipt for payment ${payment.id}:`, error);
+  }
+};
+
+/**
+ * Load a stored receipt, re-rendering it if the file has gone missing
+ */
+export const getReceiptPdf = async (payment: Payment): Promise<Buffer> => {
+  try {
+    return await fs.readFile(getReceiptPath(payment.receiptNumber!));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+
+    logger.warn(
+      `Receipt file for ${payment.receiptNumber} missing; regenerating`
+    );
+    const { pdf } = await writeReceipt(payment);
+    return pdf;
+  }
+};
@@ -0,0 +1,457 @@
+import { Op } from "sequelize";
+import sequelize from "../config/database";
+import {
+  Expense,
+  Invoice,
+  Lease,
+  Payment,
+  Property,
+  Unit,
+  User,
+} from "../models";
+import { EXPENSE_CATEGORIES, ExpenseCategory } from "../models/Expense";
+import { ApiError } from "../middleware/errorHandler";
+import { DateRange } from "../utils/filters";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Invoices with money still owed on them
+const UNPAID_INVOICE_STATUSES = ["open", "partially_paid", "overdue"];
+
+export interface RentRollRow {
+  propertyId: string;
+  propertyName: string;
+  unitId: string;
+  unitName: string;
+  unitStatus: string;
+  leaseId: string | null;
+  tenantId: string | null;
+  tenantName: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  monthlyRent: number; // Lease rent, or the unit's asking rent when vacant
+  balance: number; // Unpaid on the lease's invoices
+}
+
+export interface RentRoll {
+  generatedAt: Date;
+  rows: RentRollRow[];
+  totals: {
+    units: number;
+    occupiedUnits: number;
+    leasedRent: number;
+    balance: number;
+  };
+}
+
+export interface ArrearsAgingAmounts {
+  current: number; // Not yet due or up to 30 days past due
+  days30: number; // 31-60 days past due
+  days60: number; // 61-90 days past due
+  days90Plus: number; // More than 90 days past due
+  total: number;
+}
+
+export interface ArrearsAgingRow extends ArrearsAgingAmounts {
+  leaseId: string;
+  tenantId: string;
+  tenantName: string;
+  propertyName: string;
+  unitName: string;
+  oldestDueDate: Date;
+}
+
+export interface ArrearsAging {
+  asOf: Date;
+  rows: ArrearsAgingRow[];
+  totals: ArrearsAgingAmounts;
+}
+
+export interface PropertyIncomeStatement {
+  propertyId: string;
+  propertyName: string;
+  rentIncome: number;
+  expenses: Record<ExpenseCategory, number>;
+  totalExpenses: number;
+  netIncome: number;
+}
+
+export interface IncomeStatement {
+  startDate: Date;
+  endDate: Date;
+  properties: PropertyIncomeStatement[];
+  totals: {
+    rentIncome: number;
+    totalExpenses: number;
+    netIncome: number;
+  };
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const fullName = (user?: User | null): string | null =>
+  user ? `${user.firstName} ${user.lastName}` : null;
+
+/**
+ * The landlord's properties (or just one) with their units
+ */
+const getReportProperties = async (
+  landlordId: string,
+  propertyId?: string
+): Promise<Property[]> => {
+  const whereClause: any = { landlordId };
+  if (propertyId) whereClause.id = propertyId;
+
+  const properties = await Property.findAll({
+    where: whereClause,
+    attributes: ["id", "name"],
+    include: [
+      {
+        model: Unit,
+        as: "units",
+        attributes: ["id", "name", "status", "rentAmount"],
+        required: false,
+      },
+    ],
+    order: [
+      ["name", "ASC"],
+      [{ model: Unit, as: "units" }, "name", "ASC"],
+    ],
+  });
+
+  if (propertyId && properties.length === 0) {
+    throw new ApiError("Property not found or access denied.", 404);
+  }
+
+  return properties;
+};
+
+const unitsOf = (property: Property): Unit[] =>
+  ((property as any).units as Unit[]) || [];
+
+/**
+ * Every unit with its current tenant, lease dates, rent and unpaid balance
+ */
+export const buildRentRoll = async (
+  landlordId: string,
+  propertyId?: string
+): Promise<RentRoll> => {
+  const properties = await getReportProperties(landlordId, propertyId);
+  const unitIds = properties.flatMap((property) =>
+    unitsOf(property).map((unit) => unit.id)
+  );
+
+  const leases = await Lease.findAll({
+    where: { unitId: { [Op.in]: unitIds }, status: "active" },
+    attributes: [
+      "id",
+      "unitId",
+      "tenantId",
+      "startDate",
+      "endDate",
+      "monthlyRent",
+    ],
+    include: [
+      {
+        model: User,
+        as: "tenant",
+        attributes: ["id", "firstName", "lastName"],
+      },
+    ],
+  });
+
+  const balances = (await Invoice.findAll({
+    where: {
+      leaseId: { [Op.in]: leases.map((lease) => lease.id) },
+      status: { [Op.in]: UNPAID_INVOICE_STATUSES },
+    },
+    attributes: [
+      "leaseId",
+      [sequelize.literal("SUM(amount - amount_paid)"), "balance"],
+    ],
+    group: ["leaseId"],
+    raw: true,
+  })) as any[];
+  const balanceByLease = new Map<string, number>(
+    balances.map((row) => [row.leaseId, Number(row.balance) || 0])
+  );
+
+  const leasesByUnit = new Map<string, Lease[]>();
+  leases.forEach((lease) => {
+    leasesByUnit.set(lease.unitId, [
+      ...(leasesByUnit.get(lease.unitId) || []),
+      lease,
+    ]);
+  });
+
+  const rows: RentRollRow[] = [];
+  for (const property of properties) {
+    for (const unit of unitsOf(property)) {
+      const base = {
+        propertyId: property.id,
+        propertyName: property.name,
+        unitId: unit.id,
+        unitName: unit.name,
+        unitStatus: unit.status,
+      };
+      const unitLeases = leasesByUnit.get(unit.id) || [];
+
+      if (unitLeases.length === 0) {
+        rows.push({
+          ...base,
+          leaseId: null,
+          tenantId: null,
+          tenantName: null,
+          startDate: null,
+          endDate: null,
+          monthlyRent: Number(unit.rentAmount),
+          balance: 0,
+        });
+        continue;
+      }
+
+      unitLeases.forEach((lease) => {
+        rows.push({
+          ...base,
+          leaseId: lease.id,
+          tenantId: lease.tenantId,
+          tenantName: fullName(lease.tenant),
+          startDate: lease.startDate,
+          endDate: lease.endDate,
+          monthlyRent: Number(lease.monthlyRent),
+          balance: roundMoney(balanceByLease.get(lease.id) || 0),
+        });
+      });
+    }
+  }
+
+  const leasedRows = rows.filter((row) => row.leaseId);
+
+  return {
+    generatedAt: new Date(),
+    rows,
+    totals: {
+      units: unitIds.length,
+      occupiedUnits: new Set(leasedRows.map((row) => row.unitId)).size,
+      leasedRent: roundMoney(
+        leasedRows.reduce((sum, row) => sum + row.monthlyRent, 0)
+      ),
+      balance: roundMoney(
+        leasedRows.reduce((sum, row) => sum + row.balance, 0)
+      ),
+    },
+  };
+};
+
+const emptyAging = (): ArrearsAgingAmounts => ({
+  current: 0,
+  days30: 0,
+  days60: 0,
+  days90Plus: 0,
+  total: 0,
+});
+
+const agingBucket = (
+  daysPastDue: number
+): keyof Omit<ArrearsAgingAmounts, "total"> => {
+  if (daysPastDue > 90) return "days90Plus";
+  if (daysPastDue > 60) return "days60";
+  if (daysPastDue > 30) return "days30";
+  return "current";
+};
+
+/**
+ * What each lease owes on invoices already due, split by how long past due
+ * they are
+ */
+export const buildArrearsAging = async (
+  landlordId: string,
+  propertyId?: string
+): Promise<ArrearsAging> => {
+  const properties = await getReportProperties(landlordId, propertyId);
+  const unitNames = new Map<
+    string,
+    { unitName: string; propertyName: string }
+  >();
+  properties.forEach((property) =>
+    unitsOf(property).forEach((unit) =>
+      unitNames.set(unit.id, {
+        unitName: unit.name,
+        propertyName: property.name,
+      })
+    )
+  );
+
+  const asOf = new Date();
+  const invoices = await Invoice.findAll({
+    where: {
+      landlordId,
+      unitId: { [Op.in]: [...unitNames.keys()] },
+      status: { [Op.in]: UNPAID_INVOICE_STATUSES },
+      // Invoices not yet due are not arrears
+      dueDate: { [Op.lte]: asOf },
+    },
+    attributes: [
+      "id",
+      "leaseId",
+      "tenantId",
+      "unitId",
+      "dueDate",
+      "amount",
+      "amountPaid",
+    ],
+    include: [
+      {
+        model: User,
+        as: "tenant",
+        attributes: ["id", "firstName", "lastName"],
+      },
+    ],
+    order: [["dueDate", "ASC"]],
+  });
+
+  const rowsByLease = new Map<string, ArrearsAgingRow>();
+  const totals = emptyAging();
+
+  for (const invoice of invoices) {
+    const balance = invoice.balance;
+    if (balance <= 0) continue;
+
+    let row = rowsByLease.get(invoice.leaseId);
+    if (!row) {
+      row = {
+        leaseId: invoice.leaseId,
+        tenantId: invoice.tenantId,
+        tenantName: fullName((invoice as any).tenant) || "",
+        ...unitNames.get(invoice.unitId)!,
+        oldestDueDate: invoice.dueDate,
+        ...emptyAging(),
+      };
+      rowsByLease.set(invoice.leaseId, row);
+    }
+
+    const bucket = agingBucket(
+      Math.floor(
+        (asOf.getTime() - new Date(invoice.dueDate).getTime()) / DAY_MS
+      )
+    );
+    row[bucket] = roundMoney(row[bucket] + balance);
+    row.total = roundMoney(row.total + balance);
+    totals[bucket] = roundMoney(totals[bucket] + balance);
+    totals.total = roundMoney(totals.total + balance);
+  }
+
+  return {
+    asOf,
+    rows: [...rowsByLease.values()].sort((a, b) => b.total - a.total),
+    totals,
+  };
+};
+
+/**
+ * Rent collected minus recorded expenses for each property over a period
+ */
+export const buildIncomeStatement = async (
+  landlordId: string,
+  range: Required<DateRange>,
+  propertyId?: string
+): Promise<IncomeStatement> => {
+  const properties = await getReportProperties(landlordId, propertyId);
+  const propertyIds = properties.map((property) => property.id);
+  const propertyByUnit = new Map<string, string>();
+  properties.forEach((property) =>
+    unitsOf(property).forEach((unit) =>
+      propertyByUnit.set(unit.id, property.id)
+    )
+  );
+
+  const [rentByUnit, expenseTotals] = await Promise.all([
+    Payment.findAll({
+      where: {
+        unitId: { [Op.in]: [...propertyByUnit.keys()] },
+        status: "successful",
+        purpose: "rent",
+        paymentDate: { [Op.between]: [range.start, range.end] },
+      },
+      attributes: [
+        "unitId",
+        [sequelize.fn("SUM", sequelize.col("amount")), "amount"],
+      ],
+      group: ["unitId"],
+      raw: true,
+    }) as Promise<any[]>,
+    Expense.findAll({
+      where: {
+        landlordId,
+        propertyId: { [Op.in]: propertyIds },
+        expenseDate: { [Op.between]: [range.start, range.end] },
+      },
+      attributes: [
+        "propertyId",
+        "category",
+        [sequelize.fn("SUM", sequelize.col("amount")), "amount"],
+      ],
+      group: ["propertyId", "category"],
+      raw: true,
+    }) as Promise<any[]>,
+  ]);
+
+  const statements = new Map<string, PropertyIncomeStatement>(
+    properties.map((property) => [
+      property.id,
+      {
+        propertyId: property.id,
+        propertyName: property.name,
+        rentIncome: 0,
+        expenses: Object.fromEntries(
+          EXPENSE_CATEGORIES.map((category) => [category, 0])
+        ) as Record<ExpenseCategory, number>,
+        totalExpenses: 0,
+        netIncome: 0,
+      },
+    ])
+  );
+
+  rentByUnit.forEach((row) => {
+    const statement = statements.get(propertyByUnit.get(row.unitId)!)!;
+    statement.rentIncome = roundMoney(
+      statement.rentIncome + (Number(row.amount) || 0)
+    );
+  });
+
+  expenseTotals.forEach((row) => {
+    const statement = statements.get(row.propertyId)!;
+    const category = row.category as ExpenseCategory;
+    statement.expenses[category] = roundMoney(
+      statement.expenses[category] + (Number(row.amount) || 0)
+    );
+    statement.totalExpenses = roundMoney(
+      statement.totalExpenses + (Number(row.amount) || 0)
+    );
+  });
+
+  const result = [...statements.values()];
+  result.forEach((statement) => {
+    statement.netIncome = roundMoney(
+      statement.rentIncome - statement.totalExpenses
+    );
+  });
+
+  const rentIncome = roundMoney(
+    result.reduce((sum, statement) => sum + statement.rentIncome, 0)
+  );
+  const totalExpenses = roundMoney(
+    result.reduce((sum, statement) => sum + statement.totalExpenses, 0)
+  );
+
+  return {
+    startDate: range.start,
+    endDate: range.end,
+    properties: result,
+    totals: {
+      rentIncome,
+      totalExpenses,
+      netIncome: roundMoney(rentIncome - totalExpenses),
+    },
+  };
+};
@@ -0,0 +1,258 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { Op } from "sequelize";
+import { RefreshToken, Session, User } from "../models";
+import { generateToken } from "../utils/auth";
+import logger from "../config/logger";
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { success: true; user: User; tokens: SessionTokens }
+  | { success: false; reason: "invalid" | "expired" | "revoked" | "reused" };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getRefreshTokenTtlMs = (): number =>
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * DAY_MS;
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Short human-readable device label from a user agent, e.g. "Chrome on Android"
+ */
+export const describeDevice = (userAgent?: string): string | undefined => {
+  if (!userAgent) return undefined;
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Chrome\//, "Chrome"],
+    [/Firefox\//, "Firefox"],
+    [/Safari\//, "Safari"],
+    [/okhttp|Dart|CFNetwork/, "Mobile app"],
+  ];
+  const platforms: [RegExp, string][] = [
+    [/Android/, "Android"],
+    [/iPhone|iPad|iOS/, "iOS"],
+    [/Windows/, "Windows"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/Linux/, "Linux"],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+};
+
+/**
+ * Issue a new refresh token in a session's token family
+ */
+const issueRefreshToken = async (session: Session): Promise<string> => {
+  const refreshToken = crypto.randomBytes(48).toString("hex");
+
+  await RefreshToken.create({
+    sessionId: session.id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(
+      Math.min(
+        Date.now() + getRefreshTokenTtlMs(),
+        new Date(session.expiresAt).getTime()
+      )
+    ),
+  });
+
+  return refreshToken;
+};
+
+/**
+ * Start a session for a successful login and issue its first token pair
+ */
+export const createSession = async (
+  user: User,
+  req: Request,
+  deviceName?: string
+): Promise<SessionTokens> => {
+  const userAgent = req.get("user-agent");
+
+  const session = await Session.create({
+    userId: user.id,
+    deviceName: deviceName || describeDevice(userAgent),
+    ipAddress: req.ip,
+    userAgent,
+    expiresAt: new Date(Date.now() + getRefreshTokenTtlMs()),
+  });
+
+  return {
+    token: generateToken(user, session.id),
+    refreshToken: await issueRefreshToken(session),
+    sessionId: session.id,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Each refresh token works
+ * once; presenting a rotated token again means it was stolen (or replayed),
+ * so the whole session is revoked.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  req: Request
+): Promise<RefreshResult> => {
+  const stored = await RefreshToken.findOne({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: [{ model: Session, as: "session" }],
+  });
+
+  if (!stored) {
+    return { success: false, reason: "invalid" };
+  }
+
+  const session = (stored as any).session as Session;
+
+  if (session.revokedAt) {
+    return { success: false, reason: "revoked" };
+  }
+
+  // Claim the token atomically so two concurrent refreshes cannot both win
+  const claimWhere: any = { id: stored.id, usedAt: null };
+  const [claimed] = await RefreshToken.update(
+    { usedAt: new Date() },
+    { where: claimWhere }
+  );
+
+  if (claimed === 0) {
+    await revokeSession(session, "refresh_token_reuse");
+    logger.warn(
+      `Refresh token reuse detected for session ${session.id} (user ${session.userId}); session revoked`
+    );
+    return { success: false, reason: "reused" };
+  }
+
+  if (new Date(stored.expiresAt) <= new Date() || !session.isActive) {
+    return { success: false, reason: "expired" };
+  }
+
+  const user = await User.findByPk(session.userId);
+
+  if (!user || user.status !== "active") {
+    await revokeSession(session, "user_inactive");
+    return { success: false, reason: "revoked" };
+  }
+
+  await session.update({
+    lastSeenAt: new Date(),
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent") || session.userAgent,
+  });
+
+  return {
+    success: true,
+    user,
+    tokens: {
+      token: generateToken(user, session.id),
+      refreshToken: await issueRefreshToken(session),
+      sessionId: session.id,
+    },
+  };
+};
+
+/**
+ * Look up the session an access token belongs to, returning it only while
+ * it is still active. Last-seen is refreshed at most once a minute.
+ */
+export const getActiveSession = async (
+  sessionId: string,
+  userId: string
+): Promise<Session | null> => {
+  const session = await Session.findByPk(sessionId);
+
+  if (!session || session.userId !== userId || !session.isActive) {
+    return null;
+  }
+
+  if (Date.now() - new Date(session.lastSeenAt).getTime() > 60 * 1000) {
+    await session.update({ lastSeenAt: new Date() });
+  }
+
+  return session;
+};
+
+/**
+ * A user's active sessions, most recently used first
+ */
+export const listActiveSessions = async (
+  userId: string
+): Promise<Session[]> => {
+  const whereClause: any = {
+    userId,
+    revokedAt: null,
+    expiresAt: { [Op.gt]: new Date() },
+  };
+
+  return Session.findAll({
+    where: whereClause,
+    attributes: [
+      "id",
+      "deviceName",
+      "ipAddress",
+      "userAgent",
+      "lastSeenAt",
+      "createdAt",
+      "expiresAt",
+    ],
+    order: [["lastSeenAt", "DESC"]],
+  });
+};
+
+/**
+ * Revoke a session; its access and refresh tokens stop working
+ */
+export const revokeSession = async (
+  session: Session,
+  reason: string
+): Promise<void> => {
+  if (session.revokedAt) return;
+  await session.update({ revokedAt: new Date(), revokedReason: reason });
+};
+
+/**
+ * Revoke a session by id, e.g. from the session id carried in an access token
+ */
+export const revokeSessionById = async (
+  sessionId: string,
+  reason: string
+): Promise<boolean> => {
+  const session = await Session.findByPk(sessionId);
+  if (!session) return false;
+  await revokeSession(session, reason);
+  return true;
+};
+
+/**
+ * Revoke every active session of a user, optionally keeping one
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const whereClause: any = { userId, revokedAt: null };
+  if (exceptSessionId) {
+    whereClause.id = { [Op.ne]: exceptSessionId };
+  }
+
+  const [count] = await Session.update(
+    { revokedAt: new Date(), revokedReason: reason },
+    { where: whereClause }
+  );
+
+  return count;
+};
@@ -0,0 +1,503 @@
+import { Op } from "sequelize";
+import sequelize from "../config/database";
+import { MaintenanceRequest, Payment, Property, Unit } from "../models";
+import { DateRange } from "../utils/filters";
+
+export interface PropertyAggregates {
+  totalUnits: number;
+  occupiedUnits: number;
+  vacantUnits: number;
+  occupancyRate: number;
+  averageRent: number;
+  totalRevenue: number; // Successful rent payments only
+  successfulPayments: number;
+  totalMaintenanceRequests: number;
+}
+
+export interface StatusTotals {
+  count: number;
+  amount: number;
+}
+
+export interface PaymentAggregates {
+  byStatus: Record<string, StatusTotals>;
+  totalRevenue: number; // Successful rent payments
+  depositsCollected: number; // Successful security deposit payments
+  monthlyRevenue: Array<{ month: string; revenue: number }>;
+  byProperty: Array<{
+    propertyId: string;
+    propertyName: string;
+    totalPayments: number;
+    successfulPayments: number;
+    totalRevenue: number;
+  }>;
+}
+
+/**
+ * Build a where condition on a date column from an optional range
+ */
+const dateRangeWhere = (
+  column: "paymentDate" | "createdAt",
+  range: DateRange
+): any => {
+  if (!range.start && !range.end) {
+    return {};
+  }
+
+  const condition: any = {};
+  if (range.start) condition[Op.gte] = range.start;
+  if (range.end) condition[Op.lte] = range.end;
+  return { [column]: condition };
+};
+
+// Revenue is rent only: security deposits are held for the tenant, not
+// earned, and the income statement leaves them out too
+const RENT_AMOUNT = sequelize.literal(
+  "SUM(amount) FILTER (WHERE purpose = 'rent')"
+);
+
+/**
+ * Payment counts and amounts per unit and status, with the rent part of
+ * the amount
+ */
+const sumPaymentsByUnitAndStatus = async (
+  where: any
+): Promise<
+  Array<
+    { unitId: string | null; status: string; rentAmount: number } & StatusTotals
+  >
+> => {
+  const rows = (await Payment.findAll({
+    where,
+    attributes: [
+      "unitId",
+      "status",
+      [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+      [sequelize.fn("SUM", sequelize.col("amount")), "amount"],
+      [RENT_AMOUNT, "rentAmount"],
+    ],
+    group: ["unitId", "status"],
+    raw: true,
+  })) as any[];
+
+  return rows.map((row) => ({
+    unitId: row.unitId,
+    status: row.status,
+    count: Number(row.count),
+    amount: Number(row.amount) || 0,
+    rentAmount: Number(row.rentAmount) || 0,
+  }));
+};
+
+const addToStatusTotals = (
+  totals: Record<string, StatusTotals>,
+  status: string,
+  count: number,
+  amount: number
+): void => {
+  totals[status] = totals[status] || { count: 0, amount: 0 };
+  totals[status].count += count;
+  totals[status].amount += amount;
+};
+
+// Per-property aggregates are cached for STATS_CACHE_TTL_SECONDS (off when
+// unset or 0) and dropped whenever a unit, payment or maintenance request
+// on the property changes
+const propertyStatsCache = new Map<
+  string,
+  { value: PropertyAggregates; expiresAt: number }
+>();
+const unitPropertyIds = new Map<string, string>();
+
+const getCacheTtlMs = (): number =>
+  (parseInt(process.env.STATS_CACHE_TTL_SECONDS || "0", 10) || 0) * 1000;
+
+const cacheKey = (propertyId: string, range: DateRange): string =>
+  [
+    propertyId,
+    range.start?.toISOString() || "",
+    range.end?.toISOString() || "",
+  ].join("|");
+
+/**
+ * Drop cached aggregates for a property
+ */
+export const invalidatePropertyStats = (propertyId: string): void => {
+  for (const key of propertyStatsCache.keys()) {
+    if (key.startsWith(`${propertyId}|`)) {
+      propertyStatsCache.delete(key);
+    }
+  }
+};
+
+const invalidateUnitStats = (unitId?: string | null): void => {
+  const propertyId = unitId && unitPropertyIds.get(unitId);
+  // A unit not seen yet cannot be part of any cached aggregate
+  if (propertyId) {
+    invalidatePropertyStats(propertyId);
+  }
+};
+
+/**
+ * Unit, revenue and maintenance aggregates for a property. Revenue counts
+ * successful rent payments whose payment date falls in the range.
+ */
+export const getPropertyAggregates = async (
+  propertyId: string,
+  range: DateRange = {}
+): Promise<PropertyAggregates> => {
+  const ttl = getCacheTtlMs();
+  const key = cacheKey(propertyId, range);
+  const cached = propertyStatsCache.get(key);
+
+  if (ttl > 0 && cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const units = await Unit.findAll({
+    where: { propertyId },
+    attributes: ["id", "status", "rentAmount"],
+  });
+  const unitIds = units.map((unit) => unit.id);
+
+  const [payments, totalMaintenanceRequests] = await Promise.all([
+    Payment.findOne({
+      where: {
+        unitId: { [Op.in]: unitIds },
+        status: "successful",
+        ...dateRangeWhere("paymentDate", range),
+      },
+      attributes: [
+        [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+        [RENT_AMOUNT, "amount"],
+      ],
+      raw: true,
+    }) as Promise<any>,
+    MaintenanceRequest.count({
+      where: {
+        unitId: { [Op.in]: unitIds },
+        ...dateRangeWhere("createdAt", range),
+      },
+    }),
+  ]);
+
+  const occupiedUnits = units.filter(
+    (unit) => unit.status === "occupied"
+  ).length;
+  const totalRent = units.reduce(
+    (sum, unit) => sum + (Number(unit.rentAmount) || 0),
+    0
+  );
+
+  const value: PropertyAggregates = {
+    totalUnits: units.length,
+    occupiedUnits,
+    vacantUnits: units.length - occupiedUnits,
+    occupancyRate:
+      units.length > 0 ? Math.round((occupiedUnits / units.length) * 100) : 0,
+    averageRent: units.length > 0 ? totalRent / units.length : 0,
+    totalRevenue: Number(payments?.amount) || 0,
+    successfulPayments: Number(payments?.count) || 0,
+    totalMaintenanceRequests,
+  };
+
+  if (ttl > 0) {
+    unitIds.forEach((unitId) => unitPropertyIds.set(unitId, propertyId));
+    propertyStatsCache.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  return value;
+};
+
+/**
+ * Payment and maintenance totals for a single unit, grouped by status
+ */
+export const getUnitAggregates = async (
+  unitId: string,
+  range: DateRange = {}
+): Promise<{
+  payments: Record<string, StatusTotals>;
+  maintenance: Record<string, number>;
+}> => {
+  const [paymentRows, maintenanceRows] = await Promise.all([
+    sumPaymentsByUnitAndStatus({
+      unitId,
+      ...dateRangeWhere("paymentDate", range),
+    }),
+    MaintenanceRequest.findAll({
+      where: { unitId, ...dateRangeWhere("createdAt", range) },
+      attributes: [
+        "status",
+        [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+      ],
+      group: ["status"],
+      raw: true,
+    }) as Promise<any[]>,
+  ]);
+
+  const payments: Record<string, StatusTotals> = {};
+  paymentRows.forEach((row) =>
+    addToStatusTotals(payments, row.status, row.count, row.amount)
+  );
+
+  const maintenance = maintenanceRows.reduce(
+    (acc: Record<string, number>, row: any) => {
+      acc[row.status] = Number(row.count);
+      return acc;
+    },
+    {}
+  );
+
+  return { payments, maintenance };
+};
+
+/**
+ * Payment totals across a landlord's properties (or one of them): by
+ * status, and rent revenue in total, per month and per property
+ */
+export const getPaymentAggregates = async (
+  landlordId: string,
+  range: DateRange = {},
+  propertyId?: string
+): Promise<PaymentAggregates> => {
+  const propertyWhere: any = { landlordId };
+  if (propertyId) propertyWhere.id = propertyId;
+
+  const units = await Unit.findAll({
+    attributes: ["id", "propertyId"],
+    include: [
+      {
+        model: Property,
+        as: "property",
+        where: propertyWhere,
+        attributes: ["id", "name"],
+      },
+    ],
+  });
+  const unitIds = units.map((unit) => unit.id);
+
+  const [rows, monthRows] = await Promise.all([
+    sumPaymentsByUnitAndStatus({
+      unitId: { [Op.in]: unitIds },
+      ...dateRangeWhere("paymentDate", range),
+    }),
+    Payment.findAll({
+      where: {
+        unitId: { [Op.in]: unitIds },
+        status: "successful",
+        purpose: "rent",
+        ...dateRangeWhere("paymentDate", range),
+      },
+      attributes: [
+        [
+          sequelize.fn("to_char", sequelize.col("payment_date"), "YYYY-MM"),
+          "month",
+        ],
+        [sequelize.fn("SUM", sequelize.col("amount")), "revenue"],
+      ],
+      group: ["month"],
+      raw: true,
+    }) as Promise<any[]>,
+  ]);
+
+  const unitsById = new Map(units.map((unit) => [unit.id, unit]));
+  const byStatus: Record<string, StatusTotals> = {};
+  const byProperty = new Map<string, PaymentAggregates["byProperty"][number]>();
+  let totalRevenue = 0;
+  let depositsCollected = 0;
+
+  rows.forEach((row) => {
+    addToStatusTotals(byStatus, row.status, row.count, row.amount);
+
+    if (row.status === "successful") {
+      totalRevenue += row.rentAmount;
+      depositsCollected += row.amount - row.rentAmount;
+    }
+
+    const property = row.unitId
+      ? (unitsById.get(row.unitId) as any)?.property
+      : undefined;
+    if (!property) return;
+
+    const entry = byProperty.get(property.id) || {
+      propertyId: property.id,
+      propertyName: property.name,
+      totalPayments: 0,
+      successfulPayments: 0,
+      totalRevenue: 0,
+    };
+    entry.totalPayments += row.count;
+    if (row.status === "successful") {
+      entry.successfulPayments += row.count;
+      entry.totalRevenue += row.rentAmount;
+    }
+    byProperty.set(property.id, entry);
+  });
+
+  return {
+    byStatus,
+    totalRevenue,
+    depositsCollected,
+    monthlyRevenue: monthRows
+      .map((row) => ({ month: row.month, revenue: Number(row.revenue) || 0 }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+    byProperty: [...byProperty.values()],
+  };
+};
+
+export interface PaymentBreakdown {
+  totalPayments: number;
+  totalAmount: number;
+  successfulPayments: number;
+  successfulAmount: number;
+}
+
+export interface PaymentSummary extends PaymentBreakdown {
+  pendingPayments: number;
+  failedPayments: number;
+  byStatus: Record<string, StatusTotals>;
+  byProperty: Array<
+    PaymentBreakdown & { propertyId: string; propertyName: string }
+  >;
+  byUnit: Array<
+    PaymentBreakdown & { unitId: string; unitName: string; propertyId: string }
+  >;
+}
+
+const emptyBreakdown = (): PaymentBreakdown => ({
+  totalPayments: 0,
+  totalAmount: 0,
+  successfulPayments: 0,
+  successfulAmount: 0,
+});
+
+const addToBreakdown = (
+  breakdown: PaymentBreakdown,
+  row: { status: string } & StatusTotals
+): void => {
+  breakdown.totalPayments += row.count;
+  breakdown.totalAmount += row.amount;
+  if (row.status === "successful") {
+    breakdown.successfulPayments += row.count;
+    breakdown.successfulAmount += row.amount;
+  }
+};
+
+/**
+ * Totals over every payment matching a where clause (not just one page),
+ * by status, property and unit
+ */
+export const summarizePayments = async (
+  where: any
+): Promise<PaymentSummary> => {
+  const rows = await sumPaymentsByUnitAndStatus(where);
+
+  const unitIds = [
+    ...new Set(rows.map((row) => row.unitId).filter(Boolean)),
+  ] as string[];
+  const units = await Unit.findAll({
+    where: { id: { [Op.in]: unitIds } },
+    attributes: ["id", "name", "propertyId"],
+    include: [{ model: Property, as: "property", attributes: ["id", "name"] }],
+  });
+  const unitsById = new Map(units.map((unit) => [unit.id, unit]));
+
+  const summary: PaymentSummary = {
+    ...emptyBreakdown(),
+    pendingPayments: 0,
+    failedPayments: 0,
+    byStatus: {},
+    byProperty: [],
+    byUnit: [],
+  };
+  const byProperty = new Map<string, PaymentSummary["byProperty"][number]>();
+  const byUnit = new Map<string, PaymentSummary["byUnit"][number]>();
+
+  rows.forEach((row) => {
+    addToBreakdown(summary, row);
+    addToStatusTotals(summary.byStatus, row.status, row.count, row.amount);
+
+    const unit = row.unitId ? unitsById.get(row.unitId) : undefined;
+    if (!unit) return;
+
+    const property = (unit as any).property;
+    if (!byUnit.has(unit.id)) {
+      byUnit.set(unit.id, {
+        unitId: unit.id,
+        unitName: unit.name,
+        propertyId: unit.propertyId,
+        ...emptyBreakdown(),
+      });
+    }
+    addToBreakdown(byUnit.get(unit.id)!, row);
+
+    if (property) {
+      if (!byProperty.has(property.id)) {
+        byProperty.set(property.id, {
+          propertyId: property.id,
+          propertyName: property.name,
+          ...emptyBreakdown(),
+        });
+      }
+      addToBreakdown(byProperty.get(property.id)!, row);
+    }
+  });
+
+  summary.pendingPayments = summary.byStatus.pending?.count || 0;
+  summary.failedPayments = summary.byStatus.failed?.count || 0;
+  summary.byProperty = [...byProperty.values()];
+  summary.byUnit = [...byUnit.values()];
+
+  return summary;
+};
+
+/**
+ * Run an invalidation once the surrounding transaction (if any) commits,
+ * so a concurrent read cannot re-cache the old figures
+ */
+const afterWrite =
+  (invalidate: (instance: any) => void) =>
+  (instance: any, options: any): void => {
+    if (propertyStatsCache.size === 0) return;
+
+    if (options?.transaction) {
+      options.transaction.afterCommit(() => invalidate(instance));
+    } else {
+      invalidate(instance);
+    }
+  };
+
+// Bulk writes do not say which rows changed, so everything goes
+const clearAllPropertyStats = (options: any): void => {
+  if (propertyStatsCache.size === 0) return;
+
+  if (options?.transaction) {
+    options.transaction.afterCommit(() => propertyStatsCache.clear());
+  } else {
+    propertyStatsCache.clear();
+  }
+};
+
+const invalidateForUnit = afterWrite((unit: Unit) => {
+  unitPropertyIds.set(unit.id, unit.propertyId);
+  invalidatePropertyStats(unit.propertyId);
+});
+const invalidateForUnitRecord = afterWrite(
+  (record: Payment | MaintenanceRequest) => invalidateUnitStats(record.unitId)
+);
+
+Unit.addHook("afterCreate", invalidateForUnit);
+Unit.addHook("afterUpdate", invalidateForUnit);
+Unit.addHook("afterDestroy", invalidateForUnit);
+
+[Payment, MaintenanceRequest].forEach((model: any) => {
+  model.addHook("afterCreate", invalidateForUnitRecord);
+  model.addHook("afterUpdate", invalidateForUnitRecord);
+  model.addHook("afterDestroy", invalidateForUnitRecord);
+});
+
+[Unit, Payment, MaintenanceRequest].forEach((model: any) => {
+  model.addHook("afterBulkCreate", clearAllPropertyStats);
+  model.addHook("afterBulkUpdate", clearAllPropertyStats);
+  model.addHook("afterBulkDestroy", clearAllPropertyStats);
+});
@@ -1,13 +1,21 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
 import speakeasy from "speakeasy";
 import QRCode from "qrcode";
-import { User } from "../models";
+import { TwoFactorBackupCode, User } from "../models";
 
 interface TwoFactorSetupResponse {
   secret: string;
   qrCodeUrl: string;
-  backupCodes: string[];
 }
 
+// Unambiguous characters only (no 0/O, 1/I/L)
+const BACKUP_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const BACKUP_CODE_LENGTH = 10;
+
+const normalizeBackupCode = (code: string): string =>
+  code.replace(/[\s-]/g, "").toUpperCase();
+
 class TwoFactorService {
   /**
    * Generate 2FA secret for a user
@@ -51,17 +59,96 @@ class TwoFactorService {
   }
 
   /**
-   * Generate backup codes
+   * Generate backup codes (e.g. "K7QM2-XT9PA") with a CSPRNG
    */
   generateBackupCodes(count: number = 10): string[] {
     const codes: string[] = [];
     for (let i = 0; i < count; i++) {
-      // Generate 8-digit backup codes
-      codes.push(Math.random().toString().slice(2, 10));
+      let code = "";
+      for (let j = 0; j < BACKUP_CODE_LENGTH; j++) {
+        code +=
+          BACKUP_CODE_ALPHABET[crypto.randomInt(BACKUP_CODE_ALPHABET.length)];
+      }
+      codes.push(`${code.slice(0, 5)}-${code.slice(5)}`);
     }
     return codes;
   }
 
+  /**
+   * Replace a user's backup codes with a fresh set. Only hashes are stored;
+   * the returned codes must be shown to the user now.
+   */
+  async issueBackupCodes(userId: string): Promise<string[]> {
+    const codes = this.generateBackupCodes();
+    const codeHashes = await Promise.all(
+      codes.map((code) => bcrypt.hash(normalizeBackupCode(code), 10))
+    );
+
+    await TwoFactorBackupCode.destroy({ where: { userId } });
+    await TwoFactorBackupCode.bulkCreate(
+      codeHashes.map((codeHash) => ({ userId, codeHash }))
+    );
+
+    return codes;
+  }
+
+  /**
+   * Consume a backup code. Each code works once.
+   */
+  async useBackupCode(userId: string, code: string): Promise<boolean> {
+    const candidate = normalizeBackupCode(code);
+    if (candidate.length !== BACKUP_CODE_LENGTH) {
+      return false;
+    }
+
+    const unusedCodes = await TwoFactorBackupCode.findAll({
+      where: { userId, usedAt: null },
+    });
+
+    for (const backupCode of unusedCodes) {
+      if (await bcrypt.compare(candidate, backupCode.codeHash)) {
+        // Conditional update so a code cannot be spent twice concurrently
+        const [claimed] = await TwoFactorBackupCode.update(
+          { usedAt: new Date() },
+          { where: { id: backupCode.id, usedAt: null } }
+        );
+        return claimed === 1;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Regenerate backup codes after confirming a current authenticator code
+   */
+  async regenerateBackupCodes(
+    userId: string,
+    token: string
+  ): Promise<{ success: boolean; backupCodes?: string[] }> {
+    try {
+      const user = await User.findByPk(userId);
+      if (!user) {
+        throw new Error("User not found");
+      }
+
+      if (!user.twoFactorSecret || !user.twoFactorEnabled) {
+        throw new Error("2FA is not enabled for this user");
+      }
+
+      if (!this.verifyToken(user.twoFactorSecret, token)) {
+        return { success: false };
+      }
+
+      const backupCodes = await this.issueBackupCodes(userId);
+
+      return { success: true, backupCodes };
+    } catch (error) {
+      console.error("Error regenerating backup codes:", error);
+      throw error;
+    }
+  }
+
   /**
    * Enable 2FA for a user
    */
@@ -84,13 +171,13 @@ class TwoFactorService {
         return { success: false };
       }
 
-      // Generate backup codes
-      const backupCodes = this.generateBackupCodes();
-
       // Enable 2FA
       user.twoFactorEnabled = true;
       await user.save();
 
+      // Issue backup codes now that 2FA is active
+      const backupCodes = await this.issueBackupCodes(userId);
+
       return { success: true, backupCodes };
     } catch (error) {
       console.error("Error enabling 2FA:", error);
@@ -122,6 +209,8 @@ class TwoFactorService {
       user.twoFactorSecret = null;
       await user.save();
 
+      await TwoFactorBackupCode.destroy({ where: { userId } });
+
       return true;
     } catch (error) {
       console.error("Error disabling 2FA:", error);
@@ -143,17 +232,14 @@ class TwoFactorService {
       const { secret, qrCodeUrl } = this.generateSecret(user.email);
       const qrCodeImage = await this.generateQRCode(qrCodeUrl);
 
-      // Save secret to user (but don't enable 2FA yet)
+      // Save secret to user (but don't enable 2FA yet). Backup codes are
+      // issued once the user confirms the secret with enable2FA.
       user.twoFactorSecret = secret;
       await user.save();
 
-      // Generate backup codes for later use
-      const backupCodes = this.generateBackupCodes();
-
       return {
         secret,
         qrCodeUrl: qrCodeImage,
-        backupCodes,
       };
     } catch (error) {
       console.error("Error setting up 2FA:", error);
@@ -162,7 +248,8 @@ class TwoFactorService {
   }
 
   /**
-   * Verify 2FA during login
+   * Verify 2FA during login. Accepts an authenticator code or, failing
+   * that, an unused backup code.
    */
   async verifyLogin2FA(userId: string, token: string): Promise<boolean> {
     try {
@@ -175,7 +262,11 @@ class TwoFactorService {
         return true; // 2FA not enabled, skip verification
       }
 
-      return this.verifyToken(user.twoFactorSecret, token);
+      if (this.verifyToken(user.twoFactorSecret, token)) {
+        return true;
+      }
+
+      return await this.useBackupCode(userId, token);
     } catch (error) {
       console.error("Error verifying 2FA during login:", error);
       return false;
@@ -198,22 +289,29 @@ class TwoFactorService {
   /**
    * Get 2FA status for a user
    */
-  async get2FAStatus(
-    userId: string
-  ): Promise<{ enabled: boolean; hasSecret: boolean }> {
+  async get2FAStatus(userId: string): Promise<{
+    enabled: boolean;
+    hasSecret: boolean;
+    backupCodesRemaining: number;
+  }> {
     try {
       const user = await User.findByPk(userId);
       if (!user) {
-        return { enabled: false, hasSecret: false };
+        return { enabled: false, hasSecret: false, backupCodesRemaining: 0 };
       }
 
+      const backupCodesRemaining = user.twoFactorEnabled
+        ? await TwoFactorBackupCode.count({ where: { userId, usedAt: null } })
+        : 0;
+
       return {
         enabled: user.twoFactorEnabled === true,
         hasSecret: !!user.twoFactorSecret,
+        backupCodesRemaining,
       };
     } catch (error) {
       console.error("Error getting 2FA status:", error);
-      return { enabled: false, hasSecret: false };
+      return { enabled: false, hasSecret: false, backupCodesRemaining: 0 };
     }
   }
 }
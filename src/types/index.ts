@@ -196,6 +196,7 @@ export interface UserInstance {
 // Extended Request interface with user
 export interface AuthenticatedRequest extends Request {
   user?: UserInstance;
+  sessionId?: string;
 }
 
 // API Response interface
@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import { UserAttributes } from "../models/User";
 
@@ -6,16 +7,21 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
 
-// Generate JWT token
-export const generateToken = (user: Partial<UserAttributes>): string => {
+// Generate a short-lived JWT access token, bound to a session when given
+export const generateToken = (
+  user: Partial<UserAttributes>,
+  sessionId?: string
+): string => {
   const payload: JWTPayload = {
     userId: user.id!,
     email: user.email!,
     role: user.role!,
+    sessionId,
   };
 
   const secret = process.env.JWT_SECRET;
@@ -23,7 +29,10 @@ export const generateToken = (user: Partial<UserAttributes>): string => {
     throw new Error("JWT_SECRET is not defined in environment variables");
   }
 
-  return jwt.sign(payload, secret, { expiresIn: "24h" });
+  return jwt.sign(payload, secret, {
+    expiresIn: (process.env.JWT_EXPIRES_IN ||
+      "15m") as jwt.SignOptions["expiresIn"],
+  });
 };
 
 // Verify JWT token
@@ -73,3 +82,54 @@ export const verifyPasswordResetToken = (
     return null;
   }
 };
+
+// Generate email verification token (bound to the address being verified)
+export const generateEmailVerificationToken = (
+  userId: string,
+  email: string
+): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not defined in environment variables");
+  }
+
+  return jwt.sign({ type: "email_verification", userId, email }, secret, {
+    expiresIn: "24h",
+  });
+};
+
+// Verify email verification token
+export const verifyEmailVerificationToken = (
+  token: string
+): { userId: string; email: string } | null => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, secret) as any;
+    if (
+      decoded.type === "email_verification" &&
+      decoded.userId &&
+      decoded.email
+    ) {
+      return { userId: decoded.userId, email: decoded.email };
+    }
+    return null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Generate a random one-time password for accounts created on a user's
+// behalf; the user must change it at first login
+export const generateTemporaryPassword = (length: number = 12): string => {
+  const alphabet =
+    "ABCDEFGHJKMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789";
+  let password = "";
+  for (let i = 0; i < length; i++) {
+    password += alphabet[crypto.randomInt(alphabet.length)];
+  }
+  return password;
+};
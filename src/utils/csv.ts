@@ -0,0 +1,45 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | Date | null | undefined;
+}
+
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+const escapeCell = (value: string | number | Date | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text =
+    value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+
+  // Spreadsheets run text starting with these as a formula; numbers such as
+  // a negative balance are left alone
+  if (
+    typeof value === "string" &&
+    /^[=+\-@\t\r]/.test(text) &&
+    !NUMBER_PATTERN.test(text)
+  ) {
+    text = `'${text}`;
+  }
+
+  // Quote cells containing separators, quotes or newlines
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+/**
+ * Serialise rows to CSV using the given column definitions
+ */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const lines = [columns.map((column) => escapeCell(column.header)).join(",")];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCell(column.value(row))).join(","));
+  }
+
+  return lines.join("\r\n");
+};
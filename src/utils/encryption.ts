@@ -0,0 +1,58 @@
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+// Derive a 32-byte key from the configured secret
+const getEncryptionKey = (): Buffer => {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error(
+      "CREDENTIALS_ENCRYPTION_KEY is not defined in environment variables"
+    );
+  }
+
+  return crypto.createHash("sha256").update(secret).digest();
+};
+
+// Encrypt a value for storage (format: iv:authTag:ciphertext, base64 encoded)
+export const encrypt = (plainText: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+
+  const encrypted = Buffer.concat([
+    cipher.update(plainText, "utf8"),
+    cipher.final(),
+  ]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted]
+    .map((part) => part.toString("base64"))
+    .join(":");
+};
+
+// Decrypt a value produced by encrypt()
+export const decrypt = (payload: string): string => {
+  const [iv, authTag, encrypted] = payload
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error("Malformed encrypted value");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+};
+
+// Mask a secret for display, keeping only the last few characters
+export const maskSecret = (value: string, visible: number = 4): string => {
+  if (value.length <= visible) {
+    return "*".repeat(value.length);
+  }
+  return `${"*".repeat(value.length - visible)}${value.slice(-visible)}`;
+};
@@ -0,0 +1,80 @@
+import { Op } from "sequelize";
+import { DB_TIMEZONE } from "../config/database";
+import { ApiError } from "../middleware/errorHandler";
+
+export interface DateRange {
+  start?: Date;
+  end?: Date;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse startDate/endDate query parameters. A date-only endDate
+ * (e.g. 2024-01-31) covers the whole of that day. Throws a 400 ApiError
+ * for values that are not dates.
+ */
+export const parseDateRange = (startDate?: unknown, endDate?: unknown): DateRange => {
+  const range: DateRange = {};
+
+  if (startDate) {
+    range.start = new Date(startDate as string);
+  }
+
+  if (endDate) {
+    range.end = new Date(endDate as string);
+    if (DATE_ONLY.test(String(endDate))) {
+      range.end.setUTCHours(23, 59, 59, 999);
+    }
+  }
+
+  if (
+    (range.start && isNaN(range.start.getTime())) ||
+    (range.end && isNaN(range.end.getTime()))
+  ) {
+    throw new ApiError("startDate and endDate must be valid dates", 400);
+  }
+
+  return range;
+};
+
+/**
+ * Read a date-only query value as a local (East Africa) day rather than a
+ * UTC one
+ */
+const toLocalTimestamp = (value: unknown, time: string): unknown =>
+  typeof value === "string" && DATE_ONLY.test(value)
+    ? `${value}T${time}${DB_TIMEZONE}`
+    : value;
+
+/**
+ * Like parseDateRange, but date-only values cover whole local days, so the
+ * range lines up with local day and month boundaries
+ */
+export const parseLocalDateRange = (
+  startDate?: unknown,
+  endDate?: unknown
+): DateRange =>
+  parseDateRange(
+    toLocalTimestamp(startDate, "00:00:00.000"),
+    toLocalTimestamp(endDate, "23:59:59.999")
+  );
+
+/**
+ * Build a Sequelize where condition for a date column from query parameters
+ */
+export const buildDateRangeFilter = (
+  startDate?: unknown,
+  endDate?: unknown
+): any | undefined => {
+  const { start, end } = parseDateRange(startDate, endDate);
+
+  if (!start && !end) {
+    return undefined;
+  }
+
+  const filter: any = {};
+  if (start) filter[Op.gte] = start;
+  if (end) filter[Op.lte] = end;
+  return filter;
+};
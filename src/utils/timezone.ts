@@ -0,0 +1,31 @@
+import { DB_TIMEZONE } from "../config/database";
+
+// Calendar boundaries (days, months, years) follow the database timezone,
+// not the server's
+const TIMEZONE_OFFSET_MS = (() => {
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):(\d{2})$/.exec(DB_TIMEZONE)!;
+  return (
+    (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) * 60 * 1000
+  );
+})();
+
+/**
+ * Shift a date so its UTC fields read as the local date and time in the
+ * database timezone
+ */
+export const toLocal = (date: Date): Date =>
+  new Date(date.getTime() + TIMEZONE_OFFSET_MS);
+
+/**
+ * The instant a local calendar day starts in the database timezone
+ */
+export const fromLocal = (year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month, day) - TIMEZONE_OFFSET_MS);
+
+/**
+ * The instant the local calendar month containing a date starts
+ */
+export const startOfLocalMonth = (date: Date): Date => {
+  const local = toLocal(date);
+  return fromLocal(local.getUTCFullYear(), local.getUTCMonth(), 1);
+};